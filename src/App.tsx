@@ -2,14 +2,31 @@ import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { isRetryable } from "@/services/supabaseService";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
 import Categories from "./pages/Categories";
 import Leaderboard from "./pages/Leaderboard";
+import Feed from "./pages/Feed";
+import Search from "./pages/Search";
+import History from "./pages/History";
+import DumpDetail from "./pages/DumpDetail";
+import Admin from "./pages/Admin";
 import NotFound from "./pages/NotFound";
 import Navigation from "./components/Navigation";
 
-const queryClient = new QueryClient();
+// Lists refetch in the background once they are 30s old; mutations invalidate
+// the keys they affect right away (see hooks/use-dump-queries). Failed reads
+// are retried up to 3 times unless retrying can't help (not found, forbidden,
+// invalid input).
+const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      staleTime: 30 * 1000,
+      retry: (failureCount, error) => isRetryable(error) && failureCount < 3,
+    },
+  },
+});
 
 const App = () => (
   <QueryClientProvider client={queryClient}>
@@ -22,6 +39,11 @@ const App = () => (
           <Route path="/" element={<Index />} />
           <Route path="/categories" element={<Categories />} />
           <Route path="/leaderboard" element={<Leaderboard />} />
+          <Route path="/feed" element={<Feed />} />
+          <Route path="/search" element={<Search />} />
+          <Route path="/history" element={<History />} />
+          <Route path="/dump/:id" element={<DumpDetail />} />
+          <Route path="/admin" element={<Admin />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
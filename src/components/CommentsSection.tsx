@@ -2,78 +2,114 @@
 
 import type React from "react"
 
-import { useState, useEffect, useRef } from "react"
+import { useState, useEffect, useMemo, useRef } from "react"
+import { useQueryClient } from "@tanstack/react-query"
 import { Button } from "@/components/ui/button"
 import { Textarea } from "@/components/ui/textarea"
 import { ScrollArea } from "@/components/ui/scroll-area"
-import { Send, MessageCircle } from "lucide-react"
-import { getCommentsByDumpId, addComment, rateComment, type Comment } from "@/services/supabaseService"
+import { Send, MessageCircle, Flag, Reply, ArrowLeft, CornerDownRight, ArrowDown } from "lucide-react"
+import {
+  reportComment,
+  subscribeToDump,
+  flattenCommentTree,
+  MAX_COMMENT_DEPTH,
+  type Comment,
+  type CommentNode,
+  type ReportReason,
+} from "@/services/supabaseService"
+import {
+  PENDING_COMMENT_PREFIX,
+  queryKeys,
+  updateCommentTree,
+  useAddComment,
+  useCommentVotes,
+  useComments,
+  useVoteComment,
+} from "@/hooks/use-dump-queries"
 import { useToast } from "@/hooks/use-toast"
+import ReportDialog from "@/components/ReportDialog"
+import ErrorState from "@/components/ErrorState"
 
 interface CommentsSectionProps {
   dumpId: string
 }
 
-interface UserVotes {
-  [commentId: string]: 'up' | 'down'
+const findComment = (nodes: CommentNode[], id: string): CommentNode | undefined => {
+  for (const node of nodes) {
+    if (node.id === id) return node
+    const found = findComment(node.replies, id)
+    if (found) return found
+  }
+  return undefined
 }
 
 const CommentsSection = ({ dumpId }: CommentsSectionProps) => {
-  const [comments, setComments] = useState<Comment[]>([])
+  const { data: comments = [], isLoading, error, refetch } = useComments(dumpId)
+  const { data: userVotes = {} } = useCommentVotes(dumpId, isLoading ? undefined : comments)
+  const addCommentMutation = useAddComment(dumpId)
+  const voteCommentMutation = useVoteComment(dumpId)
+  const queryClient = useQueryClient()
+  // Comments from other people that arrived while reading, shown behind a pill
+  const [incomingComments, setIncomingComments] = useState<Comment[]>([])
   const [newComment, setNewComment] = useState("")
-  const [isLoading, setIsLoading] = useState(true)
-  const [isSubmitting, setIsSubmitting] = useState(false)
-  const [userVotes, setUserVotes] = useState<UserVotes>({})
+  const [replyingToId, setReplyingToId] = useState<string | null>(null)
+  const [replyText, setReplyText] = useState("")
+  // Root of a "continue thread" view, null shows every comment
+  const [focusedThreadId, setFocusedThreadId] = useState<string | null>(null)
+  const [reportingCommentId, setReportingCommentId] = useState<string | null>(null)
   const scrollAreaRef = useRef<HTMLDivElement>(null)
   const { toast } = useToast()
 
-  // Load user votes from localStorage
-  useEffect(() => {
-    const loadUserVotes = () => {
-      try {
-        const storedVotes = localStorage.getItem(`comment_votes_${dumpId}`)
-        if (storedVotes) {
-          setUserVotes(JSON.parse(storedVotes))
-        }
-      } catch (error) {
-        console.error("Failed to load user votes from localStorage:", error)
-        setUserVotes({})
-      }
-    }
+  const isSubmitting = addCommentMutation.isPending
 
-    loadUserVotes()
+  // Each dump opens on its full comment list
+  useEffect(() => {
+    setFocusedThreadId(null)
   }, [dumpId])
 
-  // Save user votes to localStorage
-  const saveUserVotes = (votes: UserVotes) => {
-    try {
-      localStorage.setItem(`comment_votes_${dumpId}`, JSON.stringify(votes))
-    } catch (error) {
-      console.error("Failed to save user votes to localStorage:", error)
-    }
-  }
-
-  // Load comments on component mount
+  // Live updates; edits apply in place, new comments wait for the pill
   useEffect(() => {
-    const loadComments = async () => {
-      setIsLoading(true)
-      try {
-        const fetchedComments = await getCommentsByDumpId(dumpId)
-        setComments(fetchedComments)
-      } catch (error) {
-        console.error("Failed to load comments:", error)
-        toast({
-          title: "Error",
-          description: "Failed to load comments. Please try again.",
-          variant: "destructive",
-          duration: 3000,
-        })
+    setIncomingComments([])
+
+    const replaceComment = (list: Comment[], updated: Comment) =>
+      list.map((comment) => (comment.id === updated.id ? updated : comment))
+    const updateCached = (update: (flat: Comment[]) => Comment[]) =>
+      queryClient.setQueryData<CommentNode[]>(queryKeys.comments(dumpId), (tree) => updateCommentTree(tree, update))
+
+    return subscribeToDump(dumpId, (event) => {
+      switch (event.type) {
+        case 'comment_inserted':
+          setIncomingComments((prev) =>
+            prev.some((comment) => comment.id === event.comment.id) ? prev : [...prev, event.comment]
+          )
+          break
+        case 'comment_updated':
+          updateCached((flat) => replaceComment(flat, event.comment))
+          setIncomingComments((prev) => replaceComment(prev, event.comment))
+          break
+        case 'comment_deleted':
+          updateCached((flat) => flat.filter((comment) => comment.id !== event.id))
+          setIncomingComments((prev) => prev.filter((comment) => comment.id !== event.id))
+          break
       }
-      setIsLoading(false)
-    }
+    })
+  }, [dumpId, queryClient])
 
-    loadComments()
-  }, [dumpId, toast])
+  // Our own posts are already in the list by the time their event arrives
+  const unseenComments = useMemo(() => {
+    const shown = new Set(flattenCommentTree(comments).map((comment) => comment.id))
+    return incomingComments.filter((comment) => !shown.has(comment.id))
+  }, [comments, incomingComments])
+
+  const showIncomingComments = () => {
+    updateComments((flat) => [...flat, ...unseenComments])
+    setIncomingComments([])
+  }
+
+  // Edit the flat list and rebuild the tree so depths and reply counts stay right
+  const updateComments = (update: (flat: Comment[]) => Comment[]) => {
+    queryClient.setQueryData<CommentNode[]>(queryKeys.comments(dumpId), (tree) => updateCommentTree(tree, update))
+  }
 
   // Format timestamp for display
   const formatTimestamp = (timestamp: string) => {
@@ -93,109 +129,88 @@ const CommentsSection = ({ dumpId }: CommentsSectionProps) => {
     })
   }
 
-  // Handle comment voting
-  const handleVoteComment = async (commentId: string, rating: 'up' | 'down') => {
-    // Check if user has already voted on this comment
-    const existingVote = userVotes[commentId]
-    
-    if (existingVote) {
-      if (existingVote === rating) {
-        toast({
-          title: "Already voted",
-          description: `You have already ${rating === 'up' ? 'liked' : 'disliked'} this comment.`,
-          duration: 2000,
-        })
-        return
-      } else {
-        toast({
-          title: "Vote changed",
-          description: `You can only vote once per comment. Your previous ${existingVote === 'up' ? 'like' : 'dislike'} will be replaced.`,
-          duration: 2000,
-        })
-        return
-      }
-    }
+  // Handle comment voting: same direction again undoes the vote, the other direction switches it.
+  // Counts change right away and roll back if the vote fails.
+  const handleVoteComment = (commentId: string, rating: 'up' | 'down') => {
+    if (voteCommentMutation.isPending) return
 
-    try {
-      const result = await rateComment(commentId, rating)
-      
-      if (result.success) {
-        // Update local state optimistically
-        setComments(prev => prev.map(comment => 
-          comment.id === commentId 
-            ? {
-                ...comment,
-                upvotes: rating === 'up' ? comment.upvotes + 1 : comment.upvotes,
-                downvotes: rating === 'down' ? comment.downvotes + 1 : comment.downvotes
-              }
-            : comment
-        ))
-        
-        // Update user votes state and save to localStorage
-        const newUserVotes = { ...userVotes, [commentId]: rating }
-        setUserVotes(newUserVotes)
-        saveUserVotes(newUserVotes)
-        
+    const existingVote = userVotes[commentId] ?? null
+    const nextVote = existingVote === rating ? null : rating
+
+    voteCommentMutation.mutate({ commentId, next: nextVote, previous: existingVote }, {
+      onSuccess: (result) => {
+        const vote = result.result.vote
         toast({
-          title: "Vote recorded!",
-          description: `Comment ${rating === 'up' ? 'liked' : 'disliked'} successfully.`,
+          title: existingVote && vote ? "Vote changed" : vote ? "Vote recorded!" : "Vote removed",
+          description: result.message,
           duration: 1500,
         })
-      } else {
+      },
+      onError: (error) => {
         toast({
           title: "Error",
-          description: result.message,
+          description: error.message || "Failed to vote. Please try again.",
           variant: "destructive",
           duration: 3000,
         })
-      }
-    } catch (error) {
-      toast({
-        title: "Error",
-        description: "Failed to vote. Please try again.",
-        variant: "destructive",
-        duration: 3000,
-      })
-    }
+      },
+    })
   }
 
-  // Handle comment submission
-  const handleSubmitComment = async () => {
-    if (!newComment.trim() || isSubmitting) return
+  const handleReportComment = async (reason: ReportReason, details: string) => {
+    if (!reportingCommentId) return true
+
+    const result = await reportComment(reportingCommentId, reason, details)
+    toast({
+      title: result.success === false ? result.message : result.data.message,
+      variant: result.success ? "default" : "destructive",
+      duration: 3000,
+    })
+    return result.success
+  }
+
+  // Post a top-level comment, or a reply when parentId is given. It shows up
+  // right away and is taken back out if posting fails.
+  const submitComment = async (content: string, parentId: string | null = null) => {
+    if (!content.trim() || isSubmitting) return false
 
-    setIsSubmitting(true)
     try {
-      const result = await addComment({
-        dump_id: dumpId,
-        content: newComment.trim(),
+      await addCommentMutation.mutateAsync({ content: content.trim(), parentId })
+      toast({
+        title: parentId ? "Reply added!" : "Comment added!",
+        description: parentId ? "Your reply has been posted." : "Your comment has been posted.",
+        duration: 2000,
       })
-
-      if (result.success && result.comment) {
-        setComments((prev) => [...prev, result.comment!])
-        setNewComment("")
-        toast({
-          title: "Comment added!",
-          description: "Your comment has been posted.",
-          duration: 2000,
-        })
-      } else {
-        toast({
-          title: "Error",
-          description: result.message,
-          variant: "destructive",
-          duration: 3000,
-        })
-      }
+      return true
     } catch (error) {
       console.error("Failed to add comment:", error)
       toast({
         title: "Error",
-        description: "Failed to post comment. Please try again.",
+        description: error instanceof Error ? error.message : "Failed to post comment. Please try again.",
         variant: "destructive",
         duration: 3000,
       })
+      return false
     }
-    setIsSubmitting(false)
+  }
+
+  // Handle comment submission
+  const handleSubmitComment = async () => {
+    if (await submitComment(newComment)) {
+      setNewComment("")
+    }
+  }
+
+  const handleSubmitReply = async (parentId: string) => {
+    if (await submitComment(replyText, parentId)) {
+      setReplyText("")
+      setReplyingToId(null)
+    }
+  }
+
+  const toggleReply = (commentId: string) => {
+    setReplyingToId((current) => (current === commentId ? null : commentId))
+    setReplyText("")
   }
 
   // Handle Enter key press (submit comment)
@@ -206,67 +221,169 @@ const CommentsSection = ({ dumpId }: CommentsSectionProps) => {
     }
   }
 
+  const focusedThread = focusedThreadId ? findComment(comments, focusedThreadId) : undefined
+
+  // Nested comment with its replies; level is the depth within the current view
+  const renderComment = (comment: CommentNode, level: number): React.ReactNode => {
+    const userVote = userVotes[comment.id]
+    const isRemoved = Boolean(comment.removed_at)
+    const hideReplies = level >= MAX_COMMENT_DEPTH - 1 && comment.replies.length > 0
+
+    return (
+      <div key={comment.id} className={level === 0 ? "border-b border-border/50 pb-1" : "ml-2 pl-3 border-l border-border/50"}>
+        <div className="py-1">
+          <div className="flex items-start gap-2 mb-1">
+            {isRemoved ? (
+              <p className="text-sm text-muted-foreground italic flex-1">[removed]</p>
+            ) : (
+              <p className="text-sm text-foreground leading-relaxed break-words flex-1">{comment.content}</p>
+            )}
+            <span className="text-xs text-muted-foreground whitespace-nowrap">
+              {formatTimestamp(comment.created_at)}
+            </span>
+          </div>
+
+          {/* Vote, reply and report buttons */}
+          {!isRemoved && !comment.id.startsWith(PENDING_COMMENT_PREFIX) && (
+            <div className="flex items-center justify-between mt-1">
+              <div className="flex items-center space-x-3">
+                <button
+                  onClick={() => handleVoteComment(comment.id, 'up')}
+                  aria-pressed={userVote === 'up'}
+                  className={`flex items-center space-x-1 text-xs hover:text-green-600 transition-colors ${
+                    userVote === 'up' ? 'text-green-600 font-semibold' : 'text-muted-foreground'
+                  }`}
+                >
+                  <span>👍</span>
+                  <span>{comment.upvotes}</span>
+                </button>
+                <button
+                  onClick={() => handleVoteComment(comment.id, 'down')}
+                  aria-pressed={userVote === 'down'}
+                  className={`flex items-center space-x-1 text-xs hover:text-red-600 transition-colors ${
+                    userVote === 'down' ? 'text-red-600 font-semibold' : 'text-muted-foreground'
+                  }`}
+                >
+                  <span>👎</span>
+                  <span>{comment.downvotes}</span>
+                </button>
+                <button
+                  onClick={() => toggleReply(comment.id)}
+                  className="flex items-center space-x-1 text-xs text-muted-foreground hover:text-foreground transition-colors"
+                >
+                  <Reply className="w-3 h-3" />
+                  <span>Reply</span>
+                </button>
+                {comment.replyCount > 0 && (
+                  <span className="text-xs text-muted-foreground">
+                    {comment.replyCount} {comment.replyCount === 1 ? "reply" : "replies"}
+                  </span>
+                )}
+              </div>
+              <button
+                onClick={() => setReportingCommentId(comment.id)}
+                aria-label="Report comment"
+                className="text-muted-foreground hover:text-destructive transition-colors"
+              >
+                <Flag className="w-3 h-3" />
+              </button>
+            </div>
+          )}
+
+          {/* Inline reply box */}
+          {replyingToId === comment.id && (
+            <div className="mt-2 space-y-2">
+              <Textarea
+                placeholder="Write a reply..."
+                value={replyText}
+                onChange={(e) => setReplyText(e.target.value)}
+                onKeyPress={(e) => {
+                  if (e.key === "Enter" && !e.shiftKey) {
+                    e.preventDefault()
+                    handleSubmitReply(comment.id)
+                  }
+                }}
+                className="min-h-[48px] resize-none text-sm"
+                maxLength={500}
+                disabled={isSubmitting}
+                autoFocus
+              />
+              <div className="flex items-center justify-end gap-2">
+                <Button variant="ghost" size="sm" onClick={() => toggleReply(comment.id)} disabled={isSubmitting}>
+                  Cancel
+                </Button>
+                <Button size="sm" onClick={() => handleSubmitReply(comment.id)} disabled={!replyText.trim() || isSubmitting}>
+                  {isSubmitting ? "Posting..." : "Reply"}
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {hideReplies ? (
+          <button
+            onClick={() => setFocusedThreadId(comment.id)}
+            className="ml-2 flex items-center gap-1 text-xs text-primary hover:underline py-1"
+          >
+            <CornerDownRight className="w-3 h-3" />
+            Continue thread ({comment.replyCount} more {comment.replyCount === 1 ? "reply" : "replies"})
+          </button>
+        ) : (
+          comment.replies.map((reply) => renderComment(reply, level + 1))
+        )}
+      </div>
+    )
+  }
+
   return (
     <div className="flex flex-col h-[280px] max-h-[50vh]">
       {/* Comments List */}
-      <ScrollArea ref={scrollAreaRef} className="flex-1 pr-4">
-        {isLoading ? (
-          <div className="flex items-center justify-center py-8">
-            <div className="text-center">
-              <div className="animate-pulse flex items-center justify-center mb-2">
-                <MessageCircle className="w-8 h-8 text-muted-foreground" />
+      <div className="relative flex-1 min-h-0 flex flex-col">
+        {unseenComments.length > 0 && (
+          <button
+            onClick={showIncomingComments}
+            className="absolute top-2 left-1/2 -translate-x-1/2 z-10 flex items-center gap-1 rounded-full bg-primary text-primary-foreground text-xs font-medium px-3 py-1 shadow-md hover:bg-primary/90 transition-colors"
+          >
+            <ArrowDown className="w-3 h-3" />
+            {unseenComments.length} new {unseenComments.length === 1 ? "comment" : "comments"}
+          </button>
+        )}
+        <ScrollArea ref={scrollAreaRef} className="flex-1 pr-4">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="text-center">
+                <div className="animate-pulse flex items-center justify-center mb-2">
+                  <MessageCircle className="w-8 h-8 text-muted-foreground" />
+                </div>
+                <p className="text-muted-foreground">Loading comments...</p>
               </div>
-              <p className="text-muted-foreground">Loading comments...</p>
             </div>
-          </div>
-        ) : comments.length === 0 ? (
-          <div className="flex items-center justify-center py-8">
-            <div className="text-center">
-              <MessageCircle className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
-              <p className="text-muted-foreground text-lg mb-2">No comments yet</p>
-              <p className="text-muted-foreground text-sm">Be the first to share your thoughts!</p>
+          ) : error && comments.length === 0 ? (
+            <ErrorState error={error} variant="plain" onRetry={() => refetch()} className="py-8" />
+          ) : comments.length === 0 ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="text-center">
+                <MessageCircle className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+                <p className="text-muted-foreground text-lg mb-2">No comments yet</p>
+                <p className="text-muted-foreground text-sm">Be the first to share your thoughts!</p>
+              </div>
             </div>
-          </div>
-        ) : (
-          <div className="space-y-1 pb-4">
-            {comments.map((comment) => {
-              const userVote = userVotes[comment.id]
-              return (
-                <div key={comment.id} className="border-b border-border/50 pb-1">
-                  <div className="py-1">
-                    <div className="flex items-start gap-2 mb-1">
-                      <p className="text-sm text-foreground leading-relaxed break-words flex-1">{comment.content}</p>
-                      <span className="text-xs text-muted-foreground whitespace-nowrap">
-                        {formatTimestamp(comment.created_at)}
-                      </span>
-                    </div>
-                    
-                    {/* Vote buttons */}
-                    <div className="flex items-center justify-between mt-1">
-                      <div className="flex items-center space-x-3">
-                        <button
-                          onClick={() => handleVoteComment(comment.id, 'up')}
-                          className="flex items-center space-x-1 text-xs text-muted-foreground hover:text-green-600 transition-colors"
-                        >
-                          <span>👍</span>
-                          <span>{comment.upvotes}</span>
-                        </button>
-                        <button
-                          onClick={() => handleVoteComment(comment.id, 'down')}
-                          className="flex items-center space-x-1 text-xs text-muted-foreground hover:text-red-600 transition-colors"
-                        >
-                          <span>👎</span>
-                          <span>{comment.downvotes}</span>
-                        </button>
-                      </div>
-                    </div>
-                  </div>
-                </div>
-              )
-            })}
-          </div>
-        )}
-      </ScrollArea>
+          ) : (
+            <div className="space-y-1 pb-4">
+              {focusedThread && (
+                <button
+                  onClick={() => setFocusedThreadId(null)}
+                  className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground transition-colors py-1"
+                >
+                  <ArrowLeft className="w-3 h-3" />
+                  Back to all comments
+                </button>
+              )}
+              {(focusedThread ? [focusedThread] : comments).map((comment) => renderComment(comment, 0))}
+            </div>
+          )}
+        </ScrollArea>
+      </div>
 
       {/* Comment Input */}
       <div className="border-t pt-4 mt-4">
@@ -298,6 +415,13 @@ const CommentsSection = ({ dumpId }: CommentsSectionProps) => {
           </div>
         </div>
       </div>
+
+      <ReportDialog
+        open={reportingCommentId !== null}
+        onOpenChange={(open) => !open && setReportingCommentId(null)}
+        targetLabel="comment"
+        onSubmit={handleReportComment}
+      />
     </div>
   )
 }
@@ -5,16 +5,47 @@ import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import { Card, CardContent } from "@/components/ui/card"
 import { ThumbsUp, ThumbsDown, Flag, Volume2, VolumeX, Shuffle, MessageCircle, ArrowLeft } from "lucide-react"
-import { type DumpWithTimestamp, rateDump, reportDump } from "@/services/supabaseService"
+import { useQueryClient } from "@tanstack/react-query"
+import { Link } from "react-router-dom"
+import {
+  type DumpWithTimestamp,
+  type ReportReason,
+  imageSrcSet,
+  placeholderImage,
+  reportDump,
+  subscribeToDump,
+} from "@/services/supabaseService"
+import { queryKeys, useDumpVotes, useVoteDump, type DumpVoteState } from "@/hooks/use-dump-queries"
 import { useToast } from "@/hooks/use-toast"
 import CommentsSection from "@/components/CommentsSection"
+import ReportDialog from "@/components/ReportDialog"
+import ShareMenu from "@/components/ShareMenu"
+
+// Cards are at most max-w-2xl minus padding wide; lets the browser pick the
+// thumbnail wherever that's enough
+const IMAGE_SIZES = "(max-width: 672px) 100vw, 624px"
+
+// 83000 -> "1:23", 3723000 -> "1:02:03"
+const formatDuration = (ms: number) => {
+  const totalSeconds = Math.round(ms / 1000)
+  const hours = Math.floor(totalSeconds / 3600)
+  const minutes = Math.floor((totalSeconds % 3600) / 60)
+  const seconds = (totalSeconds % 60).toString().padStart(2, "0")
+  return hours > 0 ? `${hours}:${minutes.toString().padStart(2, "0")}:${seconds}` : `${minutes}:${seconds}`
+}
 
 interface DumpCardProps {
   dump: DumpWithTimestamp
   className?: string
   showGetAnotherButton?: boolean
   onGetAnother?: () => void
+  // Replaces "Get Another", e.g. to show the random filters in use
+  getAnotherLabel?: string
   hideCommentsButton?: boolean
+  // Keeps the votes and rating live for a dump shown on its own (its page, a
+  // random pick). Cards in lists only go live while their comments are open,
+  // so a long feed doesn't hold a realtime channel per card.
+  live?: boolean
 }
 
 const DumpCard = ({
@@ -22,102 +53,86 @@ const DumpCard = ({
   className = "",
   showGetAnotherButton = false,
   onGetAnother,
+  getAnotherLabel = "Get Another",
   hideCommentsButton = false,
+  live = false,
 }: DumpCardProps) => {
-  const [localUpvotes, setLocalUpvotes] = useState(dump.upvotes)
-  const [localDownvotes, setLocalDownvotes] = useState(dump.downvotes)
-  const [userVote, setUserVote] = useState<"up" | "down" | null>(null)
+  // Totals and this device's vote, shared with any other card showing this dump
+  const { data: votes } = useDumpVotes(dump)
+  const voteMutation = useVoteDump(dump.id)
+  const queryClient = useQueryClient()
+  const userVote = votes?.vote ?? null
   const [isPlaying, setIsPlaying] = useState(false)
   const [mediaLoaded, setMediaLoaded] = useState(false)
+  const [mediaFailed, setMediaFailed] = useState(false)
   const [showComments, setShowComments] = useState(false)
+  const [reportOpen, setReportOpen] = useState(false)
   const audioRef = useRef<HTMLAudioElement>(null)
   const imageRef = useRef<HTMLImageElement>(null)
   const videoRef = useRef<HTMLVideoElement>(null)
   const { toast } = useToast()
 
-  // Preload media content
+  // Preload voice notes. Images load in place instead, over their placeholder,
+  // and videos show their poster until they play.
   useEffect(() => {
-    if (dump.type === "image" || dump.type === "video" || dump.type === "voice") {
-      const preloadMedia = () => {
-        if (dump.type === "image") {
-          const img = new Image()
-          img.onload = () => setMediaLoaded(true)
-          img.onerror = () => setMediaLoaded(true) // Still set loaded to show fallback
-          img.src = dump.content
-        } else if (dump.type === "video") {
-          const video = document.createElement("video")
-          video.onloadeddata = () => setMediaLoaded(true)
-          video.onerror = () => setMediaLoaded(true)
-          video.preload = "metadata"
-          video.src = dump.content
-        } else if (dump.type === "voice") {
-          const audio = new Audio()
-          audio.onloadeddata = () => setMediaLoaded(true)
-          audio.onerror = () => setMediaLoaded(true)
-          audio.preload = "metadata"
-          audio.src = dump.content
-        }
-      }
-
-      preloadMedia()
-    } else {
+    if (dump.type === "voice") {
+      const audio = new Audio()
+      audio.onloadeddata = () => setMediaLoaded(true)
+      audio.onerror = () => setMediaLoaded(true)
+      audio.preload = "metadata"
+      audio.src = dump.content
+    } else if (dump.type === "text") {
       setMediaLoaded(true) // Text content is always "loaded"
     }
   }, [dump.content, dump.type])
 
+  // Keep vote totals and the rating live while the dump is open
+  const isOpen = live || showComments
+  useEffect(() => {
+    if (!isOpen) return
+    return subscribeToDump(dump.id, (event) => {
+      if (event.type === 'dump_votes') {
+        queryClient.setQueryData<DumpVoteState>(queryKeys.dumpVotes(dump.id), (current) =>
+          current && { ...current, upvotes: event.upvotes, downvotes: event.downvotes, rating: event.rating }
+        )
+      }
+    })
+  }, [dump.id, isOpen, queryClient])
+
   const handleVote = (voteType: "up" | "down") => {
     // Prevent rapid clicking
-    if (userVote === voteType) {
-      toast({
-        title: "Already voted",
-        description: `You already ${voteType === "up" ? "upvoted" : "downvoted"} this dump`,
-        duration: 2000,
-      })
-      return
-    }
+    if (voteMutation.isPending) return
 
-    rateDump(dump.id, voteType)
-      .then((result) => {
-        if (result.success) {
-          setUserVote(voteType)
-          // Update local state optimistically
-          if (voteType === "up") {
-            setLocalUpvotes((prev) => prev + 1)
-          } else {
-            setLocalDownvotes((prev) => prev + 1)
-          }
+    // Clicking the active vote again undoes it, the other button switches it
+    const nextVote = userVote === voteType ? null : voteType
 
-          toast({
-            title: result.message,
-            duration: 2000,
-          })
-        } else {
-          toast({
-            title: "Error",
-            description: result.message,
-            variant: "destructive",
-            duration: 3000,
-          })
-        }
-      })
-      .catch((error) => {
+    // Counts change right away and roll back if the vote fails
+    voteMutation.mutate({ next: nextVote, previous: userVote }, {
+      onSuccess: (result) => {
+        toast({
+          title: result.message,
+          duration: 2000,
+        })
+      },
+      onError: (error) => {
         toast({
           title: "Error",
-          description: "Failed to submit vote",
+          description: error.message || "Failed to submit vote",
           variant: "destructive",
           duration: 3000,
         })
-      })
+      },
+    })
   }
 
-  const handleReport = () => {
-    reportDump(dump.id).then((result) => {
-      toast({
-        title: result.message,
-        variant: result.success ? "default" : "destructive",
-        duration: 3000,
-      })
+  const handleReport = async (reason: ReportReason, details: string) => {
+    const result = await reportDump(dump.id, reason, details)
+    toast({
+      title: result.success === false ? result.message : result.data.message,
+      variant: result.success ? "default" : "destructive",
+      duration: 3000,
     })
+    return result.success
   }
 
   const toggleAudio = () => {
@@ -181,11 +196,14 @@ const DumpCard = ({
                 ))}
               </div>
               <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                <span>{formatTimestamp(dump.timestamp)}</span>
+                <Link to={`/dump/${dump.id}`} className="hover:underline" title="Link to this dump">
+                  {formatTimestamp(dump.timestamp)}
+                </Link>
                 <Button
                   variant="ghost"
                   size="sm"
-                  onClick={handleReport}
+                  onClick={() => setReportOpen(true)}
+                  aria-label="Report dump"
                   className="p-1 h-auto text-muted-foreground hover:text-destructive"
                 >
                   <Flag className="w-4 h-4" />
@@ -207,19 +225,32 @@ const DumpCard = ({
               {dump.type === "text" && <p className="text-lg leading-relaxed text-foreground">{dump.content}</p>}
 
               {dump.type === "image" && (
-                <div className="relative bg-muted rounded-lg overflow-hidden">
-                  {!mediaLoaded ? (
-                    <MediaSkeleton />
+                <div
+                  className={`relative bg-muted bg-cover bg-center rounded-lg overflow-hidden ${
+                    !mediaLoaded && !mediaFailed && !dump.placeholder ? "min-h-64 animate-pulse" : ""
+                  }`}
+                  // Painted instantly from the row; the image fades in over it
+                  style={{ backgroundImage: placeholderImage(dump) }}
+                >
+                  {mediaFailed ? (
+                    <p className="p-6 text-center text-sm text-muted-foreground">This image couldn't be loaded.</p>
                   ) : (
                     <img
                       ref={imageRef}
                       src={dump.content || "/placeholder.svg"}
+                      srcSet={imageSrcSet(dump)}
+                      sizes={IMAGE_SIZES}
+                      // Reserves the image's shape before it loads
+                      width={dump.media_width ?? undefined}
+                      height={dump.media_height ?? undefined}
                       alt="User uploaded content"
-                      className="w-full h-auto max-h-96 object-contain bg-background"
-                      loading="eager"
-                      onError={(e) => {
-                        e.currentTarget.src = "https://via.placeholder.com/400x300?text=Image+Not+Found"
-                      }}
+                      className={`w-full h-auto max-h-96 object-contain transition-opacity duration-300 ${
+                        mediaLoaded ? "opacity-100 bg-background" : "opacity-0"
+                      }`}
+                      loading="lazy"
+                      decoding="async"
+                      onLoad={() => setMediaLoaded(true)}
+                      onError={() => setMediaFailed(true)}
                     />
                   )}
                 </div>
@@ -267,21 +298,37 @@ const DumpCard = ({
               )}
 
               {dump.type === "video" && (
-                <div className="relative">
-                  {!mediaLoaded ? (
-                    <MediaSkeleton />
+                <div
+                  className="relative bg-muted bg-cover bg-center rounded-lg overflow-hidden"
+                  style={{ backgroundImage: placeholderImage(dump) }}
+                >
+                  {mediaFailed ? (
+                    <p className="p-6 text-center text-sm text-muted-foreground">This video couldn't be loaded.</p>
                   ) : (
                     <video
                       ref={videoRef}
                       src={dump.content}
+                      poster={dump.poster_url ?? undefined}
+                      width={dump.media_width ?? undefined}
+                      height={dump.media_height ?? undefined}
                       controls
-                      className="w-full h-auto rounded-lg max-h-96"
+                      playsInline
+                      className="w-full h-auto max-h-96"
                       preload="metadata"
-                      onError={(e) => {
-                        e.currentTarget.poster = "https://via.placeholder.com/400x300?text=Video+Not+Found"
-                      }}
+                      onPlay={() => setIsPlaying(true)}
+                      onPause={() => setIsPlaying(false)}
+                      onEnded={() => setIsPlaying(false)}
+                      onError={() => setMediaFailed(true)}
                     />
                   )}
+                  {typeof dump.duration_ms === "number" && !isPlaying && !mediaFailed && (
+                    <Badge
+                      variant="secondary"
+                      className="absolute top-2 right-2 bg-black/70 text-white hover:bg-black/70 tabular-nums pointer-events-none"
+                    >
+                      {formatDuration(dump.duration_ms)}
+                    </Badge>
+                  )}
                 </div>
               )}
             </div>
@@ -292,23 +339,27 @@ const DumpCard = ({
                 {/* Left: votes (unchanged) */}
                 <div className="flex items-center gap-4">
                   <Button
-                    variant="outline"
+                    variant={userVote === "up" ? "default" : "outline"}
                     size="sm"
                     onClick={() => handleVote("up")}
+                    disabled={voteMutation.isPending}
+                    aria-pressed={userVote === "up"}
                     className="flex items-center gap-2"
                   >
                     <ThumbsUp className="w-4 h-4" />
-                    {localUpvotes}
+                    {votes?.upvotes ?? dump.upvotes}
                   </Button>
 
                   <Button
-                    variant="outline"
+                    variant={userVote === "down" ? "default" : "outline"}
                     size="sm"
                     onClick={() => handleVote("down")}
+                    disabled={voteMutation.isPending}
+                    aria-pressed={userVote === "down"}
                     className="flex items-center gap-2"
                   >
                     <ThumbsDown className="w-4 h-4" />
-                    {localDownvotes}
+                    {votes?.downvotes ?? dump.downvotes}
                   </Button>
 
                   {!hideCommentsButton && (
@@ -322,10 +373,12 @@ const DumpCard = ({
                       {dump.commentCount || 0}
                     </Button>
                   )}
+
+                  <ShareMenu dump={dump} />
                 </div>
 
                 {/* Spacer to push rating to the right */}
-                <div className="ml-auto text-sm text-muted-foreground">{dump.rating.toFixed(1)}★</div>
+                <div className="ml-auto text-sm text-muted-foreground">{(votes?.rating ?? dump.rating).toFixed(1)}★</div>
               </div>
 
               {/* Center: absolutely centered across the whole row on sm+ only */}
@@ -338,7 +391,7 @@ const DumpCard = ({
                     className="flex items-center gap-2 bg-transparent"
                   >
                     <Shuffle className="w-4 h-4" />
-                    Get Another
+                    <span className="truncate max-w-[16rem]">{getAnotherLabel}</span>
                   </Button>
                 )}
               </div>
@@ -353,7 +406,7 @@ const DumpCard = ({
                     className="flex items-center gap-2 bg-transparent"
                   >
                     <Shuffle className="w-4 h-4" />
-                    Get Another
+                    <span className="truncate max-w-[16rem]">{getAnotherLabel}</span>
                   </Button>
                 )}
               </div>
@@ -384,6 +437,8 @@ const DumpCard = ({
           </div>
         )}
       </CardContent>
+
+      <ReportDialog open={reportOpen} onOpenChange={setReportOpen} onSubmit={handleReport} />
     </Card>
   )
 }
@@ -0,0 +1,57 @@
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { ServiceError, type ServiceErrorKind } from "@/services/supabaseService";
+import { AlertTriangle, Ban, Clock, SearchX, WifiOff, RotateCw } from "lucide-react";
+
+interface ErrorStateProps {
+  error: unknown;
+  // Shown as a "Try again" button unless retrying can't help (not found, forbidden)
+  onRetry?: () => void;
+  // "glass" sits on the hero gradient, "plain" inside cards and dialogs
+  variant?: "glass" | "plain";
+  className?: string;
+}
+
+const copy: Record<ServiceErrorKind, { title: string; icon: typeof AlertTriangle }> = {
+  network: { title: "You seem to be offline", icon: WifiOff },
+  not_found: { title: "Nothing here", icon: SearchX },
+  rate_limited: { title: "Slow down a little", icon: Clock },
+  validation: { title: "That didn't work", icon: AlertTriangle },
+  forbidden: { title: "Not allowed", icon: Ban },
+  unknown: { title: "Something went wrong", icon: AlertTriangle },
+};
+
+// A failed load, told apart from "nothing here yet", with a way to retry
+const ErrorState = ({ error, onRetry, variant = "glass", className }: ErrorStateProps) => {
+  const kind: ServiceErrorKind = error instanceof ServiceError ? error.kind : "unknown";
+  const { title, icon: Icon } = copy[kind];
+  const message = error instanceof Error ? error.message : "Please try again.";
+  const canRetry = onRetry && kind !== "not_found" && kind !== "forbidden";
+
+  return (
+    <div
+      role="alert"
+      className={cn(
+        "text-center p-8 max-w-md mx-auto",
+        variant === "glass" ? "bg-white/10 backdrop-blur-sm rounded-3xl text-white" : "text-foreground",
+        className
+      )}
+    >
+      <Icon className={cn("w-10 h-10 mx-auto mb-3", variant === "glass" ? "text-white/80" : "text-muted-foreground")} />
+      <p className="text-lg font-semibold">{title}</p>
+      <p className={cn("mt-2", variant === "glass" ? "text-white/70" : "text-muted-foreground")}>{message}</p>
+      {canRetry && (
+        <Button
+          variant="outline"
+          onClick={onRetry}
+          className={cn("mt-4", variant === "glass" && "bg-white/10 border-white/30 text-white hover:bg-white/20")}
+        >
+          <RotateCw className="w-4 h-4 mr-2" />
+          Try again
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default ErrorState;
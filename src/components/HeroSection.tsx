@@ -1,56 +1,94 @@
-import { useState, useEffect } from "react";
+import { useState } from "react";
+import { useLocation, useNavigate, useSearchParams } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
-import { getRandomDump, type DumpWithTimestamp } from "@/services/supabaseService";
+import {
+  getRandomDump,
+  hasRandomFilters,
+  DEFAULT_RANDOM_FILTERS,
+  type Category,
+  type RandomDumpFilters,
+  type ServiceError,
+} from "@/services/supabaseService";
+import { loadRandomFilters, saveRandomFilters } from "@/lib/preferences";
+import { queryKeys, useCategories, useDump } from "@/hooks/use-dump-queries";
 import DumpCard from "@/components/DumpCard";
 import UploadForm from "@/components/UploadForm";
+import RandomFilterPopover from "@/components/RandomFilterPopover";
+import ErrorState from "@/components/ErrorState";
 import { Shuffle, Plus } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 
+const typeLabels = { text: "text", image: "images", video: "videos", voice: "voice" };
+
+// Short description of the active filters for the "Get Another" button
+const describeFilters = (filters: RandomDumpFilters, categories: Category[]): string => {
+  const names = filters.tags.map((slug) => categories.find((category) => category.slug === slug)?.name ?? slug);
+  return [
+    names.length > 2 ? `${names.length} categories` : names.join(" or "),
+    filters.types.map((type) => typeLabels[type]).join("/"),
+    filters.minRating > 0 ? `${filters.minRating}★+` : "",
+    filters.last24h ? "last 24h" : "",
+  ].filter(Boolean).join(" · ");
+};
+
+// History entries pushed by picking random dumps carry how many of them there
+// are, so closing the modal can pop them all at once
+type RandomHistoryState = { randomDepth?: number } | null;
+
 const HeroSection = () => {
-  const [currentDump, setCurrentDump] = useState<DumpWithTimestamp | null>(null);
+  // The dump in the modal lives in the URL (?dump=<id>): every pick is a
+  // history entry, so back returns to the previous dump and links can be shared
+  const [searchParams, setSearchParams] = useSearchParams();
+  const location = useLocation();
+  const navigate = useNavigate();
+  const dumpParam = searchParams.get("dump");
+  const randomDepth = (location.state as RandomHistoryState)?.randomDepth ?? 0;
+  // Picks are put in the cache first, so only opened links are fetched here
+  const {
+    data: currentDump,
+    isLoading: dumpLoading,
+    error: dumpError,
+    refetch: refetchDump,
+  } = useDump(dumpParam ?? undefined);
+  const [noMatch, setNoMatch] = useState(false);
+  const [error, setError] = useState<ServiceError | null>(null);
+  const [filters, setFilters] = useState<RandomDumpFilters>(loadRandomFilters);
+  const { data: categories = [] } = useCategories();
+  const queryClient = useQueryClient();
   const [isLoading, setIsLoading] = useState(false);
   const [modalOpen, setModalOpen] = useState(false);
   const [modalType, setModalType] = useState<'dump' | 'upload'>('dump');
   const [key, setKey] = useState(0); // For re-triggering animations
-  const [cacheWarmed, setCacheWarmed] = useState(false);
   const { toast } = useToast();
 
-  // Preload cache on component mount for faster subsequent requests
-  useEffect(() => {
-    const warmCache = async () => {
-      try {
-        // Silently fetch a random dump to warm the cache
-        await getRandomDump();
-        setCacheWarmed(true);
-      } catch (error) {
-        console.log('Cache warming failed:', error);
-        // Not critical, user experience will still work
-      }
-    };
-
-    if (!cacheWarmed) {
-      warmCache();
-    }
-  }, [cacheWarmed]);
+  const handleFiltersChange = (next: RandomDumpFilters) => {
+    setFilters(next);
+    saveRandomFilters(next);
+  };
 
-  const handleGetRandomDump = async () => {
+  const handleGetRandomDump = async (activeFilters: RandomDumpFilters = filters) => {
     setModalType('dump');
     setModalOpen(true);
     setIsLoading(true);
+    setNoMatch(false);
+    setError(null);
     
-    try {
-      const dump = await getRandomDump();
-      setCurrentDump(dump);
+    const result = await getRandomDump(activeFilters);
+    if (result.success === false) {
+      setError(result.error);
+    } else if (result.data === null) {
+      setNoMatch(true);
+    } else {
+      const dump = result.data;
+      queryClient.setQueryData(queryKeys.dump(dump.id), dump);
+      // The pick was added to the seen history
+      queryClient.invalidateQueries({ queryKey: queryKeys.history });
+      setSearchParams({ dump: dump.id }, { state: { randomDepth: randomDepth + 1 } });
+      // The URL keeps the modal open from here on, so back past the first pick closes it
+      setModalOpen(false);
       setKey(prev => prev + 1); // Trigger re-animation
-    } catch (error) {
-      console.error('Failed to fetch random dump:', error);
-      toast({
-        title: "Oops!",
-        description: "Failed to fetch a dump. Please try again.",
-        variant: "destructive",
-        duration: 3000,
-      });
     }
     
     setIsLoading(false);
@@ -59,17 +97,23 @@ const HeroSection = () => {
   const handleShowUploadForm = () => {
     setModalType('upload');
     setModalOpen(true);
-    setCurrentDump(null);
   };
 
   const handleCloseModal = () => {
     setModalOpen(false);
-    setCurrentDump(null);
+    setNoMatch(false);
+    setError(null);
     setIsLoading(false);
+    if (randomDepth > 0) {
+      navigate(-randomDepth);
+    } else if (dumpParam) {
+      // Opened from a link: nothing of ours to go back to
+      setSearchParams({}, { replace: true });
+    }
   };
 
   const handleUploadSuccess = () => {
-    setModalOpen(false);
+    handleCloseModal();
     // Optionally show a success message or fetch a new dump
     toast({
       title: "Success!",
@@ -108,15 +152,23 @@ const HeroSection = () => {
 
             {/* Action Buttons */}
             <div className="flex flex-col sm:flex-row gap-4 justify-center mb-12 relative z-50">
-              <Button 
-                onClick={handleGetRandomDump}
-                variant="cta" 
-                size="lg" 
-                className="text-xl px-12 py-6 h-auto rounded-full flex items-center gap-3 pointer-events-auto"
-              >
-                <Shuffle className="w-6 h-6" />
-                Give me a dump!
-              </Button>
+              <div className="flex items-center justify-center gap-2">
+                <Button 
+                  onClick={() => handleGetRandomDump()}
+                  variant="cta" 
+                  size="lg" 
+                  className="text-xl px-12 py-6 h-auto rounded-full flex items-center gap-3 pointer-events-auto"
+                >
+                  <Shuffle className="w-6 h-6" />
+                  Give me a dump!
+                </Button>
+                <RandomFilterPopover
+                  filters={filters}
+                  onChange={handleFiltersChange}
+                  categories={categories}
+                  className="h-auto py-4 rounded-full bg-white/20 text-white border-white/30 hover:bg-white/30 hover:text-white pointer-events-auto"
+                />
+              </div>
               
               <Button
                 onClick={handleShowUploadForm}
@@ -181,19 +233,27 @@ const HeroSection = () => {
     </section>
 
       {/* Modal Dialog */}
-      <Dialog open={modalOpen} onOpenChange={setModalOpen}>
+      <Dialog
+        open={modalOpen || (modalType === 'dump' && dumpParam !== null)}
+        onOpenChange={(open) => !open && handleCloseModal()}
+      >
         <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
           <DialogHeader>
-            <DialogTitle className="text-2xl font-bold">
-              {modalType === 'dump' ? 'Random Dump' : 'Submit Your Dump'}
-            </DialogTitle>
+            <div className="flex items-center justify-between gap-4 pr-8">
+              <DialogTitle className="text-2xl font-bold">
+                {modalType === 'dump' ? 'Random Dump' : 'Submit Your Dump'}
+              </DialogTitle>
+              {modalType === 'dump' && (
+                <RandomFilterPopover filters={filters} onChange={handleFiltersChange} categories={categories} />
+              )}
+            </div>
           </DialogHeader>
           
           <div className="mt-4">
             {modalType === 'dump' ? (
               <div>
                 {/* Loading State */}
-                {isLoading && (
+                {(isLoading || dumpLoading) && (
                   <div className="text-center py-12">
                     <div className="animate-pulse">
                       <div className="flex justify-center mb-4">
@@ -202,19 +262,56 @@ const HeroSection = () => {
                         <div className="w-8 h-8 bg-primary/20 rounded-full animate-bounce" style={{ animationDelay: '0.2s' }}></div>
                       </div>
                       <p className="text-lg">
-                        {cacheWarmed ? 'Finding the perfect dump for you...' : 'Loading dumps...'}
+                        Finding the perfect dump for you...
                       </p>
                     </div>
                   </div>
                 )}
                 
+                {/* Couldn't fetch a dump */}
+                {error && !isLoading && (
+                  <ErrorState error={error} variant="plain" onRetry={() => handleGetRandomDump()} className="py-12" />
+                )}
+                {/* A linked dump that couldn't be loaded */}
+                {!currentDump && dumpError && !isLoading && !error && !noMatch && (
+                  <ErrorState error={dumpError} variant="plain" onRetry={() => refetchDump()} className="py-12" />
+                )}
+
+                {/* Nothing matches the filters, or there are no dumps at all */}
+                {noMatch && !isLoading && !hasRandomFilters(filters) && (
+                  <div className="text-center py-12 space-y-4">
+                    <p className="text-lg">No dumps yet.</p>
+                    <Button onClick={handleShowUploadForm}>Be the first to submit one</Button>
+                  </div>
+                )}
+                {noMatch && !isLoading && hasRandomFilters(filters) && (
+                  <div className="text-center py-12 space-y-4">
+                    <p className="text-lg">No dumps match these filters yet.</p>
+                    <div className="flex justify-center gap-2">
+                      <Button variant="outline" onClick={() => handleGetRandomDump()}>
+                        Try again
+                      </Button>
+                      <Button
+                        onClick={() => {
+                          handleFiltersChange(DEFAULT_RANDOM_FILTERS);
+                          handleGetRandomDump(DEFAULT_RANDOM_FILTERS);
+                        }}
+                      >
+                        Clear filters
+                      </Button>
+                    </div>
+                  </div>
+                )}
+
                 {/* Current Dump Display */}
-                {currentDump && !isLoading && (
+                {currentDump && !isLoading && !error && !noMatch && (
                   <div key={key} className="animate-fade-in">
                     <DumpCard 
                       dump={currentDump} 
                       showGetAnotherButton={true}
-                      onGetAnother={handleGetRandomDump}
+                      live={true}
+                      onGetAnother={() => handleGetRandomDump()}
+                      getAnotherLabel={hasRandomFilters(filters) ? `Another: ${describeFilters(filters, categories)}` : undefined}
                     />
                   </div>
                 )}
@@ -33,6 +33,15 @@ const Navigation = () => {
               Home
             </Link>
 
+            <Link
+              to="/feed"
+              className={`text-white hover:text-white/80 font-medium transition-colors ${
+                location.pathname === "/feed" ? "text-accent" : ""
+              }`}
+            >
+              Feed
+            </Link>
+
             <Link
               to="/categories"
               className={`text-white hover:text-white/80 font-medium transition-colors ${
@@ -50,6 +59,24 @@ const Navigation = () => {
             >
               Leaderboard
             </Link>
+
+            <Link
+              to="/search"
+              className={`text-white hover:text-white/80 font-medium transition-colors ${
+                location.pathname === "/search" ? "text-accent" : ""
+              }`}
+            >
+              Search
+            </Link>
+
+            <Link
+              to="/history"
+              className={`text-white hover:text-white/80 font-medium transition-colors ${
+                location.pathname === "/history" ? "text-accent" : ""
+              }`}
+            >
+              History
+            </Link>
           </div>
 
           {/* Right Section (Auth + Mobile Menu) */}
@@ -74,6 +101,11 @@ const Navigation = () => {
                       Home
                     </Link>
                   </DropdownMenuItem>
+                  <DropdownMenuItem>
+                    <Link to="/feed" className="w-full block">
+                      Feed
+                    </Link>
+                  </DropdownMenuItem>
                   <DropdownMenuItem>
                     <Link to="/categories" className="w-full block">
                       Categories
@@ -84,6 +116,16 @@ const Navigation = () => {
                       Leaderboard
                     </Link>
                   </DropdownMenuItem>
+                  <DropdownMenuItem>
+                    <Link to="/search" className="w-full block">
+                      Search
+                    </Link>
+                  </DropdownMenuItem>
+                  <DropdownMenuItem>
+                    <Link to="/history" className="w-full block">
+                      History
+                    </Link>
+                  </DropdownMenuItem>
                 </DropdownMenuContent>
               </DropdownMenu>
             </div>
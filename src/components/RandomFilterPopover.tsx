@@ -0,0 +1,153 @@
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import {
+  DEFAULT_RANDOM_FILTERS,
+  hasRandomFilters,
+  type Category,
+  type DumpType,
+  type RandomDumpFilters,
+  type RandomWeighting,
+} from "@/services/supabaseService";
+import { SlidersHorizontal, Check } from "lucide-react";
+
+interface RandomFilterPopoverProps {
+  filters: RandomDumpFilters;
+  onChange: (filters: RandomDumpFilters) => void;
+  categories: Category[];
+  // Classes for the trigger button, so it fits the hero or a modal header
+  className?: string;
+}
+
+const typeOptions: { value: DumpType; label: string }[] = [
+  { value: "text", label: "Text" },
+  { value: "image", label: "Images" },
+  { value: "video", label: "Videos" },
+];
+
+const moodOptions: { value: RandomWeighting; label: string }[] = [
+  { value: "uniform", label: "Anything" },
+  { value: "fresh", label: "Fresh" },
+  { value: "top", label: "Crowd favourites" },
+];
+
+const toggle = <T,>(list: T[], value: T): T[] =>
+  list.includes(value) ? list.filter((item) => item !== value) : [...list, value];
+
+const RandomFilterPopover = ({ filters, onChange, categories, className = "" }: RandomFilterPopoverProps) => {
+  const activeCount =
+    (filters.tags.length > 0 ? 1 : 0) +
+    (filters.types.length > 0 ? 1 : 0) +
+    (filters.minRating > 0 ? 1 : 0) +
+    (filters.last24h ? 1 : 0);
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" className={`flex items-center gap-2 ${className}`} aria-label="Random dump filters">
+          <SlidersHorizontal className="w-4 h-4" />
+          Filters
+          {activeCount > 0 && (
+            <Badge variant="secondary" className="ml-1 px-1.5">{activeCount}</Badge>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 space-y-5" align="center">
+        <div className="space-y-2">
+          <Label>Categories</Label>
+          <div className="flex flex-wrap gap-2">
+            {categories.map((category) => {
+              const selected = filters.tags.includes(category.slug);
+              return (
+                <Badge
+                  key={category.slug}
+                  variant={selected ? "default" : "outline"}
+                  className="cursor-pointer"
+                  onClick={() => onChange({ ...filters, tags: toggle(filters.tags, category.slug) })}
+                >
+                  {selected && <Check className="w-3 h-3 mr-1" />}
+                  {category.name}
+                </Badge>
+              );
+            })}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Type</Label>
+          <div className="flex flex-wrap gap-2">
+            {typeOptions.map((option) => (
+              <Button
+                key={option.value}
+                size="sm"
+                variant={filters.types.includes(option.value) ? "default" : "outline"}
+                aria-pressed={filters.types.includes(option.value)}
+                onClick={() => onChange({ ...filters, types: toggle(filters.types, option.value) })}
+              >
+                {option.label}
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Mood</Label>
+          <div className="flex flex-wrap gap-2">
+            {moodOptions.map((option) => (
+              <Button
+                key={option.value}
+                size="sm"
+                variant={filters.weighting === option.value ? "default" : "outline"}
+                aria-pressed={filters.weighting === option.value}
+                onClick={() => onChange({ ...filters, weighting: option.value })}
+              >
+                {option.label}
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <Label>Minimum rating</Label>
+            <span className="text-sm text-muted-foreground">
+              {filters.minRating > 0 ? `${filters.minRating}★ and up` : "Any"}
+            </span>
+          </div>
+          <Slider
+            min={0}
+            max={5}
+            step={0.5}
+            value={[filters.minRating]}
+            onValueChange={([minRating]) => onChange({ ...filters, minRating })}
+            aria-label="Minimum rating"
+          />
+        </div>
+
+        <div className="flex items-center justify-between">
+          <Label htmlFor="random-last-24h">Only the last 24 hours</Label>
+          <Switch
+            id="random-last-24h"
+            checked={filters.last24h}
+            onCheckedChange={(last24h) => onChange({ ...filters, last24h })}
+          />
+        </div>
+
+        <Button
+          variant="ghost"
+          size="sm"
+          className="w-full"
+          disabled={!hasRandomFilters(filters) && filters.weighting === DEFAULT_RANDOM_FILTERS.weighting}
+          onClick={() => onChange(DEFAULT_RANDOM_FILTERS)}
+        >
+          Reset filters
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default RandomFilterPopover;
@@ -0,0 +1,109 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Textarea } from "@/components/ui/textarea";
+import { reportReasons, type ReportReason } from "@/services/supabaseService";
+
+interface ReportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // What is being reported, e.g. "dump" or "comment"
+  targetLabel?: string;
+  // Resolve true to close the dialog, false to keep it open (e.g. validation failed)
+  onSubmit: (reason: ReportReason, details: string) => Promise<boolean>;
+}
+
+const ReportDialog = ({ open, onOpenChange, targetLabel = "dump", onSubmit }: ReportDialogProps) => {
+  const [reason, setReason] = useState<ReportReason | null>(null);
+  const [details, setDetails] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const reset = () => {
+    setReason(null);
+    setDetails('');
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) reset();
+    onOpenChange(nextOpen);
+  };
+
+  const handleSubmit = async () => {
+    if (!reason || isSubmitting) return;
+
+    setIsSubmitting(true);
+    const done = await onSubmit(reason, details.trim());
+    setIsSubmitting(false);
+
+    if (done) handleOpenChange(false);
+  };
+
+  const needsDetails = reason === 'other' && !details.trim();
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Report this {targetLabel}</DialogTitle>
+          <DialogDescription>
+            Reports are anonymous. Content reported by several people is hidden until a moderator reviews it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <RadioGroup
+          value={reason ?? undefined}
+          onValueChange={(value) => setReason(value as ReportReason)}
+          className="space-y-1"
+        >
+          {reportReasons.map((option) => (
+            <Label
+              key={option.value}
+              htmlFor={`report-${option.value}`}
+              className="flex items-start gap-3 rounded-lg border p-3 cursor-pointer hover:bg-muted/50"
+            >
+              <RadioGroupItem id={`report-${option.value}`} value={option.value} className="mt-0.5" />
+              <div>
+                <div className="font-medium">{option.label}</div>
+                <div className="text-sm text-muted-foreground font-normal">{option.description}</div>
+              </div>
+            </Label>
+          ))}
+        </RadioGroup>
+
+        {reason && (
+          <div className="space-y-2">
+            <Label htmlFor="report-details">
+              Details {reason === 'other' ? '' : '(optional)'}
+            </Label>
+            <Textarea
+              id="report-details"
+              placeholder="Anything that helps our moderators..."
+              value={details}
+              onChange={(e) => setDetails(e.target.value)}
+              className="min-h-[80px] resize-none"
+              maxLength={500}
+            />
+            <div className="text-xs text-muted-foreground text-right">{details.length}/500 characters</div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={handleSubmit}
+            disabled={!reason || needsDetails || isSubmitting}
+          >
+            {isSubmitting ? "Reporting..." : "Report"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReportDialog;
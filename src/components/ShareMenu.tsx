@@ -0,0 +1,122 @@
+import { useState } from "react";
+import { QRCodeSVG } from "qrcode.react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useToast } from "@/hooks/use-toast";
+import { dumpUrl, recordShare, type DumpWithTimestamp } from "@/services/supabaseService";
+import { Copy, Link2, QrCode, Share2 } from "lucide-react";
+
+interface ShareMenuProps {
+  dump: DumpWithTimestamp;
+}
+
+const shareTitle = (dump: DumpWithTimestamp) => dump.title || "A dump on DumpSpace";
+
+// Native share sheet where the browser has one, otherwise a menu to copy the
+// link or text or show a QR code. Every completed share bumps the counter.
+const ShareMenu = ({ dump }: ShareMenuProps) => {
+  const [shareCount, setShareCount] = useState(dump.share_count ?? 0);
+  const [qrOpen, setQrOpen] = useState(false);
+  const { toast } = useToast();
+  const url = dumpUrl(dump.id);
+  const canShareNatively = typeof navigator !== "undefined" && typeof navigator.share === "function";
+
+  // Counting is best effort: a failed count never gets in the way of sharing
+  const countShare = async () => {
+    setShareCount((count) => count + 1);
+    const result = await recordShare(dump.id);
+    if (result.success && result.shareCount !== undefined) setShareCount(result.shareCount);
+  };
+
+  const handleNativeShare = async () => {
+    try {
+      await navigator.share({
+        title: shareTitle(dump),
+        text: dump.type === "text" ? dump.content : undefined,
+        url,
+      });
+      countShare();
+    } catch (error) {
+      // Closing the share sheet rejects with AbortError; that's not a failure
+      if (error instanceof DOMException && error.name === "AbortError") return;
+      toast({ title: "Couldn't open the share sheet", variant: "destructive", duration: 3000 });
+    }
+  };
+
+  const copy = async (text: string, what: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast({ title: `${what} copied`, duration: 2000 });
+      countShare();
+    } catch {
+      toast({ title: `Couldn't copy the ${what.toLowerCase()}`, variant: "destructive", duration: 3000 });
+    }
+  };
+
+  const handleShowQr = () => {
+    setQrOpen(true);
+    countShare();
+  };
+
+  const trigger = (
+    <Button
+      variant="outline"
+      size="sm"
+      aria-label="Share dump"
+      className="flex items-center gap-2"
+      onClick={canShareNatively ? handleNativeShare : undefined}
+    >
+      <Share2 className="w-4 h-4" />
+      {shareCount}
+    </Button>
+  );
+
+  return (
+    <>
+      {canShareNatively ? (
+        trigger
+      ) : (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>{trigger}</DropdownMenuTrigger>
+          <DropdownMenuContent align="start">
+            <DropdownMenuItem onSelect={() => copy(url, "Link")}>
+              <Link2 className="w-4 h-4 mr-2" />
+              Copy link
+            </DropdownMenuItem>
+            {dump.type === "text" && (
+              <DropdownMenuItem onSelect={() => copy(`${dump.content}\n\n${url}`, "Text")}>
+                <Copy className="w-4 h-4 mr-2" />
+                Copy text
+              </DropdownMenuItem>
+            )}
+            <DropdownMenuItem onSelect={handleShowQr}>
+              <QrCode className="w-4 h-4 mr-2" />
+              Show QR code
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      )}
+
+      <Dialog open={qrOpen} onOpenChange={setQrOpen}>
+        <DialogContent className="max-w-xs">
+          <DialogHeader>
+            <DialogTitle>{shareTitle(dump)}</DialogTitle>
+            <DialogDescription>Scan to open this dump on another device.</DialogDescription>
+          </DialogHeader>
+          {/* Drawn in the browser; the link never leaves the page */}
+          <div className="flex justify-center bg-white p-4 rounded-lg">
+            <QRCodeSVG value={url} size={200} marginSize={1} />
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default ShareMenu;
@@ -1,4 +1,4 @@
-import { useState, useRef } from "react";
+import { useState, useRef, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
@@ -6,19 +6,33 @@ import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Upload, X, Plus, CheckCircle, Camera, Mic, Video, Square, Play, Pause } from "lucide-react";
-import { uploadDump, categories } from "@/services/supabaseService";
+import { useCategories, useUploadDump } from "@/hooks/use-dump-queries";
 import { useToast } from "@/hooks/use-toast";
+import { createVideoPreview, prepareUpload, ServiceError, UPLOAD_LIMITS } from "@/services/supabaseService";
 
 interface UploadFormProps {
   onSuccess?: () => void;
 }
 
+const formatFileSize = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
 const UploadForm = ({ onSuccess }: UploadFormProps) => {
   const [dumpType, setDumpType] = useState<'text' | 'image' | 'voice' | 'video'>('text');
   const [textContent, setTextContent] = useState('');
   const [title, setTitle] = useState('');
   const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const { data: categories = [] } = useCategories();
+  // Refreshes listings, counts and the leaderboard once the dump is in
+  const uploadMutation = useUploadDump();
   const [file, setFile] = useState<File | null>(null);
+  // Picked images are cleaned and compressed right away; these are the sizes
+  // before and after, shown next to the file
+  const [imageSizes, setImageSizes] = useState<{ before: number; after: number } | null>(null);
+  const [isPreparingImage, setIsPreparingImage] = useState(false);
+  // Poster frame (as an object URL) and length of a picked or recorded video
+  const [videoPreview, setVideoPreview] = useState<{ posterUrl: string; durationMs: number | null } | null>(null);
+  const [isPreparingVideo, setIsPreparingVideo] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [submitSuccess, setSubmitSuccess] = useState(false);
   const { toast } = useToast();
@@ -44,18 +58,105 @@ const UploadForm = ({ onSuccess }: UploadFormProps) => {
     );
   };
 
+  // Runs the upload pipeline on an image now rather than on submit, so the
+  // form can show how much smaller it got and refuse files over the limits
+  // straight away (uploading won't repeat the work)
+  const prepareImage = async (picked: File) => {
+    setIsPreparingImage(true);
+    setImageSizes(null);
+    try {
+      const prepared = await prepareUpload(picked, 'image');
+      setFile(prepared);
+      setImageSizes({ before: picked.size, after: prepared.size });
+    } catch (error) {
+      setFile(null);
+      setCapturedPhoto(null);
+      toast({
+        title: "Can't use this image",
+        description: error instanceof Error ? error.message : "Please pick another image.",
+        variant: "destructive",
+        duration: 5000,
+      });
+    } finally {
+      setIsPreparingImage(false);
+    }
+  };
+
+  // Same for videos, which also get their poster frame and length read here;
+  // a video whose frame can't be read is still posted, just without a poster
+  const prepareVideo = async (picked: File) => {
+    setIsPreparingVideo(true);
+    setVideoPreview(null);
+    try {
+      const prepared = await prepareUpload(picked, 'video');
+      setFile(prepared);
+      try {
+        const { poster, durationMs } = await createVideoPreview(prepared);
+        setVideoPreview({ posterUrl: URL.createObjectURL(poster), durationMs });
+      } catch (error) {
+        console.warn('Could not read a poster frame:', error);
+      }
+    } catch (error) {
+      setFile(null);
+      toast({
+        title: "Can't use this video",
+        description: error instanceof Error ? error.message : "Please pick another video.",
+        variant: "destructive",
+        duration: 5000,
+      });
+    } finally {
+      setIsPreparingVideo(false);
+    }
+  };
+
+  // Voice notes get the same checks; there's nothing else to show for them
+  const prepareAudio = async (picked: File) => {
+    try {
+      setFile(await prepareUpload(picked, 'voice'));
+    } catch (error) {
+      setFile(null);
+      toast({
+        title: "Can't use this audio",
+        description: error instanceof Error ? error.message : "Please pick another file.",
+        variant: "destructive",
+        duration: 5000,
+      });
+    }
+  };
+
+  // Let go of the previous poster whenever it's replaced or cleared
+  useEffect(() => {
+    return () => {
+      if (videoPreview) URL.revokeObjectURL(videoPreview.posterUrl);
+    };
+  }, [videoPreview]);
+
+  const clearFile = () => {
+    setFile(null);
+    setImageSizes(null);
+    setVideoPreview(null);
+  };
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
-      setFile(file);
       // Auto-detect type based on file
       if (file.type.startsWith('image/')) {
         setDumpType('image');
-      } else if (file.type.startsWith('audio/')) {
-        setDumpType('voice');
-      } else if (file.type.startsWith('video/')) {
+        prepareImage(file);
+        return;
+      }
+      if (file.type.startsWith('video/')) {
         setDumpType('video');
+        prepareVideo(file);
+        return;
+      }
+      if (file.type.startsWith('audio/')) {
+        setDumpType('voice');
+        prepareAudio(file);
+        return;
       }
+      setFile(file);
     }
   };
 
@@ -166,7 +267,7 @@ const UploadForm = ({ onSuccess }: UploadFormProps) => {
       canvas.toBlob((blob) => {
         if (blob) {
           const file = new File([blob], `photo-${Date.now()}.jpg`, { type: 'image/jpeg' });
-          setFile(file);
+          prepareImage(file);
           setCapturedPhoto(canvas.toDataURL('image/jpeg', 0.8));
           stopCamera();
           console.log('Photo captured successfully');
@@ -215,7 +316,7 @@ const UploadForm = ({ onSuccess }: UploadFormProps) => {
       mediaRecorder.onstop = () => {
         const blob = new Blob(chunks, { type: 'audio/webm' });
         const file = new File([blob], 'recorded-audio.webm', { type: 'audio/webm' });
-        setFile(file);
+        prepareAudio(file);
         setRecordedChunks([]);
       };
 
@@ -326,7 +427,7 @@ const UploadForm = ({ onSuccess }: UploadFormProps) => {
       mediaRecorder.onstop = () => {
         const blob = new Blob(chunks, { type: chunks[0]?.type || 'video/webm' });
         const file = new File([blob], `recorded-video-${Date.now()}.webm`, { type: blob.type });
-        setFile(file);
+        prepareVideo(file);
         setRecordedChunks([]); // you can also setRecordedChunks(chunks)
         // keep stopCamera behavior: stop showing camera and stop tracks
         stopCamera();
@@ -407,12 +508,16 @@ const UploadForm = ({ onSuccess }: UploadFormProps) => {
       return;
     }
 
+    // submit_dump refuses dumps without a tag
     if (selectedTags.length === 0) {
       toast({
-        title: "Tip",
-        description: "Consider adding at least one tag to help others find your dump!",
+        title: "Error",
+        description: "Please pick at least one tag so others can find your dump.",
+        variant: "destructive",
         duration: 3000,
       });
+      setIsSubmitting(false);
+      return;
     }
 
     try {
@@ -424,45 +529,37 @@ const UploadForm = ({ onSuccess }: UploadFormProps) => {
         title: dumpType !== 'text' && title.trim() ? title.trim() : undefined,
       };
 
-      const result = await uploadDump(dumpData);
+      await uploadMutation.mutateAsync(dumpData);
 
-      if (result.success) {
-        setSubmitSuccess(true);
-        toast({
-          title: dumpType === 'voice' ? "🎤 Voice memo submitted for event!" : "🎉 Dump submitted successfully!",
-          description: dumpType === 'voice'
-            ? "Your voice confession has been collected for our special event reveal!"
-            : "Your anonymous dump has been shared with the community.",
-          duration: 4000,
-        });
+      setSubmitSuccess(true);
+      toast({
+        title: dumpType === 'voice' ? "🎤 Voice memo submitted for event!" : "🎉 Dump submitted successfully!",
+        description: dumpType === 'voice'
+          ? "Your voice confession has been collected for our special event reveal!"
+          : "Your anonymous dump has been shared with the community.",
+        duration: 4000,
+      });
 
-        // Reset form
-        setTextContent('');
-        setTitle('');
-        setSelectedTags([]);
-        setFile(null);
-        setDumpType('text');
-        setCapturedPhoto(null);
-
-        // Call success callback if provided
-        if (onSuccess) {
-          setTimeout(() => {
-            onSuccess();
-          }, 1500);
-        }
-      } else {
-        toast({
-          title: "Failed to submit dump",
-          description: result.message || "Something went wrong. Please try again.",
-          variant: "destructive",
-          duration: 4000,
-        });
+      // Reset form
+      setTextContent('');
+      setTitle('');
+      setSelectedTags([]);
+      clearFile();
+      setDumpType('text');
+      setCapturedPhoto(null);
+
+      // Call success callback if provided
+      if (onSuccess) {
+        setTimeout(() => {
+          onSuccess();
+        }, 1500);
       }
     } catch (error) {
       console.error('Submission error:', error);
+      // Rejected input needs changing first; anything else is worth another try
       toast({
-        title: "Submission failed",
-        description: "An unexpected error occurred. Please try again.",
+        title: error instanceof ServiceError && error.kind === 'validation' ? "Can't post this dump" : "Failed to submit dump",
+        description: error instanceof ServiceError ? error.message : "An unexpected error occurred. Please try again.",
         variant: "destructive",
         duration: 4000,
       });
@@ -583,9 +680,14 @@ const UploadForm = ({ onSuccess }: UploadFormProps) => {
               {capturedPhoto && !showCamera && (
                 <div className="space-y-2">
                   <img src={capturedPhoto} alt="Captured" className="w-full max-h-64 object-cover rounded-lg" />
+                  {imageSizes && (
+                    <p className="text-xs text-muted-foreground">
+                      {formatFileSize(imageSizes.before)} → {formatFileSize(imageSizes.after)} after compression
+                    </p>
+                  )}
                   <Button type="button" variant="outline" size="sm" onClick={() => {
                     setCapturedPhoto(null);
-                    setFile(null);
+                    clearFile();
                   }}>
                     Retake Photo
                   </Button>
@@ -596,14 +698,26 @@ const UploadForm = ({ onSuccess }: UploadFormProps) => {
               {!showCamera && !capturedPhoto && (
                 <div className="space-y-3">
                   <div className="border-2 border-dashed border-border rounded-lg p-6 text-center">
-                    {file ? (
+                    {isPreparingImage ? (
+                      <div className="flex items-center justify-center gap-2 text-sm text-muted-foreground">
+                        <div className="w-4 h-4 border-2 border-primary border-t-transparent rounded-full animate-spin"></div>
+                        Removing metadata and compressing...
+                      </div>
+                    ) : file ? (
                       <div className="flex items-center justify-between bg-muted rounded-lg p-3">
-                        <span className="text-sm font-medium">{file.name}</span>
+                        <div className="text-left">
+                          <span className="text-sm font-medium">{file.name}</span>
+                          {imageSizes && (
+                            <p className="text-xs text-muted-foreground">
+                              {formatFileSize(imageSizes.before)} → {formatFileSize(imageSizes.after)} after compression
+                            </p>
+                          )}
+                        </div>
                         <Button
                           type="button"
                           variant="ghost"
                           size="sm"
-                          onClick={() => setFile(null)}
+                          onClick={clearFile}
                         >
                           <X className="w-4 h-4" />
                         </Button>
@@ -625,7 +739,7 @@ const UploadForm = ({ onSuccess }: UploadFormProps) => {
                           Click to upload or drag and drop
                         </Label>
                         <p className="text-xs text-muted-foreground mt-1">
-                          PNG, JPG, GIF up to 10MB
+                          PNG, JPG, GIF up to {formatFileSize(UPLOAD_LIMITS.image.maxBytes)}, resized and compressed before upload
                         </p>
                       </div>
                     )}
@@ -657,7 +771,7 @@ const UploadForm = ({ onSuccess }: UploadFormProps) => {
                     <span className="text-red-700 font-medium">Recording...</span>
                   </div>
                   <div className="text-2xl font-mono text-red-700 mb-3">
-                    {formatTime(recordingTime)}
+                    {formatTime(recordingTime)} / {formatTime(UPLOAD_LIMITS.voice.maxSeconds)}
                   </div>
                   <Button type="button" onClick={stopRecording} variant="destructive" className="flex items-center gap-2">
                     <Square className="w-4 h-4" />
@@ -677,7 +791,7 @@ const UploadForm = ({ onSuccess }: UploadFormProps) => {
                           type="button"
                           variant="ghost"
                           size="sm"
-                          onClick={() => setFile(null)}
+                          onClick={clearFile}
                         >
                           <X className="w-4 h-4" />
                         </Button>
@@ -699,7 +813,7 @@ const UploadForm = ({ onSuccess }: UploadFormProps) => {
                           Click to upload audio file
                         </Label>
                         <p className="text-xs text-muted-foreground mt-1">
-                          MP3, WAV up to 10MB
+                          MP3, WAV, M4A up to {formatFileSize(UPLOAD_LIMITS.voice.maxBytes)} and {formatTime(UPLOAD_LIMITS.voice.maxSeconds)} long
                         </p>
                       </div>
                     )}
@@ -736,7 +850,7 @@ const UploadForm = ({ onSuccess }: UploadFormProps) => {
                     {/* Recording overlay */}
                     <div className="absolute top-3 left-3 flex items-center gap-2 bg-red-500 text-white px-3 py-1 rounded-full text-sm">
                       <div className="w-2 h-2 bg-white rounded-full animate-pulse"></div>
-                      REC {formatTime(recordingTime)}
+                      REC {formatTime(recordingTime)} / {formatTime(UPLOAD_LIMITS.video.maxSeconds)}
                     </div>
                   </div>
                   <div className="flex justify-center gap-3">
@@ -758,14 +872,33 @@ const UploadForm = ({ onSuccess }: UploadFormProps) => {
               {!isRecording && (
                 <div className="space-y-3">
                   <div className="border-2 border-dashed border-border rounded-lg p-6 text-center">
-                    {file ? (
-                      <div className="flex items-center justify-between bg-muted rounded-lg p-3">
-                        <span className="text-sm font-medium">{file.name}</span>
+                    {isPreparingVideo ? (
+                      <div className="flex items-center justify-center gap-2 text-sm text-muted-foreground">
+                        <div className="w-4 h-4 border-2 border-primary border-t-transparent rounded-full animate-spin"></div>
+                        Removing metadata and reading the video...
+                      </div>
+                    ) : file ? (
+                      <div className="flex items-center justify-between gap-3 bg-muted rounded-lg p-3">
+                        {videoPreview && (
+                          <img
+                            src={videoPreview.posterUrl}
+                            alt="Video poster"
+                            className="w-20 h-14 rounded object-cover bg-black shrink-0"
+                          />
+                        )}
+                        <div className="text-left flex-1 min-w-0">
+                          <span className="text-sm font-medium break-all">{file.name}</span>
+                          {videoPreview?.durationMs != null && (
+                            <p className="text-xs text-muted-foreground">
+                              {formatTime(Math.round(videoPreview.durationMs / 1000))}
+                            </p>
+                          )}
+                        </div>
                         <Button
                           type="button"
                           variant="ghost"
                           size="sm"
-                          onClick={() => setFile(null)}
+                          onClick={clearFile}
                         >
                           <X className="w-4 h-4" />
                         </Button>
@@ -787,7 +920,7 @@ const UploadForm = ({ onSuccess }: UploadFormProps) => {
                           Click to upload video file
                         </Label>
                         <p className="text-xs text-muted-foreground mt-1">
-                          MP4, MOV up to 50MB
+                          MP4, MOV, WebM up to {formatFileSize(UPLOAD_LIMITS.video.maxBytes)} and {formatTime(UPLOAD_LIMITS.video.maxSeconds)} long
                         </p>
                       </div>
                     )}
@@ -807,19 +940,20 @@ const UploadForm = ({ onSuccess }: UploadFormProps) => {
           {/* Tags Selection */}
           <div className="space-y-3">
             <Label className="text-base font-medium">
-              Tags (optional) - Select up to 3
+              Tags - Select 1 to 3
             </Label>
             <div className="flex flex-wrap gap-2">
-              {categories.slice(0, 9).map((category) => (
+              {categories.map((category) => (
                 <Badge
-                  key={category.name}
-                  variant={selectedTags.includes(category.name.toLowerCase()) ? 'default' : 'outline'}
+                  key={category.slug}
+                  variant={selectedTags.includes(category.slug) ? 'default' : 'outline'}
                   className="cursor-pointer hover:bg-primary/20 transition-colors"
-                  onClick={() => selectedTags.length < 3 || selectedTags.includes(category.name.toLowerCase()) ?
-                    handleTagToggle(category.name.toLowerCase()) : null
+                  title={category.description ?? undefined}
+                  onClick={() => selectedTags.length < 3 || selectedTags.includes(category.slug) ?
+                    handleTagToggle(category.slug) : null
                   }
                 >
-                  {selectedTags.includes(category.name.toLowerCase()) ? (
+                  {selectedTags.includes(category.slug) ? (
                     <X className="w-3 h-3 mr-1" />
                   ) : (
                     <Plus className="w-3 h-3 mr-1" />
@@ -828,6 +962,11 @@ const UploadForm = ({ onSuccess }: UploadFormProps) => {
                 </Badge>
               ))}
             </div>
+            {selectedTags.length === 0 && (
+              <p className="text-sm text-muted-foreground">
+                Pick at least one tag to post
+              </p>
+            )}
             {selectedTags.length > 2 && (
               <p className="text-sm text-muted-foreground">
                 Maximum 3 tags selected
@@ -847,7 +986,7 @@ const UploadForm = ({ onSuccess }: UploadFormProps) => {
                   : ''
             }`}
             size="lg"
-            disabled={isSubmitting || isRecording}
+            disabled={isSubmitting || isRecording || isPreparingImage || isPreparingVideo || selectedTags.length === 0}
           >
             {isSubmitting ? (
               <div className="flex items-center gap-2">
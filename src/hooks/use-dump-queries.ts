@@ -0,0 +1,364 @@
+import { keepPreviousData, useInfiniteQuery, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  addComment,
+  buildCommentTree,
+  clearHistory,
+  flattenCommentTree,
+  getCategories,
+  getCommentsByDumpId,
+  getDumpById,
+  getDumpsByCategory,
+  getDumpStats,
+  getFeedDumps,
+  getModerationQueue,
+  getRecentDumps,
+  getSeenHistory,
+  getTopRatedDumps,
+  getUserVotes,
+  rateComment,
+  rateDump,
+  searchDumps,
+  uploadDump,
+  type Comment,
+  type CommentNode,
+  type DumpType,
+  type DumpWithTimestamp,
+  type ModerationView,
+  type SearchFilters,
+  type ServiceResult,
+  type VoteDirection,
+} from "@/services/supabaseService";
+
+// Every key starts with the kind of data it holds, so a whole family can be
+// invalidated at once (e.g. ["dumps"] after an upload)
+export const queryKeys = {
+  categories: ["categories"] as const,
+  dumps: ["dumps"] as const,
+  dump: (id: string) => ["dumps", "detail", id] as const,
+  categoryDumps: (slug: string) => ["dumps", "category", slug] as const,
+  feed: (types: DumpType[] | undefined) => ["dumps", "feed", types ?? []] as const,
+  search: (query: string, filters: SearchFilters) => ["dumps", "search", query, filters] as const,
+  leaderboard: ["dumps", "leaderboard"] as const,
+  history: ["dumps", "history"] as const,
+  dumpVotes: (id: string) => ["votes", "dump", id] as const,
+  comments: (dumpId: string) => ["comments", dumpId] as const,
+  moderation: ["moderation"] as const,
+  moderationQueue: (view: ModerationView) => ["moderation", view] as const,
+  // Without ids: every comment vote query of the dump, whatever comments it covered
+  commentVotes: (dumpId: string, commentIds?: string[]) =>
+    commentIds ? (["votes", "comment", dumpId, commentIds] as const) : (["votes", "comment", dumpId] as const),
+};
+
+// Vote totals and rating of a dump plus this device's vote on it
+export type DumpVoteState = {
+  upvotes: number;
+  downvotes: number;
+  rating: number;
+  vote: VoteDirection | null;
+};
+
+// Counts after moving a vote from previous to next, before the server answers
+const applyVote = <T extends { upvotes: number; downvotes: number }>(
+  counts: T,
+  previous: VoteDirection | null,
+  next: VoteDirection | null
+): T => ({
+  ...counts,
+  upvotes: counts.upvotes - (previous === "up" ? 1 : 0) + (next === "up" ? 1 : 0),
+  downvotes: counts.downvotes - (previous === "down" ? 1 : 0) + (next === "down" ? 1 : 0),
+});
+
+// Service calls report failure in the result; mutations need a throw to roll
+// back, and throw the ServiceError so callers can tell the kinds apart
+const unwrap = <T,>(result: ServiceResult<T>): T => {
+  if (result.success === false) throw result.error;
+  return result.data;
+};
+
+// Reads throw their ServiceError, so queries land in their error state with
+// the kind intact and only retry what might succeed (see App's retry option)
+const dataOf = <T,>(result: ServiceResult<T>): T => {
+  if (result.success === false) throw result.error;
+  return result.data;
+};
+
+export const useCategories = () =>
+  useQuery({
+    queryKey: queryKeys.categories,
+    queryFn: async () => dataOf(await getCategories()),
+  });
+
+export const useDump = (id: string | undefined) =>
+  useQuery({
+    queryKey: queryKeys.dump(id ?? ""),
+    queryFn: async () => dataOf(await getDumpById(id!)),
+    enabled: Boolean(id),
+  });
+
+// Pages of a category, newest first. Keyed by slug, so switching categories
+// never shows a slower earlier request's results.
+export const useCategoryDumps = (slug: string | null) =>
+  useInfiniteQuery({
+    queryKey: queryKeys.categoryDumps(slug ?? ""),
+    queryFn: async ({ pageParam }) => dataOf(await getDumpsByCategory(slug!, { cursor: pageParam })),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+    enabled: Boolean(slug),
+  });
+
+// Pages of the chronological feed, optionally of some types only. Keyed by
+// the types, like useCategoryDumps.
+export const useFeedDumps = (types: DumpType[] | undefined) =>
+  useInfiniteQuery({
+    queryKey: queryKeys.feed(types),
+    queryFn: async ({ pageParam }) => dataOf(await getFeedDumps({ types, cursor: pageParam })),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+  });
+
+const SEARCH_PAGE_SIZE = 20;
+
+// Pages of search results for a query and filters, best match first. Search
+// ranks rather than orders, so pages continue by offset.
+export const useSearchDumps = (query: string, filters: Omit<SearchFilters, "limit" | "offset">) =>
+  useInfiniteQuery({
+    queryKey: queryKeys.search(query, filters),
+    queryFn: async ({ pageParam }) =>
+      dataOf(await searchDumps(query, { ...filters, limit: SEARCH_PAGE_SIZE, offset: pageParam })),
+    initialPageParam: 0,
+    getNextPageParam: (lastPage, pages) =>
+      lastPage.results.length === SEARCH_PAGE_SIZE ? pages.reduce((count, page) => count + page.results.length, 0) : undefined,
+    enabled: Boolean(query.trim()),
+  });
+
+export const useLeaderboard = () =>
+  useQuery({
+    queryKey: queryKeys.leaderboard,
+    queryFn: async () => {
+      const [top, recent, stats, categories] = await Promise.all([
+        getTopRatedDumps().then(dataOf),
+        getRecentDumps({ limit: 3 }).then(dataOf),
+        getDumpStats().then(dataOf),
+        getCategories().then(dataOf),
+      ]);
+      return {
+        topRatedDumps: top.dumps,
+        recentDumps: recent.dumps,
+        totalDumps: stats.totalDumps,
+        categoryCount: categories.length,
+      };
+    },
+  });
+
+// Keyed by view, so switching tabs never shows a slower earlier request's
+// items. Only moderators can read it.
+export const useModerationQueue = (view: ModerationView, enabled: boolean) =>
+  useQuery({
+    queryKey: queryKeys.moderationQueue(view),
+    queryFn: async () => dataOf(await getModerationQueue(view)),
+    enabled,
+  });
+
+export const useSeenHistory = () =>
+  useQuery({
+    queryKey: queryKeys.history,
+    queryFn: async () => dataOf(await getSeenHistory()),
+  });
+
+export const useClearHistory = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async () => unwrap(await clearHistory()),
+    onSuccess: () => queryClient.setQueryData(queryKeys.history, []),
+  });
+};
+
+// Uploads change listings, counts and the leaderboard
+export const useUploadDump = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (dumpData: Parameters<typeof uploadDump>[0]) => unwrap(await uploadDump(dumpData)),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.dumps });
+      queryClient.invalidateQueries({ queryKey: queryKeys.categories });
+    },
+  });
+};
+
+// Totals start from the dump as it was listed and are refreshed from it on
+// refetch; realtime events and votes write into the cache directly. If this
+// device's vote can't be loaded the card still shows the totals, unhighlighted.
+export const useDumpVotes = (dump: DumpWithTimestamp) =>
+  useQuery({
+    queryKey: queryKeys.dumpVotes(dump.id),
+    queryFn: async (): Promise<DumpVoteState> => {
+      const votes = await getUserVotes("dump", [dump.id]);
+      return {
+        upvotes: dump.upvotes,
+        downvotes: dump.downvotes,
+        rating: dump.rating,
+        vote: votes.success ? votes.data[dump.id] ?? null : null,
+      };
+    },
+    placeholderData: { upvotes: dump.upvotes, downvotes: dump.downvotes, rating: dump.rating, vote: null },
+  });
+
+// Clicking the active vote again retracts it, the other direction switches it
+export const useVoteDump = (dumpId: string) => {
+  const queryClient = useQueryClient();
+  const key = queryKeys.dumpVotes(dumpId);
+
+  return useMutation({
+    mutationFn: async ({ next, previous }: { next: VoteDirection | null; previous: VoteDirection | null }) =>
+      unwrap(await rateDump(dumpId, next, previous)),
+    onMutate: async ({ next, previous }) => {
+      await queryClient.cancelQueries({ queryKey: key });
+      const snapshot = queryClient.getQueryData<DumpVoteState>(key);
+      if (snapshot) queryClient.setQueryData<DumpVoteState>(key, { ...applyVote(snapshot, previous, next), vote: next });
+      return { snapshot };
+    },
+    onError: (_error, _vote, context) => {
+      if (context?.snapshot) queryClient.setQueryData(key, context.snapshot);
+    },
+    onSuccess: ({ result }) => {
+      // The rating is worked out server-side, so it only moves once the vote lands
+      queryClient.setQueryData<DumpVoteState>(key, (current) => ({
+        upvotes: result.upvotes,
+        downvotes: result.downvotes,
+        rating: result.rating ?? current?.rating ?? 0,
+        vote: result.vote,
+      }));
+    },
+    // Top rated order may have changed
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.leaderboard }),
+  });
+};
+
+export const useComments = (dumpId: string) =>
+  useQuery({
+    queryKey: queryKeys.comments(dumpId),
+    queryFn: async () => dataOf(await getCommentsByDumpId(dumpId)),
+  });
+
+// Ids of comments still being posted; they can't be voted on or answered yet
+export const PENDING_COMMENT_PREFIX = "pending-";
+
+// This device's votes on the comments of one dump. Keyed by the comment ids,
+// so comments added later get their votes loaded; the previous votes stay
+// shown meanwhile.
+export const useCommentVotes = (dumpId: string, comments: CommentNode[] | undefined) => {
+  const commentIds = flattenCommentTree(comments ?? [])
+    .map((comment) => comment.id)
+    .filter((id) => !id.startsWith(PENDING_COMMENT_PREFIX))
+    .sort();
+
+  return useQuery({
+    queryKey: queryKeys.commentVotes(dumpId, commentIds),
+    queryFn: async () => dataOf(await getUserVotes("comment", commentIds)),
+    enabled: comments !== undefined,
+    placeholderData: keepPreviousData,
+  });
+};
+
+// Edit the flat list and rebuild the tree so depths and reply counts stay right
+export const updateCommentTree = (
+  tree: CommentNode[] | undefined,
+  update: (flat: Comment[]) => Comment[]
+): CommentNode[] => buildCommentTree(update(flattenCommentTree(tree ?? [])));
+
+export const useVoteComment = (dumpId: string) => {
+  const queryClient = useQueryClient();
+  const commentsKey = queryKeys.comments(dumpId);
+  const votesKey = queryKeys.commentVotes(dumpId);
+
+  return useMutation({
+    mutationFn: async ({ commentId, next, previous }: {
+      commentId: string;
+      next: VoteDirection | null;
+      previous: VoteDirection | null;
+    }) => unwrap(await rateComment(commentId, next, previous)),
+    onMutate: async ({ commentId, next, previous }) => {
+      await Promise.all([
+        queryClient.cancelQueries({ queryKey: commentsKey }),
+        queryClient.cancelQueries({ queryKey: votesKey }),
+      ]);
+      const comments = queryClient.getQueryData<CommentNode[]>(commentsKey);
+      const votes = queryClient.getQueriesData<Record<string, VoteDirection>>({ queryKey: votesKey });
+
+      queryClient.setQueryData<CommentNode[]>(commentsKey, (tree) =>
+        updateCommentTree(tree, (flat) =>
+          flat.map((comment) => (comment.id === commentId ? applyVote(comment, previous, next) : comment))
+        )
+      );
+      queryClient.setQueriesData<Record<string, VoteDirection>>({ queryKey: votesKey }, (current = {}) => {
+        const { [commentId]: _previous, ...rest } = current;
+        return next ? { ...rest, [commentId]: next } : rest;
+      });
+      return { comments, votes };
+    },
+    onError: (_error, _vote, context) => {
+      if (context?.comments) queryClient.setQueryData(commentsKey, context.comments);
+      context?.votes.forEach(([queryKey, votes]) => queryClient.setQueryData(queryKey, votes));
+    },
+    onSuccess: ({ result }, { commentId }) => {
+      queryClient.setQueryData<CommentNode[]>(commentsKey, (tree) =>
+        updateCommentTree(tree, (flat) =>
+          flat.map((comment) =>
+            comment.id === commentId ? { ...comment, upvotes: result.upvotes, downvotes: result.downvotes } : comment
+          )
+        )
+      );
+    },
+  });
+};
+
+// The comment shows up at once under a temporary id and is swapped for the
+// stored one, or taken out again if posting fails
+export const useAddComment = (dumpId: string) => {
+  const queryClient = useQueryClient();
+  const key = queryKeys.comments(dumpId);
+
+  return useMutation({
+    mutationFn: async ({ content, parentId }: { content: string; parentId: string | null }) =>
+      unwrap(await addComment({ dump_id: dumpId, parent_id: parentId, content })),
+    onMutate: async ({ content, parentId }) => {
+      await queryClient.cancelQueries({ queryKey: key });
+      const previous = queryClient.getQueryData<CommentNode[]>(key);
+      const tempId = `${PENDING_COMMENT_PREFIX}${crypto.randomUUID()}`;
+
+      queryClient.setQueryData<CommentNode[]>(key, (tree) =>
+        updateCommentTree(tree, (flat) => [
+          ...flat,
+          {
+            id: tempId,
+            dump_id: dumpId,
+            parent_id: parentId,
+            content,
+            created_at: new Date().toISOString(),
+            upvotes: 0,
+            downvotes: 0,
+            removed_at: null,
+          },
+        ])
+      );
+      return { previous, tempId };
+    },
+    onError: (_error, _comment, context) => {
+      if (!context) return;
+      // Without a cached list to go back to, just take the temporary comment out
+      queryClient.setQueryData<CommentNode[]>(key, (tree) =>
+        context.previous ?? updateCommentTree(tree, (flat) => flat.filter((comment) => comment.id !== context.tempId))
+      );
+    },
+    onSuccess: ({ comment }, _variables, context) => {
+      if (!context) return;
+      // Realtime may have delivered the stored comment already
+      queryClient.setQueryData<CommentNode[]>(key, (tree) =>
+        updateCommentTree(tree, (flat) => [
+          ...flat.filter((existing) => existing.id !== context.tempId && existing.id !== comment.id),
+          comment,
+        ])
+      );
+    },
+  });
+};
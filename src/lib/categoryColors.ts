@@ -0,0 +1,15 @@
+import type { CategoryColor } from '@/services/supabaseService';
+
+// Badge classes per categories.color token. Written out in full so Tailwind
+// picks them up when scanning the source.
+export const categoryColorClasses: Record<CategoryColor, string> = {
+  yellow: 'bg-yellow-100 text-yellow-800',
+  purple: 'bg-purple-100 text-purple-800',
+  green: 'bg-green-100 text-green-800',
+  blue: 'bg-blue-100 text-blue-800',
+  pink: 'bg-pink-100 text-pink-800',
+  orange: 'bg-orange-100 text-orange-800',
+  gray: 'bg-gray-100 text-gray-800',
+  red: 'bg-red-100 text-red-800',
+  indigo: 'bg-indigo-100 text-indigo-800'
+};
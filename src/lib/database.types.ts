@@ -0,0 +1,461 @@
+// Shape of the database as `supabase gen types typescript` emits it, for every
+// table and RPC in supabase/migrations. Regenerate after a migration with:
+//   npx supabase gen types typescript --local > src/lib/database.types.ts
+// then narrow the CHECK-constrained text columns (type, status, target_type,
+// vote, reason, color, ...) back to their allowed values, which the generator
+// can't see. Generated columns (search_vector) are read-only.
+
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[];
+
+type DumpType = 'text' | 'image' | 'voice' | 'video';
+type DumpStatus = 'pending' | 'visible' | 'hidden' | 'removed';
+type TargetType = 'dump' | 'comment';
+type VoteDirection = 'up' | 'down';
+type ReportReason = 'spam' | 'harassment' | 'personal_info' | 'self_harm' | 'other';
+type CategoryColor = 'yellow' | 'purple' | 'green' | 'blue' | 'pink' | 'orange' | 'gray' | 'red' | 'indigo';
+
+export type Database = {
+  public: {
+    Tables: {
+      categories: {
+        Row: {
+          slug: string;
+          name: string;
+          color: CategoryColor;
+          description: string | null;
+          sort_order: number;
+          is_active: boolean;
+          created_at: string;
+        };
+        Insert: {
+          slug: string;
+          name: string;
+          color?: CategoryColor;
+          description?: string | null;
+          sort_order?: number;
+          is_active?: boolean;
+          created_at?: string;
+        };
+        Update: {
+          slug?: string;
+          name?: string;
+          color?: CategoryColor;
+          description?: string | null;
+          sort_order?: number;
+          is_active?: boolean;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      comments: {
+        Row: {
+          id: string;
+          dump_id: string;
+          parent_id: string | null;
+          content: string;
+          upvotes: number;
+          downvotes: number;
+          created_at: string;
+          removed_at: string | null;
+          search_vector: unknown;
+        };
+        Insert: {
+          id?: string;
+          dump_id: string;
+          parent_id?: string | null;
+          content: string;
+          upvotes?: number;
+          downvotes?: number;
+          created_at?: string;
+          removed_at?: string | null;
+          search_vector?: never;
+        };
+        Update: {
+          id?: string;
+          dump_id?: string;
+          parent_id?: string | null;
+          content?: string;
+          upvotes?: number;
+          downvotes?: number;
+          created_at?: string;
+          removed_at?: string | null;
+          search_vector?: never;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'comments_dump_id_fkey';
+            columns: ['dump_id'];
+            isOneToOne: false;
+            referencedRelation: 'dumps';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'comments_parent_id_fkey';
+            columns: ['parent_id'];
+            isOneToOne: false;
+            referencedRelation: 'comments';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      dumps: {
+        Row: {
+          id: string;
+          type: DumpType;
+          title: string | null;
+          content: string;
+          tags: string[];
+          upvotes: number;
+          downvotes: number;
+          rating: number;
+          share_count: number;
+          thumbnail_url: string | null;
+          placeholder: string | null;
+          media_width: number | null;
+          media_height: number | null;
+          poster_url: string | null;
+          duration_ms: number | null;
+          status: DumpStatus;
+          status_changed_at: string;
+          removed_at: string | null;
+          created_at: string;
+          search_vector: unknown;
+        };
+        Insert: {
+          id?: string;
+          type: DumpType;
+          title?: string | null;
+          content: string;
+          tags?: string[];
+          upvotes?: number;
+          downvotes?: number;
+          rating?: number;
+          share_count?: number;
+          thumbnail_url?: string | null;
+          placeholder?: string | null;
+          media_width?: number | null;
+          media_height?: number | null;
+          poster_url?: string | null;
+          duration_ms?: number | null;
+          status?: DumpStatus;
+          status_changed_at?: string;
+          removed_at?: string | null;
+          created_at?: string;
+          search_vector?: never;
+        };
+        Update: {
+          id?: string;
+          type?: DumpType;
+          title?: string | null;
+          content?: string;
+          tags?: string[];
+          upvotes?: number;
+          downvotes?: number;
+          rating?: number;
+          share_count?: number;
+          thumbnail_url?: string | null;
+          placeholder?: string | null;
+          media_width?: number | null;
+          media_height?: number | null;
+          poster_url?: string | null;
+          duration_ms?: number | null;
+          status?: DumpStatus;
+          status_changed_at?: string;
+          removed_at?: string | null;
+          created_at?: string;
+          search_vector?: never;
+        };
+        Relationships: [];
+      };
+      moderation_settings: {
+        Row: {
+          id: boolean;
+          report_hide_threshold: number;
+          premoderation: boolean;
+        };
+        Insert: {
+          id?: boolean;
+          report_hide_threshold?: number;
+          premoderation?: boolean;
+        };
+        Update: {
+          id?: boolean;
+          report_hide_threshold?: number;
+          premoderation?: boolean;
+        };
+        Relationships: [];
+      };
+      moderators: {
+        Row: {
+          user_id: string;
+          created_at: string;
+        };
+        Insert: {
+          user_id: string;
+          created_at?: string;
+        };
+        Update: {
+          user_id?: string;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      reports: {
+        Row: {
+          id: string;
+          target_type: TargetType;
+          target_id: string;
+          device_id: string;
+          reason: ReportReason;
+          details: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          target_type: TargetType;
+          target_id: string;
+          device_id: string;
+          reason: ReportReason;
+          details?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          target_type?: TargetType;
+          target_id?: string;
+          device_id?: string;
+          reason?: ReportReason;
+          details?: string | null;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      storage_settings: {
+        Row: {
+          id: boolean;
+          public_origin: string | null;
+        };
+        Insert: {
+          id?: boolean;
+          public_origin?: string | null;
+        };
+        Update: {
+          id?: boolean;
+          public_origin?: string | null;
+        };
+        Relationships: [];
+      };
+      upload_limits: {
+        Row: {
+          dump_type: Exclude<DumpType, 'text'>;
+          bucket: string;
+          max_bytes: number;
+          max_seconds: number | null;
+          mime_types: string[];
+        };
+        Insert: {
+          dump_type: Exclude<DumpType, 'text'>;
+          bucket: string;
+          max_bytes: number;
+          max_seconds?: number | null;
+          mime_types: string[];
+        };
+        Update: {
+          dump_type?: Exclude<DumpType, 'text'>;
+          bucket?: string;
+          max_bytes?: number;
+          max_seconds?: number | null;
+          mime_types?: string[];
+        };
+        Relationships: [];
+      };
+      votes: {
+        Row: {
+          target_type: TargetType;
+          target_id: string;
+          device_id: string;
+          vote: VoteDirection;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          target_type: TargetType;
+          target_id: string;
+          device_id: string;
+          vote: VoteDirection;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          target_type?: TargetType;
+          target_id?: string;
+          device_id?: string;
+          vote?: VoteDirection;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+    };
+    Views: {
+      [_ in never]: never;
+    };
+    Functions: {
+      cast_vote: {
+        Args: {
+          p_target_type: TargetType;
+          p_target_id: string;
+          p_device_id: string;
+          p_vote: VoteDirection | null;
+        };
+        Returns: {
+          upvotes: number;
+          downvotes: number;
+          rating: number | null;
+          vote: VoteDirection | null;
+        }[];
+      };
+      category_counts: {
+        Args: Record<PropertyKey, never>;
+        Returns: {
+          slug: string;
+          name: string;
+          color: CategoryColor;
+          description: string | null;
+          sort_order: number;
+          dump_count: number;
+        }[];
+      };
+      get_device_votes: {
+        Args: {
+          p_target_type: TargetType;
+          p_target_ids: string[];
+          p_device_id: string;
+        };
+        Returns: {
+          target_id: string;
+          vote: VoteDirection;
+        }[];
+      };
+      is_moderator: {
+        Args: Record<PropertyKey, never>;
+        Returns: boolean;
+      };
+      moderate_target: {
+        Args: {
+          p_target_type: TargetType;
+          p_target_id: string;
+          p_action: string;
+        };
+        Returns: undefined;
+      };
+      moderation_queue: {
+        Args: {
+          p_view?: string;
+        };
+        Returns: {
+          target_type: TargetType;
+          target_id: string;
+          dump_id: string;
+          dump_type: DumpType;
+          title: string | null;
+          content: string;
+          status: DumpStatus;
+          report_count: number;
+          reasons: Json;
+          details: string[];
+          last_reported_at: string;
+        }[];
+      };
+      random_dump: {
+        Args: {
+          p_exclude?: string[];
+          p_weighting?: string;
+          p_tags?: string[] | null;
+          p_types?: string[] | null;
+          p_min_rating?: number | null;
+          p_created_after?: string | null;
+        };
+        Returns: Database['public']['Tables']['dumps']['Row'][];
+      };
+      record_share: {
+        Args: {
+          p_dump_id: string;
+        };
+        Returns: number;
+      };
+      report_target: {
+        Args: {
+          p_target_type: TargetType;
+          p_target_id: string;
+          p_device_id: string;
+          p_reason: ReportReason;
+          p_details?: string | null;
+        };
+        Returns: {
+          already_reported: boolean;
+          hidden: boolean;
+        }[];
+      };
+      search_dumps: {
+        Args: {
+          p_query: string;
+          p_tag?: string | null;
+          p_types?: string[] | null;
+          p_created_after?: string | null;
+          p_created_before?: string | null;
+          p_limit?: number;
+          p_offset?: number;
+        };
+        Returns: {
+          dump: Database['public']['Tables']['dumps']['Row'];
+          rank: number;
+          snippet: string | null;
+          matched_in: 'dump' | 'comment';
+        }[];
+      };
+      submit_dump: {
+        Args: {
+          p_type: DumpType;
+          p_content: string;
+          p_tags: string[];
+          p_title?: string | null;
+          p_thumbnail_url?: string | null;
+          p_placeholder?: string | null;
+          p_media_width?: number | null;
+          p_media_height?: number | null;
+          p_poster_url?: string | null;
+          p_duration_ms?: number | null;
+        };
+        Returns: Database['public']['Tables']['dumps']['Row'][];
+      };
+      validate_dump_media: {
+        Args: {
+          p_type: Exclude<DumpType, 'text'>;
+          p_url: string;
+          p_duration_ms?: number | null;
+        };
+        Returns: undefined;
+      };
+    };
+    Enums: {
+      [_ in never]: never;
+    };
+    CompositeTypes: {
+      [_ in never]: never;
+    };
+  };
+};
+
+type PublicSchema = Database['public'];
+
+export type Tables<T extends keyof PublicSchema['Tables']> = PublicSchema['Tables'][T]['Row'];
+export type TablesInsert<T extends keyof PublicSchema['Tables']> = PublicSchema['Tables'][T]['Insert'];
+export type TablesUpdate<T extends keyof PublicSchema['Tables']> = PublicSchema['Tables'][T]['Update'];
+export type Functions<T extends keyof PublicSchema['Functions']> = PublicSchema['Functions'][T];
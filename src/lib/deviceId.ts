@@ -0,0 +1,23 @@
+const DEVICE_ID_KEY = 'dumpspace_device_id';
+
+let cachedDeviceId: string | null = null;
+
+// Anonymous, per-browser id used to key votes and reports. Not an account:
+// clearing site data gives the visitor a fresh one.
+export const getDeviceId = (): string => {
+  if (cachedDeviceId) return cachedDeviceId;
+
+  try {
+    cachedDeviceId = localStorage.getItem(DEVICE_ID_KEY);
+    if (!cachedDeviceId) {
+      cachedDeviceId = crypto.randomUUID();
+      localStorage.setItem(DEVICE_ID_KEY, cachedDeviceId);
+    }
+  } catch (error) {
+    // Storage blocked (private mode, sandboxed iframe) - keep an id for this page load only
+    console.error('Failed to persist device id:', error);
+    cachedDeviceId ??= crypto.randomUUID();
+  }
+
+  return cachedDeviceId;
+};
@@ -0,0 +1,30 @@
+import { DEFAULT_RANDOM_FILTERS, type RandomDumpFilters } from '@/services/supabaseService';
+
+const RANDOM_FILTERS_KEY = 'dumpspace_random_filters';
+
+// Random dump filters are remembered per browser. Anything unreadable or from
+// an older shape falls back to the defaults field by field.
+export const loadRandomFilters = (): RandomDumpFilters => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(RANDOM_FILTERS_KEY) ?? '{}');
+    return {
+      tags: Array.isArray(stored.tags) ? stored.tags : DEFAULT_RANDOM_FILTERS.tags,
+      types: Array.isArray(stored.types) ? stored.types : DEFAULT_RANDOM_FILTERS.types,
+      minRating: typeof stored.minRating === 'number' ? stored.minRating : DEFAULT_RANDOM_FILTERS.minRating,
+      last24h: typeof stored.last24h === 'boolean' ? stored.last24h : DEFAULT_RANDOM_FILTERS.last24h,
+      weighting: ['uniform', 'fresh', 'top'].includes(stored.weighting) ? stored.weighting : DEFAULT_RANDOM_FILTERS.weighting
+    };
+  } catch (error) {
+    console.error('Failed to read random filters:', error);
+    return DEFAULT_RANDOM_FILTERS;
+  }
+};
+
+export const saveRandomFilters = (filters: RandomDumpFilters): void => {
+  try {
+    localStorage.setItem(RANDOM_FILTERS_KEY, JSON.stringify(filters));
+  } catch (error) {
+    // Storage blocked (private mode, sandboxed iframe) - filters last for this page load only
+    console.error('Failed to save random filters:', error);
+  }
+};
@@ -1,49 +1,19 @@
 import { createClient } from '@supabase/supabase-js';
+import type { Database } from './database.types';
+
+export type { Database, Tables, TablesInsert, TablesUpdate } from './database.types';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
 
-if (!supabaseUrl || !supabaseAnonKey) {
-  throw new Error('Missing Supabase environment variables. Please add VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY to your .env file.');
-}
+export const isSupabaseConfigured = Boolean(supabaseUrl && supabaseAnonKey);
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey);
+// Only create the client when configured so the app can still boot on the local backend
+export const supabase = isSupabaseConfigured ? createClient<Database>(supabaseUrl, supabaseAnonKey) : null;
 
-export type Database = {
-  public: {
-    Tables: {
-      dumps: {
-        Row: {
-          id: string;
-          type: 'text' | 'image' | 'voice' | 'video';
-          content: string;
-          tags: string[];
-          upvotes: number;
-          downvotes: number;
-          rating: number;
-          created_at: string;
-        };
-        Insert: {
-          id?: string;
-          type: 'text' | 'image' | 'voice' | 'video';
-          content: string;
-          tags?: string[];
-          upvotes?: number;
-          downvotes?: number;
-          rating?: number;
-          created_at?: string;
-        };
-        Update: {
-          id?: string;
-          type?: 'text' | 'image' | 'voice' | 'video';
-          content?: string;
-          tags?: string[];
-          upvotes?: number;
-          downvotes?: number;
-          rating?: number;
-          created_at?: string;
-        };
-      };
-    };
-  };
-};
\ No newline at end of file
+export const getSupabase = () => {
+  if (!supabase) {
+    throw new Error('Missing Supabase environment variables. Please add VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY to your .env file.');
+  }
+  return supabase;
+};
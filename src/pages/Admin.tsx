@@ -0,0 +1,422 @@
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { useQueryClient } from "@tanstack/react-query";
+import ErrorState from "@/components/ErrorState";
+import {
+  getModeratorSession,
+  moderateTarget,
+  purgeDump,
+  reportReasons,
+  signInModerator,
+  signOutModerator,
+  type AuthSession,
+  type DumpStatus,
+  type ModerationAction,
+  type ModerationItem,
+  type ModerationView,
+  type ServiceError,
+} from "@/services/supabaseService";
+import { queryKeys, useModerationQueue } from "@/hooks/use-dump-queries";
+import { useToast } from "@/hooks/use-toast";
+import { Eye, EyeOff, Trash2, CheckCircle, LogOut, RefreshCw, ShieldCheck, Flag, Archive, XCircle } from "lucide-react";
+
+const views: { value: ModerationView; label: string; empty: string }[] = [
+  { value: 'reported', label: 'Reported', empty: 'Nothing to review. Nice.' },
+  { value: 'pending', label: 'Pending', empty: 'No dumps waiting for approval.' },
+  { value: 'removed', label: 'Removed', empty: 'No removed dumps.' },
+];
+
+const statusBadges: Record<DumpStatus, { label: string; variant: "default" | "secondary" | "destructive" | "outline" }> = {
+  pending: { label: 'Pending', variant: 'secondary' },
+  visible: { label: 'Visible', variant: 'outline' },
+  hidden: { label: 'Hidden', variant: 'destructive' },
+  removed: { label: 'Removed', variant: 'destructive' },
+};
+
+// Status a dump ends up in after an action, mirroring moderate_target()
+const nextStatus: Partial<Record<ModerationAction, DumpStatus>> = {
+  approve: 'visible',
+  hide: 'hidden',
+  restore: 'visible',
+  remove: 'removed',
+};
+
+const reasonLabel = (reason: string) =>
+  reportReasons.find((option) => option.value === reason)?.label ?? reason;
+
+const ReportedContent = ({ item }: { item: ModerationItem }) => {
+  if (item.target_type === 'comment' || item.dump_type === 'text') {
+    return <p className="text-foreground leading-relaxed break-words whitespace-pre-wrap">{item.content}</p>;
+  }
+  if (item.dump_type === 'image') {
+    return <img src={item.content} alt="Reported upload" className="max-h-64 rounded-lg object-contain bg-muted" />;
+  }
+  if (item.dump_type === 'video') {
+    return <video src={item.content} controls preload="metadata" className="max-h-64 rounded-lg" />;
+  }
+  return <audio src={item.content} controls preload="metadata" className="w-full" />;
+};
+
+const Admin = () => {
+  const [session, setSession] = useState<AuthSession | null>(null);
+  const [checkingSession, setCheckingSession] = useState(true);
+  const [sessionError, setSessionError] = useState<ServiceError | null>(null);
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSigningIn, setIsSigningIn] = useState(false);
+  const [view, setView] = useState<ModerationView>('reported');
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const {
+    data: items = [],
+    isLoading,
+    isFetching: loading,
+    error: queueError,
+    refetch,
+  } = useModerationQueue(view, Boolean(session?.isModerator));
+
+  // Edit the shown tab's queue right away, without waiting for the refetch
+  const updateQueue = (update: (queue: ModerationItem[]) => ModerationItem[]) =>
+    queryClient.setQueryData<ModerationItem[]>(queryKeys.moderationQueue(view), (queue) => queue && update(queue));
+
+  const checkSession = useCallback(async () => {
+    setCheckingSession(true);
+    const result = await getModeratorSession();
+    if (result.success === false) {
+      setSessionError(result.error);
+    } else {
+      setSession(result.data);
+      setSessionError(null);
+    }
+    setCheckingSession(false);
+  }, []);
+
+  useEffect(() => {
+    checkSession();
+  }, [checkSession]);
+
+  const handleSignIn = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isSigningIn) return;
+
+    setIsSigningIn(true);
+    const result = await signInModerator(email, password);
+    setIsSigningIn(false);
+
+    if (result.session) setSession(result.session);
+    if (result.success) {
+      setPassword('');
+    } else {
+      toast({
+        title: "Sign in failed",
+        description: result.message,
+        variant: "destructive",
+        duration: 3000,
+      });
+    }
+  };
+
+  const handleSignOut = async () => {
+    await signOutModerator();
+    setSession(null);
+    // The next moderator to sign in on this device loads their own
+    queryClient.removeQueries({ queryKey: queryKeys.moderation });
+  };
+
+  const handleAction = async (item: ModerationItem, action: ModerationAction | 'purge') => {
+    const key = `${item.target_type}:${item.target_id}`;
+    setBusyKey(key);
+    const result = action === 'purge'
+      ? await purgeDump(item.target_id)
+      : await moderateTarget(item.target_type, item.target_id, action);
+    setBusyKey(null);
+
+    if (result.success === false) {
+      toast({
+        title: "Error",
+        description: result.message,
+        variant: "destructive",
+        duration: 3000,
+      });
+      // Another moderator already purged it; nothing is left to act on
+      if (result.error.kind === 'not_found') updateQueue((queue) => queue.filter((queued) => queued !== item));
+      return;
+    }
+
+    toast({
+      title: result.data.message,
+      duration: 3000,
+    });
+
+    // Hiding keeps a reported item queued for a final decision; everything else resolves it
+    updateQueue((queue) =>
+      action === 'hide'
+        ? queue.map((queued) => (queued === item ? { ...queued, status: nextStatus[action] ?? queued.status } : queued))
+        : queue.filter((queued) => queued !== item)
+    );
+    // The item may have moved to another tab, and listings and counts changed
+    queryClient.invalidateQueries({ queryKey: queryKeys.moderation });
+    queryClient.invalidateQueries({ queryKey: queryKeys.dumps });
+    queryClient.invalidateQueries({ queryKey: queryKeys.categories });
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-hero">
+      <div className="container mx-auto px-6 pt-24 pb-12">
+        {/* Header */}
+        <div className="text-center mb-12">
+          <h1 className="text-5xl md:text-6xl font-black text-white mb-4">
+            MODERATION
+          </h1>
+          <p className="text-xl text-white/80 max-w-2xl mx-auto">
+            Review reported, pending and removed dumps. Approve, hide, restore or remove.
+          </p>
+        </div>
+
+        {checkingSession && (
+          <div className="text-center py-12">
+            <div className="bg-white/10 backdrop-blur-sm rounded-3xl p-8 max-w-md mx-auto">
+              <p className="text-white/80 text-lg">Checking session...</p>
+            </div>
+          </div>
+        )}
+
+        {!checkingSession && sessionError && (
+          <ErrorState error={sessionError} onRetry={checkSession} />
+        )}
+
+        {/* Sign in */}
+        {!checkingSession && !sessionError && !session?.isModerator && (
+          <Card className="max-w-md mx-auto">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <ShieldCheck className="w-5 h-5" />
+                Moderator sign in
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {session && !session.isModerator && (
+                <p className="text-sm text-destructive mb-4">
+                  {session.email ?? 'This account'} is signed in but does not have the moderator role.
+                </p>
+              )}
+              <form onSubmit={handleSignIn} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="email">Email</Label>
+                  <Input
+                    id="email"
+                    type="email"
+                    autoComplete="username"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="password">Password</Label>
+                  <Input
+                    id="password"
+                    type="password"
+                    autoComplete="current-password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                  />
+                </div>
+                <div className="flex gap-2">
+                  <Button type="submit" className="flex-1" disabled={isSigningIn || !email || !password}>
+                    {isSigningIn ? "Signing in..." : "Sign in"}
+                  </Button>
+                  {session && (
+                    <Button type="button" variant="outline" onClick={handleSignOut}>
+                      Sign out
+                    </Button>
+                  )}
+                </div>
+              </form>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Queue */}
+        {session?.isModerator && (
+          <div className="max-w-3xl mx-auto space-y-6">
+            <div className="flex items-center justify-between text-white">
+              <span className="text-white/80">Signed in as {session.email}</span>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => refetch()}
+                  disabled={loading}
+                  className="bg-white/10 border-white/30 text-white hover:bg-white/20"
+                >
+                  <RefreshCw className={`w-4 h-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+                  Refresh
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleSignOut}
+                  className="bg-white/10 border-white/30 text-white hover:bg-white/20"
+                >
+                  <LogOut className="w-4 h-4 mr-2" />
+                  Sign out
+                </Button>
+              </div>
+            </div>
+
+            <Tabs value={view} onValueChange={(value) => setView(value as ModerationView)}>
+              <TabsList className="grid w-full grid-cols-3">
+                {views.map((option) => (
+                  <TabsTrigger key={option.value} value={option.value}>{option.label}</TabsTrigger>
+                ))}
+              </TabsList>
+            </Tabs>
+
+            {queueError && (
+              <ErrorState error={queueError} onRetry={() => refetch()} />
+            )}
+
+            {!isLoading && !queueError && items.length === 0 && (
+              <div className="text-center py-12">
+                <div className="bg-white/10 backdrop-blur-sm rounded-3xl p-8 max-w-md mx-auto">
+                  <CheckCircle className="w-10 h-10 text-white/80 mx-auto mb-3" />
+                  <p className="text-white/80 text-lg">{views.find((option) => option.value === view)?.empty}</p>
+                </div>
+              </div>
+            )}
+
+            {items.map((item) => {
+              const key = `${item.target_type}:${item.target_id}`;
+              const busy = busyKey === key;
+              const isDump = item.target_type === 'dump';
+              return (
+                <Card key={key}>
+                  <CardContent className="p-6 space-y-4">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <Badge variant="secondary" className="capitalize">{item.target_type}</Badge>
+                      {isDump && (
+                        <Badge variant="outline" className="capitalize">{item.dump_type}</Badge>
+                      )}
+                      {isDump && (
+                        <Badge variant={statusBadges[item.status].variant}>{statusBadges[item.status].label}</Badge>
+                      )}
+                      {item.report_count > 0 && (
+                        <span className="ml-auto flex items-center gap-1 text-sm text-muted-foreground">
+                          <Flag className="w-4 h-4" />
+                          {item.report_count} {item.report_count === 1 ? 'report' : 'reports'}
+                        </span>
+                      )}
+                    </div>
+
+                    {item.title && <h2 className="text-lg font-semibold">{item.title}</h2>}
+                    <ReportedContent item={item} />
+
+                    <div className="flex flex-wrap gap-2">
+                      {Object.entries(item.reasons).map(([reason, count]) => (
+                        <Badge key={reason} variant="outline">
+                          {reasonLabel(reason)} × {count}
+                        </Badge>
+                      ))}
+                    </div>
+
+                    {item.details.length > 0 && (
+                      <ul className="text-sm text-muted-foreground space-y-1 border-l-2 pl-3">
+                        {item.details.map((detail, index) => (
+                          <li key={index} className="break-words">{detail}</li>
+                        ))}
+                      </ul>
+                    )}
+
+                    <div className="flex flex-wrap gap-2 pt-2 border-t">
+                      {isDump && item.status === 'pending' && (
+                        <Button variant="outline" size="sm" disabled={busy} onClick={() => handleAction(item, 'approve')}>
+                          <CheckCircle className="w-4 h-4 mr-2" />
+                          Approve
+                        </Button>
+                      )}
+                      {isDump && item.status === 'visible' && (
+                        <Button variant="outline" size="sm" disabled={busy} onClick={() => handleAction(item, 'hide')}>
+                          <EyeOff className="w-4 h-4 mr-2" />
+                          Hide
+                        </Button>
+                      )}
+                      {isDump && (item.status === 'hidden' || item.status === 'removed') && (
+                        <Button variant="outline" size="sm" disabled={busy} onClick={() => handleAction(item, 'restore')}>
+                          <Eye className="w-4 h-4 mr-2" />
+                          Restore
+                        </Button>
+                      )}
+                      {view === 'reported' && (
+                        <Button variant="outline" size="sm" disabled={busy} onClick={() => handleAction(item, 'dismiss')}>
+                          <CheckCircle className="w-4 h-4 mr-2" />
+                          Dismiss reports
+                        </Button>
+                      )}
+                      {isDump && item.status !== 'removed' && (
+                        <Button
+                          variant="destructive"
+                          size="sm"
+                          disabled={busy}
+                          className="ml-auto"
+                          onClick={() => handleAction(item, 'remove')}
+                        >
+                          {item.status === 'pending' ? <XCircle className="w-4 h-4 mr-2" /> : <Archive className="w-4 h-4 mr-2" />}
+                          {item.status === 'pending' ? 'Reject' : 'Remove'}
+                        </Button>
+                      )}
+                      {(!isDump || item.status === 'removed') && (
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button variant="destructive" size="sm" disabled={busy} className="ml-auto">
+                              <Trash2 className="w-4 h-4 mr-2" />
+                              {isDump ? 'Delete permanently' : 'Delete'}
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Delete this {item.target_type}?</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                {isDump
+                                  ? 'The dump and its media are deleted for good. Restore it instead if you might want it back.'
+                                  : 'This cannot be undone.'}
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Cancel</AlertDialogCancel>
+                              <AlertDialogAction onClick={() => handleAction(item, isDump ? 'purge' : 'delete')}>
+                                Delete
+                              </AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      )}
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Admin;
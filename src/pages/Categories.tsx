@@ -1,44 +1,50 @@
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
+import { useWindowVirtualizer } from "@tanstack/react-virtual";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import DumpCard from "@/components/DumpCard";
-import { categories, getDumpsByCategory, updateCategoryStats, type DumpWithTimestamp } from "@/services/supabaseService";
+import ErrorState from "@/components/ErrorState";
+import { useCategories, useCategoryDumps } from "@/hooks/use-dump-queries";
+import { categoryColorClasses } from "@/lib/categoryColors";
 import { Filter, TrendingUp } from "lucide-react";
 
 const Categories = () => {
   const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
-  const [filteredDumps, setFilteredDumps] = useState<DumpWithTimestamp[]>([]);
-  const [categoryStats, setCategoryStats] = useState(categories);
-  const [loading, setLoading] = useState(false);
+  const { data: categoryStats = [], error: categoriesError, refetch: refetchCategories } = useCategories();
+  const {
+    data,
+    isLoading: loading,
+    error,
+    refetch,
+    isFetchingNextPage: loadingMore,
+    isFetchNextPageError: loadMoreFailed,
+    hasNextPage,
+    fetchNextPage,
+  } = useCategoryDumps(selectedCategory);
+  const filteredDumps = data?.pages.flatMap((page) => page.dumps) ?? [];
+  const listRef = useRef<HTMLDivElement>(null);
 
-  // Load category stats on component mount
+  // Only the cards near the viewport are mounted; heights are measured as they render
+  const virtualizer = useWindowVirtualizer({
+    count: filteredDumps.length,
+    estimateSize: () => 480,
+    overscan: 3,
+    scrollMargin: listRef.current?.offsetTop ?? 0,
+  });
+  const virtualItems = virtualizer.getVirtualItems();
+
+  // Infinite scroll: fetch the next page once the last few cards are rendered
+  const lastVirtualIndex = virtualItems.length > 0 ? virtualItems[virtualItems.length - 1].index : -1;
   useEffect(() => {
-    const loadCategoryStats = async () => {
-      const stats = await updateCategoryStats();
-      setCategoryStats(stats);
-    };
-    loadCategoryStats();
-  }, []);
-
-  const handleCategoryClick = async (categoryName: string) => {
-    const category = categoryName.toLowerCase();
-    if (selectedCategory === category) {
-      setSelectedCategory(null);
-      setFilteredDumps([]);
-    } else {
-      setLoading(true);
-      setSelectedCategory(category);
-      try {
-        const dumps = await getDumpsByCategory(category);
-        setFilteredDumps(dumps);
-      } catch (error) {
-        console.error('Failed to fetch dumps by category:', error);
-        setFilteredDumps([]);
-      }
-      setLoading(false);
-    }
+    if (lastVirtualIndex >= filteredDumps.length - 3 && hasNextPage && !loadingMore && !loadMoreFailed) fetchNextPage();
+  }, [lastVirtualIndex, filteredDumps.length, hasNextPage, loadingMore, loadMoreFailed, fetchNextPage]);
+
+  const selected = categoryStats.find((category) => category.slug === selectedCategory);
+
+  const handleCategoryClick = (category: string) => {
+    setSelectedCategory(selectedCategory === category ? null : category);
   };
 
   return (
@@ -54,34 +60,41 @@ const Categories = () => {
           </p>
         </div>
 
+        {categoriesError && (
+          <ErrorState error={categoriesError} onRetry={() => refetchCategories()} className="mb-12" />
+        )}
+
         {/* Category Grid */}
         <div className="grid md:grid-cols-2 lg:grid-cols-4 gap-6 mb-12">
           {categoryStats.map((category) => (
             <Card 
-              key={category.name}
+              key={category.slug}
               className={`cursor-pointer transition-all duration-300 hover:shadow-xl transform hover:scale-105 ${
-                selectedCategory === category.name.toLowerCase() 
+                selectedCategory === category.slug 
                   ? 'ring-2 ring-accent bg-accent/10' 
                   : 'bg-white/10 backdrop-blur-sm border-white/20'
               }`}
-              onClick={() => handleCategoryClick(category.name)}
+              onClick={() => handleCategoryClick(category.slug)}
             >
               <CardHeader className="pb-3">
                 <div className="flex items-center justify-between">
                   <CardTitle className={`text-lg ${
-                    selectedCategory === category.name.toLowerCase() ? 'text-accent' : 'text-white'
+                    selectedCategory === category.slug ? 'text-accent' : 'text-white'
                   }`}>
                     {category.name}
                   </CardTitle>
                   <Filter className={`w-5 h-5 ${
-                    selectedCategory === category.name.toLowerCase() ? 'text-accent' : 'text-white/60'
+                    selectedCategory === category.slug ? 'text-accent' : 'text-white/60'
                   }`} />
                 </div>
+                {category.description && (
+                  <p className="text-sm text-white/70">{category.description}</p>
+                )}
               </CardHeader>
               <CardContent>
                 <div className="flex items-center justify-between">
-                  <Badge variant="secondary" className="bg-white/20 text-white">
-                    {category.count} dumps
+                  <Badge variant="secondary" className={categoryColorClasses[category.color]}>
+                    {category.dump_count} dumps
                   </Badge>
                   <TrendingUp className="w-4 h-4 text-white/60" />
                 </div>
@@ -102,16 +115,13 @@ const Categories = () => {
             )}
             <div className="text-center">
               <h2 className="text-3xl font-bold text-white mb-2 capitalize">
-                {selectedCategory} Dumps
+                {selected?.name ?? selectedCategory} Dumps
               </h2>
               <p className="text-white/80">
-                {filteredDumps.length} dumps found
+                {selected?.dump_count ?? filteredDumps.length} dumps found
               </p>
               <Button
-                onClick={() => {
-                  setSelectedCategory(null);
-                  setFilteredDumps([]);
-                }}
+                onClick={() => setSelectedCategory(null)}
                 variant="outline"
                 className="mt-4 bg-white/10 border-white/30 text-white hover:bg-white/20"
               >
@@ -119,13 +129,48 @@ const Categories = () => {
               </Button>
             </div>
 
-            {!loading && <div className="grid gap-8">
-              {filteredDumps.map((dump) => (
-                <DumpCard key={dump.id} dump={dump} className="animate-fade-in" />
+            <div
+              ref={listRef}
+              className="relative w-full"
+              style={{ height: virtualizer.getTotalSize() }}
+            >
+              {virtualItems.map((item) => (
+                <div
+                  key={filteredDumps[item.index].id}
+                  data-index={item.index}
+                  ref={virtualizer.measureElement}
+                  className="absolute top-0 left-0 w-full pb-8"
+                  style={{ transform: `translateY(${item.start - virtualizer.options.scrollMargin}px)` }}
+                >
+                  <DumpCard dump={filteredDumps[item.index]} className="animate-fade-in" />
+                </div>
               ))}
-            </div>}
+            </div>
+
+            {loadingMore && (
+              <p className="text-center text-white/70 py-6">Loading more...</p>
+            )}
+
+            {loadMoreFailed && (
+              <div className="text-center py-6">
+                <p className="text-white/70 mb-2">Couldn't load more dumps.</p>
+                <Button
+                  variant="outline"
+                  onClick={() => fetchNextPage()}
+                  className="bg-white/10 border-white/30 text-white hover:bg-white/20"
+                >
+                  Try again
+                </Button>
+              </div>
+            )}
+
+            {error && !data && (
+              <div className="py-12">
+                <ErrorState error={error} onRetry={() => refetch()} />
+              </div>
+            )}
 
-            {filteredDumps.length === 0 && (
+            {!loading && !error && filteredDumps.length === 0 && (
               <div className="text-center py-12">
                 <div className="bg-white/10 backdrop-blur-sm rounded-3xl p-8 max-w-md mx-auto">
                   <p className="text-white/80 text-lg">
@@ -0,0 +1,71 @@
+import { useEffect } from "react";
+import { Link, useParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import DumpCard from "@/components/DumpCard";
+import ErrorState from "@/components/ErrorState";
+import CommentsSection from "@/components/CommentsSection";
+import { useDump } from "@/hooks/use-dump-queries";
+import { Shuffle } from "lucide-react";
+
+const DEFAULT_TITLE = document.title;
+
+// Permalink for one dump: the card with its comments open below it
+const DumpDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const { data: dump, isLoading: loading, error, refetch } = useDump(id);
+
+  // Shared links open in a tab of their own; name it after the dump
+  useEffect(() => {
+    if (!dump) return;
+    document.title = dump.title ? `${dump.title} - Dumppp` : DEFAULT_TITLE;
+    return () => {
+      document.title = DEFAULT_TITLE;
+    };
+  }, [dump]);
+
+  return (
+    <div className="min-h-screen bg-gradient-hero">
+      <div className="container mx-auto px-6 pt-24 pb-12 max-w-3xl space-y-8">
+        {loading && (
+          <div className="text-center py-12">
+            <div className="bg-white/10 backdrop-blur-sm rounded-3xl p-8 max-w-md mx-auto">
+              <p className="text-white/80 text-lg">Loading dump...</p>
+            </div>
+          </div>
+        )}
+
+        {error && !dump && (
+          <div className="py-12">
+            <ErrorState error={error} onRetry={() => refetch()} />
+          </div>
+        )}
+
+        {dump && (
+          <>
+            <DumpCard dump={dump} hideCommentsButton={true} live={true} />
+            <Card className="w-full max-w-2xl mx-auto shadow-lg">
+              <CardContent className="p-6">
+                <h2 className="text-lg font-semibold mb-4">Comments</h2>
+                <CommentsSection dumpId={dump.id} />
+              </CardContent>
+            </Card>
+          </>
+        )}
+
+        {!loading && (
+          <div className="text-center">
+            <Button asChild variant="outline" className="bg-white/10 border-white/30 text-white hover:bg-white/20">
+              <Link to="/">
+                <Shuffle className="w-4 h-4 mr-2" />
+                Get a random dump
+              </Link>
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DumpDetail;
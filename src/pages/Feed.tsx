@@ -0,0 +1,203 @@
+import { useState, useEffect, useMemo, useRef } from "react";
+import { useQueryClient, type InfiniteData } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import DumpCard from "@/components/DumpCard";
+import ErrorState from "@/components/ErrorState";
+import {
+  subscribeToFeed,
+  type DumpPage,
+  type DumpType,
+  type DumpWithTimestamp,
+} from "@/services/supabaseService";
+import { queryKeys, useFeedDumps } from "@/hooks/use-dump-queries";
+import { ArrowUp, FileText, Image, Video, Layers } from "lucide-react";
+
+type FeedFilter = "all" | Extract<DumpType, "text" | "image" | "video">;
+
+const filters: { value: FeedFilter; label: string; icon: typeof Layers }[] = [
+  { value: "all", label: "All", icon: Layers },
+  { value: "text", label: "Text", icon: FileText },
+  { value: "image", label: "Images", icon: Image },
+  { value: "video", label: "Videos", icon: Video },
+];
+
+const typesFor = (filter: FeedFilter): DumpType[] | undefined => (filter === "all" ? undefined : [filter]);
+
+// Updater for the cached feed pages
+const mapPages =
+  (update: (pages: DumpPage[]) => DumpPage[]) =>
+  (current: InfiniteData<DumpPage> | undefined): InfiniteData<DumpPage> | undefined =>
+    current && { ...current, pages: update(current.pages) };
+
+const Feed = () => {
+  const [filter, setFilter] = useState<FeedFilter>("all");
+  const types = useMemo(() => typesFor(filter), [filter]);
+  const queryClient = useQueryClient();
+  const {
+    data,
+    isLoading: loading,
+    error,
+    refetch,
+    isFetchingNextPage: loadingMore,
+    isFetchNextPageError: loadMoreFailed,
+    hasNextPage,
+    fetchNextPage,
+  } = useFeedDumps(types);
+  const dumps = useMemo(() => data?.pages.flatMap((page) => page.dumps) ?? [], [data]);
+  // Arrived in realtime; kept aside so the list doesn't shift while reading
+  const [incomingDumps, setIncomingDumps] = useState<DumpWithTimestamp[]>([]);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  // Our own uploads may already be in the list when their event arrives
+  const unseenDumps = useMemo(() => {
+    const shown = new Set(dumps.map((dump) => dump.id));
+    return incomingDumps.filter((dump) => !shown.has(dump.id));
+  }, [dumps, incomingDumps]);
+
+  // Infinite scroll: fetch the next page when the sentinel comes into view.
+  // A failed page waits for the retry button.
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasNextPage || loadingMore || loadMoreFailed) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0].isIntersecting) fetchNextPage();
+      },
+      { rootMargin: "400px" }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, loadingMore, loadMoreFailed, fetchNextPage]);
+
+  // New dumps wait behind the banner; dumps that get hidden or removed disappear
+  useEffect(() => {
+    setIncomingDumps([]);
+    return subscribeToFeed((event) => {
+      if (event.type === "dump_inserted") {
+        const { dump } = event;
+        const matches = dump.status === "visible" && dump.type !== "voice" && (!types || types.includes(dump.type));
+        if (!matches) return;
+        setIncomingDumps((prev) =>
+          prev.some((queued) => queued.id === dump.id) ? prev : [{ ...dump, timestamp: dump.created_at }, ...prev]
+        );
+      } else if (event.type === "dump_status" && event.status !== "visible") {
+        queryClient.setQueryData(
+          queryKeys.feed(types),
+          mapPages((pages) => pages.map((page) => ({ ...page, dumps: page.dumps.filter((dump) => dump.id !== event.id) })))
+        );
+        setIncomingDumps((prev) => prev.filter((dump) => dump.id !== event.id));
+      }
+    });
+  }, [types, queryClient]);
+
+  const showIncomingDumps = () => {
+    queryClient.setQueryData(
+      queryKeys.feed(types),
+      mapPages(([first, ...rest]) => [{ ...first, dumps: [...unseenDumps, ...first.dumps] }, ...rest])
+    );
+    setIncomingDumps([]);
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-hero">
+      <div className="container mx-auto px-6 pt-24 pb-12">
+        {/* Header */}
+        <div className="text-center mb-12">
+          <h1 className="text-5xl md:text-6xl font-black text-white mb-4">
+            FRESH DUMPS
+          </h1>
+          <p className="text-xl text-white/80 max-w-2xl mx-auto">
+            Everything, newest first. New dumps show up live as they're posted.
+          </p>
+        </div>
+
+        {/* Type filters */}
+        <div className="flex flex-wrap justify-center gap-2 mb-8">
+          {filters.map(({ value, label, icon: Icon }) => (
+            <Button
+              key={value}
+              variant="outline"
+              size="sm"
+              onClick={() => setFilter(value)}
+              aria-pressed={filter === value}
+              className={
+                filter === value
+                  ? "bg-white text-primary border-white hover:bg-white/90"
+                  : "bg-white/10 border-white/30 text-white hover:bg-white/20"
+              }
+            >
+              <Icon className="w-4 h-4 mr-2" />
+              {label}
+            </Button>
+          ))}
+        </div>
+
+        {/* New dumps banner */}
+        {unseenDumps.length > 0 && (
+          <div className="sticky top-24 z-40 flex justify-center mb-6">
+            <Button onClick={showIncomingDumps} className="rounded-full shadow-lg">
+              <ArrowUp className="w-4 h-4 mr-2" />
+              Show {unseenDumps.length} new {unseenDumps.length === 1 ? "dump" : "dumps"}
+            </Button>
+          </div>
+        )}
+
+        {loading && (
+          <div className="text-center py-12">
+            <div className="bg-white/10 backdrop-blur-sm rounded-3xl p-8 max-w-md mx-auto">
+              <p className="text-white/80 text-lg">Loading dumps...</p>
+            </div>
+          </div>
+        )}
+
+        {error && !data && (
+          <div className="py-12">
+            <ErrorState error={error} onRetry={() => refetch()} />
+          </div>
+        )}
+
+        {!loading && !error && dumps.length === 0 && (
+          <div className="text-center py-12">
+            <div className="bg-white/10 backdrop-blur-sm rounded-3xl p-8 max-w-md mx-auto">
+              <p className="text-white/80 text-lg">No dumps here yet.</p>
+              <p className="text-white/60 mt-2">Be the first to submit one!</p>
+            </div>
+          </div>
+        )}
+
+        {!loading && (
+          <div className="grid gap-8 max-w-3xl mx-auto">
+            {dumps.map((dump) => (
+              <DumpCard key={dump.id} dump={dump} className="animate-fade-in" />
+            ))}
+          </div>
+        )}
+
+        <div ref={sentinelRef} className="h-1" />
+
+        {loadingMore && (
+          <p className="text-center text-white/70 py-6">Loading more...</p>
+        )}
+        {loadMoreFailed && (
+          <div className="text-center py-6">
+            <p className="text-white/70 mb-2">Couldn't load more dumps. {error?.message}</p>
+            <Button
+              variant="outline"
+              onClick={() => fetchNextPage()}
+              className="bg-white/10 border-white/30 text-white hover:bg-white/20"
+            >
+              Try again
+            </Button>
+          </div>
+        )}
+        {!loading && !hasNextPage && dumps.length > 0 && (
+          <p className="text-center text-white/60 py-6">You've reached the beginning. That's every dump.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Feed;
@@ -0,0 +1,164 @@
+import { useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import DumpCard from "@/components/DumpCard";
+import ErrorState from "@/components/ErrorState";
+import { type DumpWithTimestamp } from "@/services/supabaseService";
+import { useClearHistory, useSeenHistory } from "@/hooks/use-dump-queries";
+import { useToast } from "@/hooks/use-toast";
+import { FileText, Image, Video, Mic, Trash2 } from "lucide-react";
+
+const typeIcons = { text: FileText, image: Image, video: Video, voice: Mic };
+
+// One line to recognise a dump by: its title, else the start of a text dump
+const previewFor = (dump: DumpWithTimestamp): string => {
+  if (dump.title) return dump.title;
+  if (dump.type === "text") return dump.content.length > 120 ? `${dump.content.slice(0, 120)}…` : dump.content;
+  return `Untitled ${dump.type}`;
+};
+
+const History = () => {
+  const { data: items = [], isLoading: loading, error, refetch } = useSeenHistory();
+  const clearMutation = useClearHistory();
+  const [openDump, setOpenDump] = useState<DumpWithTimestamp | null>(null);
+  const { toast } = useToast();
+
+  const handleClear = () => {
+    clearMutation.mutate(undefined, {
+      onSuccess: (result) => toast({ title: result.message, duration: 3000 }),
+      onError: (error) => toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+        duration: 3000,
+      }),
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-hero">
+      <div className="container mx-auto px-6 pt-24 pb-12">
+        {/* Header */}
+        <div className="text-center mb-12">
+          <h1 className="text-5xl md:text-6xl font-black text-white mb-4">
+            HISTORY
+          </h1>
+          <p className="text-xl text-white/80 max-w-2xl mx-auto">
+            Dumps you've already been given. They're skipped by "Give me a dump!" until you clear them.
+          </p>
+        </div>
+
+        <div className="max-w-3xl mx-auto">
+          {items.length > 0 && (
+            <div className="flex justify-end mb-6">
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button variant="outline" className="bg-white/10 border-white/30 text-white hover:bg-white/20">
+                    <Trash2 className="w-4 h-4 mr-2" />
+                    Clear history
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Clear your history?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      This list is only stored in this browser. Once cleared, dumps you've seen can come up again.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction onClick={handleClear}>Clear</AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            </div>
+          )}
+
+          {loading && (
+            <div className="text-center py-12">
+              <div className="bg-white/10 backdrop-blur-sm rounded-3xl p-8 max-w-md mx-auto">
+                <p className="text-white/80 text-lg">Loading history...</p>
+              </div>
+            </div>
+          )}
+
+          {error && (
+            <div className="py-12">
+              <ErrorState error={error} onRetry={() => refetch()} />
+            </div>
+          )}
+
+          {!loading && !error && items.length === 0 && (
+            <div className="text-center py-12">
+              <div className="bg-white/10 backdrop-blur-sm rounded-3xl p-8 max-w-md mx-auto">
+                <p className="text-white/80 text-lg">Nothing here yet.</p>
+                <p className="text-white/60 mt-2">Dumps you get from "Give me a dump!" will show up here.</p>
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-3">
+            {items.map((item) => {
+              const Icon = item.dump ? typeIcons[item.dump.type] : FileText;
+              return (
+                <Card key={item.id} className="bg-white/10 backdrop-blur-sm border-white/20">
+                  <CardContent className="flex items-center gap-4 p-4">
+                    <Icon className="w-5 h-5 text-white/70 shrink-0" />
+                    <div className="min-w-0 flex-1">
+                      <p className={`truncate ${item.dump ? "text-white" : "text-white/50 italic"}`}>
+                        {item.dump ? previewFor(item.dump) : "No longer available"}
+                      </p>
+                      <div className="flex items-center gap-2 mt-1 text-sm text-white/60">
+                        <span>Seen {formatDistanceToNow(new Date(item.seen_at), { addSuffix: true })}</span>
+                        {item.dump?.tags.slice(0, 3).map((tag) => (
+                          <Badge key={tag} variant="secondary" className="bg-white/20 text-white">
+                            {tag}
+                          </Badge>
+                        ))}
+                      </div>
+                    </div>
+                    {item.dump && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setOpenDump(item.dump)}
+                        className="bg-white/10 border-white/30 text-white hover:bg-white/20 shrink-0"
+                      >
+                        Open
+                      </Button>
+                    )}
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+
+      <Dialog open={openDump !== null} onOpenChange={(open) => !open && setOpenDump(null)}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="text-2xl font-bold">From your history</DialogTitle>
+          </DialogHeader>
+          {openDump && <DumpCard dump={openDump} live={true} />}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default History;
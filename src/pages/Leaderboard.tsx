@@ -1,51 +1,25 @@
-import { useState, useEffect } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import DumpCard from "@/components/DumpCard";
-import { getTopRatedDumps, getRecentDumps, getDumpStats, type DumpWithTimestamp } from "@/services/supabaseService";
+import ErrorState from "@/components/ErrorState";
+import { useLeaderboard } from "@/hooks/use-dump-queries";
 import { Trophy, TrendingUp, Clock, Star } from "lucide-react";
 
 const Leaderboard = () => {
-  const [topRatedDumps, setTopRatedDumps] = useState<DumpWithTimestamp[]>([]);
-  const [recentDumps, setRecentDumps] = useState<DumpWithTimestamp[]>([]);
-  const [stats, setStats] = useState({
-    totalDumps: 0,
-    activeToday: 0,
-    topRating: 0,
-    categories: 8
-  });
-  const [loading, setLoading] = useState(true);
-
-  useEffect(() => {
-    const loadData = async () => {
-      setLoading(true);
-      try {
-        const [topDumps, recent, dumpStats] = await Promise.all([
-          getTopRatedDumps(),
-          getRecentDumps(3),
-          getDumpStats()
-        ]);
-        
-        setTopRatedDumps(topDumps);
-        setRecentDumps(recent);
-        
-        // Calculate top rating
-        const topRating = topDumps.length > 0 ? Math.max(...topDumps.map(d => d.rating)) : 0;
-        
-        setStats({
-          totalDumps: dumpStats.totalDumps,
-          activeToday: recent.length, // Simplified - you might want to filter by today's date
-          topRating: Number(topRating.toFixed(1)),
-          categories: 8
-        });
-      } catch (error) {
-        console.error('Failed to load leaderboard data:', error);
-      }
-      setLoading(false);
-    };
-    
-    loadData();
-  }, []);
+  const { data, isLoading: loading, error, refetch } = useLeaderboard();
+  const failed = Boolean(error) && !data;
+  const topRatedDumps = data?.topRatedDumps ?? [];
+  const recentDumps = data?.recentDumps ?? [];
+
+  // Calculate top rating
+  const topRating = topRatedDumps.length > 0 ? Math.max(...topRatedDumps.map(d => d.rating)) : 0;
+
+  const stats = {
+    totalDumps: data?.totalDumps ?? 0,
+    activeToday: recentDumps.length, // Simplified - you might want to filter by today's date
+    topRating: Number(topRating.toFixed(1)),
+    categories: data?.categoryCount ?? 0
+  };
 
   const dumpOfTheDay = topRatedDumps[0];
 
@@ -81,7 +55,7 @@ const Leaderboard = () => {
                 <div className="absolute top-0 right-0 w-20 h-20 bg-accent/10 rounded-full -translate-y-10 translate-x-10"></div>
                 <stat.icon className="w-12 h-12 text-accent mx-auto mb-4 relative z-10" />
                 <div className="text-3xl font-black text-white mb-2 relative z-10">
-                  {loading && index === 0 ? "0" : stat.value}
+                  {failed ? "—" : loading && index === 0 ? "0" : stat.value}
                 </div>
                 <div className="text-white/70 text-base font-medium relative z-10">
                   {stat.label}
@@ -99,6 +73,12 @@ const Leaderboard = () => {
           </div>
         )}
 
+        {failed && (
+          <div className="py-12">
+            <ErrorState error={error} onRetry={() => refetch()} />
+          </div>
+        )}
+
         {/* Dump of the Day */}
         {!loading && dumpOfTheDay && <div className="mb-16">
           <div className="text-center mb-8">
@@ -123,7 +103,7 @@ const Leaderboard = () => {
         </div>}
 
         {/* Top Rated Dumps */}
-        {!loading && <div className="mb-16">
+        {data && <div className="mb-16">
           <div className="text-center mb-8">
             <h2 className="text-3xl font-bold text-white mb-4">Top Rated Dumps</h2>
             <p className="text-white/80">
@@ -149,7 +129,7 @@ const Leaderboard = () => {
         </div>}
 
         {/* Recent Activity */}
-        {!loading && <div>
+        {data && <div>
           <div className="text-center mb-8">
             <h2 className="text-3xl font-bold text-white mb-4">Recent Activity</h2>
             <p className="text-white/80">
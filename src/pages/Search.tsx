@@ -0,0 +1,276 @@
+import { useState, useEffect, useMemo } from "react";
+import { useSearchParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import DumpCard from "@/components/DumpCard";
+import ErrorState from "@/components/ErrorState";
+import { SNIPPET_MARK_END, SNIPPET_MARK_START, type DumpType } from "@/services/supabaseService";
+import { useCategories, useSearchDumps } from "@/hooks/use-dump-queries";
+import { Search as SearchIcon, MessageCircle } from "lucide-react";
+
+const ANY = "any";
+
+const typeOptions: { value: DumpType; label: string }[] = [
+  { value: "text", label: "Text" },
+  { value: "image", label: "Image" },
+  { value: "video", label: "Video" },
+];
+
+interface SearchParamsFilters {
+  tag: string;
+  type: DumpType | "";
+  from: string;
+  to: string;
+}
+
+// URL params to service filters. Dates are whole local days; "to" includes the chosen day.
+const filtersFor = ({ tag, type, from, to }: SearchParamsFilters) => ({
+  tag: tag || undefined,
+  types: type ? [type] : undefined,
+  createdAfter: from ? new Date(`${from}T00:00:00`).toISOString() : undefined,
+  createdBefore: to ? new Date(new Date(`${to}T00:00:00`).getTime() + 24 * 60 * 60 * 1000).toISOString() : undefined,
+});
+
+// Turn the marked snippet into text with <mark>ed terms, without touching innerHTML
+const Snippet = ({ snippet }: { snippet: string }) => {
+  const parts = snippet.split(SNIPPET_MARK_START);
+  return (
+    <p className="text-sm text-white/80 leading-relaxed break-words">
+      {parts.map((part, index) => {
+        if (index === 0) return <span key={index}>{part}</span>;
+        const [highlighted, rest = ""] = part.split(SNIPPET_MARK_END);
+        return (
+          <span key={index}>
+            <mark className="bg-accent/80 text-white rounded px-0.5">{highlighted}</mark>
+            {rest}
+          </span>
+        );
+      })}
+    </p>
+  );
+};
+
+const Search = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = searchParams.get("q") ?? "";
+  const tag = searchParams.get("tag") ?? "";
+  const type = (searchParams.get("type") ?? "") as DumpType | "";
+  const from = searchParams.get("from") ?? "";
+  const to = searchParams.get("to") ?? "";
+
+  const [draft, setDraft] = useState(query);
+  const { data: categories = [] } = useCategories();
+  // Keyed by the query and filters, so editing either never shows a slower
+  // earlier request's results
+  const filters = useMemo(() => filtersFor({ tag, type, from, to }), [tag, type, from, to]);
+  const {
+    data,
+    isLoading: loading,
+    error,
+    refetch,
+    isFetchingNextPage: loadingMore,
+    isFetchNextPageError: loadMoreFailed,
+    hasNextPage: hasMore,
+    fetchNextPage,
+  } = useSearchDumps(query, filters);
+  const results = data?.pages.flatMap((page) => page.results) ?? [];
+  const message = data?.pages[0].message ?? null;
+
+  // Keep the box in sync when the URL changes (back/forward, shared links)
+  useEffect(() => {
+    setDraft(query);
+  }, [query]);
+
+  const updateParam = (key: string, value: string) => {
+    const next = new URLSearchParams(searchParams);
+    if (value) {
+      next.set(key, value);
+    } else {
+      next.delete(key);
+    }
+    setSearchParams(next);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateParam("q", draft.trim());
+  };
+
+  const hasFilters = Boolean(tag || type || from || to);
+
+  return (
+    <div className="min-h-screen bg-gradient-hero">
+      <div className="container mx-auto px-6 pt-24 pb-12">
+        {/* Header */}
+        <div className="text-center mb-12">
+          <h1 className="text-5xl md:text-6xl font-black text-white mb-4">
+            SEARCH
+          </h1>
+          <p className="text-xl text-white/80 max-w-2xl mx-auto">
+            Search titles, text dumps and comments. Use "quotes" for phrases and -word to exclude.
+          </p>
+        </div>
+
+        <div className="max-w-3xl mx-auto space-y-6 mb-12">
+          <form onSubmit={handleSubmit} className="flex gap-2">
+            <Input
+              type="search"
+              placeholder="What are you looking for?"
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              maxLength={200}
+              className="bg-white/90"
+              aria-label="Search dumps"
+            />
+            <Button type="submit" disabled={!draft.trim()}>
+              <SearchIcon className="w-4 h-4 mr-2" />
+              Search
+            </Button>
+          </form>
+
+          {/* Filters */}
+          <div className="grid gap-4 sm:grid-cols-4 bg-white/10 backdrop-blur-sm rounded-2xl p-4">
+            <div className="space-y-2">
+              <Label className="text-white/80">Category</Label>
+              <Select value={tag || ANY} onValueChange={(value) => updateParam("tag", value === ANY ? "" : value)}>
+                <SelectTrigger className="bg-white/90">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Any category</SelectItem>
+                  {categories.map((category) => (
+                    <SelectItem key={category.slug} value={category.slug}>
+                      {category.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label className="text-white/80">Type</Label>
+              <Select value={type || ANY} onValueChange={(value) => updateParam("type", value === ANY ? "" : value)}>
+                <SelectTrigger className="bg-white/90">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Any type</SelectItem>
+                  {typeOptions.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="search-from" className="text-white/80">From</Label>
+              <Input
+                id="search-from"
+                type="date"
+                value={from}
+                max={to || undefined}
+                onChange={(e) => updateParam("from", e.target.value)}
+                className="bg-white/90"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="search-to" className="text-white/80">To</Label>
+              <Input
+                id="search-to"
+                type="date"
+                value={to}
+                min={from || undefined}
+                onChange={(e) => updateParam("to", e.target.value)}
+                className="bg-white/90"
+              />
+            </div>
+          </div>
+
+          {hasFilters && (
+            <div className="text-center">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setSearchParams(query ? { q: query } : {})}
+                className="bg-white/10 border-white/30 text-white hover:bg-white/20"
+              >
+                Clear filters
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {loading && (
+          <div className="text-center py-12">
+            <div className="bg-white/10 backdrop-blur-sm rounded-3xl p-8 max-w-md mx-auto">
+              <p className="text-white/80 text-lg">Searching...</p>
+            </div>
+          </div>
+        )}
+
+        {!loading && query && message && (
+          <p className="text-center text-white/80 mb-8">
+            {message} for <span className="font-semibold text-white">"{query}"</span>
+          </p>
+        )}
+
+        {error && !data && (
+          <div className="py-12">
+            <ErrorState error={error} onRetry={() => refetch()} />
+          </div>
+        )}
+
+        {!loading && !error && query && results.length === 0 && (
+          <div className="text-center py-12">
+            <div className="bg-white/10 backdrop-blur-sm rounded-3xl p-8 max-w-md mx-auto">
+              <p className="text-white/80 text-lg">Nothing matched.</p>
+              <p className="text-white/60 mt-2">Try fewer words or clear the filters.</p>
+            </div>
+          </div>
+        )}
+
+        {!loading && (
+          <div className="grid gap-8 max-w-3xl mx-auto">
+            {results.map((result) => (
+              <div key={result.dump.id} className="space-y-3 animate-fade-in">
+                {result.snippet && (
+                  <div className="bg-white/10 backdrop-blur-sm rounded-2xl p-4 space-y-2">
+                    {result.matchedIn === "comment" && (
+                      <Badge variant="secondary" className="bg-white/20 text-white">
+                        <MessageCircle className="w-3 h-3 mr-1" />
+                        Matched in a comment
+                      </Badge>
+                    )}
+                    <Snippet snippet={result.snippet} />
+                  </div>
+                )}
+                <DumpCard dump={result.dump} />
+              </div>
+            ))}
+          </div>
+        )}
+
+        {!loading && hasMore && (
+          <div className="text-center mt-8">
+            <Button
+              variant="outline"
+              onClick={() => fetchNextPage()}
+              disabled={loadingMore}
+              className="bg-white/10 border-white/30 text-white hover:bg-white/20"
+            >
+              {loadingMore ? "Loading..." : loadMoreFailed ? "Try again" : "Load more results"}
+            </Button>
+            {loadMoreFailed && (
+              <p className="text-white/70 mt-2">Couldn't load more results. {error?.message}</p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Search;
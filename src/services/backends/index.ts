@@ -0,0 +1,73 @@
+import { isSupabaseConfigured } from '@/lib/supabase';
+import { createSupabaseBackend } from './supabaseBackend';
+import { createLocalBackend } from './localBackend';
+import { createIndexedDbStore, createMemoryStore } from './localStore';
+import type { DataBackend } from './types';
+
+export type {
+  AuthSession,
+  Category,
+  CategoryColor,
+  DataBackend,
+  DumpCursor,
+  DumpQuery,
+  DumpStatus,
+  DumpSubmission,
+  DumpType,
+  ModerationAction,
+  ModerationItem,
+  ModerationView,
+  RandomDumpOptions,
+  RandomWeighting,
+  RealtimeEvent,
+  RealtimeListener,
+  ReportReason,
+  ReportResult,
+  ReportTarget,
+  SearchFilters,
+  SearchHit,
+  VoteDirection,
+  VoteResult,
+  VoteTarget
+} from './types';
+export { SNIPPET_MARK_START, SNIPPET_MARK_END } from './types';
+export { createSupabaseBackend } from './supabaseBackend';
+export { createLocalBackend, type LocalBackendOptions } from './localBackend';
+export { createIndexedDbStore, createMemoryStore, type LocalStore } from './localStore';
+export { createRealtimeHub, type RealtimeHub } from './realtimeHub';
+
+// VITE_DATA_BACKEND picks the data source:
+//   supabase - the hosted project (default when VITE_SUPABASE_* are set)
+//   local    - IndexedDB in this browser (default otherwise)
+//   memory   - in-process only, wiped on reload (deterministic tests)
+const createDefaultBackend = (): DataBackend => {
+  const requested = import.meta.env.VITE_DATA_BACKEND;
+  // Local stand-in for moderation_settings.premoderation
+  const options = { premoderation: import.meta.env.VITE_PREMODERATION === 'true' };
+
+  if (requested === 'memory') return createLocalBackend(createMemoryStore(), options);
+
+  if (requested === 'local' || (!requested && !isSupabaseConfigured)) {
+    if (!requested) {
+      console.warn('Supabase is not configured, falling back to the local IndexedDB backend.');
+    }
+    return createLocalBackend(
+      typeof indexedDB === 'undefined' ? createMemoryStore() : createIndexedDbStore(),
+      options
+    );
+  }
+
+  return createSupabaseBackend();
+};
+
+let activeBackend: DataBackend | null = null;
+
+export const getBackend = (): DataBackend => {
+  activeBackend ??= createDefaultBackend();
+  return activeBackend;
+};
+
+// Swap the data source at runtime, e.g. a memory backend in component tests
+export const setBackend = (backend: DataBackend): void => {
+  activeBackend = backend;
+};
@@ -0,0 +1,660 @@
+import type { Dump, Comment } from '@/services/supabaseService';
+import { ServiceError } from '@/services/errors';
+import { UPLOAD_LIMITS } from '@/services/media/limits';
+import type {
+  AuthSession,
+  Category,
+  DataBackend,
+  DumpQuery,
+  DumpStatus,
+  DumpSubmission,
+  ModerationItem,
+  RandomWeighting,
+  ReportReason,
+  ReportTarget,
+  SearchHit,
+  VoteDirection,
+  VoteTarget
+} from './types';
+import { SNIPPET_MARK_END, SNIPPET_MARK_START } from './types';
+import type { LocalStore } from './localStore';
+import { createRealtimeHub, FEED_TOPIC, type RealtimeHub } from './realtimeHub';
+
+// Uploaded media is stored as a blob row and referenced from dump content by this prefix
+const FILE_URL_PREFIX = 'local-file:';
+
+type StoredFile = { id: string; bucket: string; name: string; blob: Blob };
+type StoredVote = { id: string; target_type: VoteTarget; target_id: string; device_id: string; vote: VoteDirection };
+
+type StoredReport = {
+  id: string;
+  target_type: ReportTarget;
+  target_id: string;
+  device_id: string;
+  reason: ReportReason;
+  details: string | null;
+  created_at: string;
+};
+
+// Mirrors the seed rows in the categories migration
+const DEFAULT_CATEGORIES: Omit<Category, 'dump_count'>[] = [
+  { slug: 'funny', name: 'Funny', color: 'yellow', description: 'Things that made you laugh', sort_order: 10 },
+  { slug: 'deep', name: 'Deep', color: 'purple', description: 'Late-night thoughts and big questions', sort_order: 20 },
+  { slug: 'weird', name: 'Weird', color: 'green', description: 'Strange, unexplained and unusual', sort_order: 30 },
+  { slug: 'sad', name: 'Sad', color: 'blue', description: 'Heavy days and things that hurt', sort_order: 40 },
+  { slug: 'dreams', name: 'Dreams', color: 'pink', description: 'What you saw with your eyes closed', sort_order: 50 },
+  { slug: 'food', name: 'Food', color: 'orange', description: 'Meals, cravings and kitchen disasters', sort_order: 60 },
+  { slug: 'adult-life', name: 'Adult-life', color: 'gray', description: 'Bills, jobs and pretending to have it together', sort_order: 70 },
+  { slug: 'awkward', name: 'Awkward', color: 'red', description: 'Moments you replay at 3am', sort_order: 80 },
+  { slug: 'confessions', name: 'Confessions', color: 'indigo', description: 'Things you have never told anyone', sort_order: 90 }
+];
+
+// Local stand-ins for the moderation_settings row, plus the hub realtime
+// events are published on (a private one unless shared)
+export interface LocalBackendOptions {
+  reportHideThreshold?: number;
+  premoderation?: boolean;
+  realtime?: RealtimeHub;
+}
+
+// Mirrors enforce_dump_status_transition() in the dump status migration
+const STATUS_TRANSITIONS: Record<DumpStatus, DumpStatus[]> = {
+  pending: ['visible', 'removed'],
+  visible: ['hidden'],
+  hidden: ['visible', 'removed'],
+  removed: ['visible']
+};
+
+const withStatus = (dump: Dump, status: DumpStatus): Dump => {
+  if (!STATUS_TRANSITIONS[dump.status].includes(status)) {
+    throw new ServiceError('validation', `Invalid dump status transition ${dump.status} -> ${status}`);
+  }
+  const now = new Date().toISOString();
+  return { ...dump, status, status_changed_at: now, removed_at: status === 'removed' ? now : null };
+};
+
+// Ledger rows are keyed like the SQL unique constraints: one per target and device
+const ledgerKey = (target: VoteTarget, id: string, deviceId: string) => `${target}:${id}:${deviceId}`;
+
+// Mirrors update_dump_rating() in the dumps migration
+const computeRating = (upvotes: number, downvotes: number): number => {
+  if (upvotes + downvotes === 0) return 0;
+  return Math.max(0, Math.min(5, ((upvotes - downvotes) / (upvotes + downvotes + 1) + 1) * 2.5));
+};
+
+// Mirrors the checks in submit_dump(); local media URLs are trusted as-is
+const validateSubmission = ({
+  type,
+  content,
+  tags,
+  title,
+  thumbnail_url = null,
+  placeholder = null,
+  media_width = null,
+  media_height = null,
+  poster_url = null,
+  duration_ms = null
+}: DumpSubmission): Required<DumpSubmission> => {
+  const cleanContent = content.trim();
+  const cleanTags = Array.from(new Set(tags.map(tag => tag.trim().toLowerCase()).filter(Boolean)));
+  const cleanTitle = title?.trim() || null;
+  const cleanThumbnail = thumbnail_url?.trim() || null;
+  const cleanPoster = poster_url?.trim() || null;
+  const validSize = (size: number) => Number.isInteger(size) && size >= 1 && size <= 16384;
+
+  if (!['text', 'image', 'voice', 'video'].includes(type)) throw new ServiceError('validation', `Unknown dump type ${type}`);
+  if (type === 'text' && (cleanContent.length < 1 || cleanContent.length > 500)) {
+    throw new ServiceError('validation', 'Text dumps must be 1-500 characters');
+  }
+  if (type !== 'text' && !cleanContent) throw new ServiceError('validation', 'Media dumps need an uploaded file');
+  if (cleanTags.length < 1 || cleanTags.length > 3) throw new ServiceError('validation', 'Pick between 1 and 3 tags');
+  if (cleanTags.some(tag => tag.length > 30)) throw new ServiceError('validation', 'Tags are limited to 30 characters');
+  if (cleanTitle && cleanTitle.length > 100) throw new ServiceError('validation', 'Titles are limited to 100 characters');
+  if (type === 'text' && (cleanThumbnail || placeholder || media_width !== null)) {
+    throw new ServiceError('validation', 'Text dumps have no media preview');
+  }
+  if (placeholder && placeholder.length > 64) throw new ServiceError('validation', 'Placeholders are limited to 64 characters');
+  if ((media_width === null) !== (media_height === null) || (media_width !== null && !(validSize(media_width) && validSize(media_height)))) {
+    throw new ServiceError('validation', 'Invalid media size');
+  }
+  if (type !== 'video' && cleanPoster) throw new ServiceError('validation', 'Only video dumps have a poster');
+  if (type !== 'video' && type !== 'voice' && duration_ms !== null) {
+    throw new ServiceError('validation', 'Only voice and video dumps have a duration');
+  }
+  if (duration_ms !== null && !(Number.isInteger(duration_ms) && duration_ms >= 0)) {
+    throw new ServiceError('validation', 'Invalid duration');
+  }
+  const maxSeconds = type === 'text' ? null : UPLOAD_LIMITS[type].maxSeconds;
+  if (duration_ms !== null && maxSeconds !== null && duration_ms > maxSeconds * 1000) {
+    throw new ServiceError('validation', `${type} dumps are limited to ${maxSeconds} seconds`);
+  }
+
+  return {
+    type,
+    content: cleanContent,
+    tags: cleanTags,
+    title: cleanTitle,
+    thumbnail_url: cleanThumbnail,
+    placeholder,
+    media_width,
+    media_height,
+    poster_url: cleanPoster,
+    duration_ms
+  };
+};
+
+// Rough stand-in for websearch_to_tsquery(): every word must appear, quotes
+// and a leading minus are ignored
+const searchTerms = (query: string): string[] =>
+  query.toLowerCase().split(/\s+/).map(term => term.replace(/^-|["']/g, '')).filter(Boolean);
+
+const termHits = (text: string, terms: string[]): number => {
+  const lower = text.toLowerCase();
+  return terms.every(term => lower.includes(term))
+    ? terms.reduce((total, term) => total + lower.split(term).length - 1, 0)
+    : 0;
+};
+
+// Up to ~160 characters around the first hit, with every term marked
+const highlightSnippet = (text: string, terms: string[]): string => {
+  const lower = text.toLowerCase();
+  const first = Math.min(...terms.map(term => lower.indexOf(term)).filter(index => index >= 0));
+  const start = Math.max(0, first - 60);
+  const window = text.slice(start, start + 160);
+  const escaped = terms.map(term => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  const marked = window.replace(new RegExp(`(${escaped.join('|')})`, 'gi'), `${SNIPPET_MARK_START}$1${SNIPPET_MARK_END}`);
+  return `${start > 0 ? '… ' : ''}${marked}${start + 160 < text.length ? ' …' : ''}`;
+};
+
+// Mirrors the weights in random_dump()
+const randomWeight = (dump: Dump, weighting: RandomWeighting): number => {
+  if (weighting === 'fresh') {
+    const ageSeconds = (Date.now() - new Date(dump.created_at).getTime()) / 1000;
+    return Math.max(Math.exp(-ageSeconds / 604800), 0.05);
+  }
+  if (weighting === 'top') return 1 + Math.max(dump.rating, 0);
+  return 1;
+};
+
+const matchesDumpQuery = (
+  dump: Dump,
+  { ids, tag, statuses, types, excludeType, createdAfter, createdBefore }: DumpQuery
+): boolean => {
+  if (!(statuses ?? ['visible']).includes(dump.status)) return false;
+  if (ids && !ids.includes(dump.id)) return false;
+  if (tag && !dump.tags.includes(tag)) return false;
+  if (types && !types.includes(dump.type)) return false;
+  if (excludeType && dump.type === excludeType) return false;
+  if (createdAfter && dump.created_at < createdAfter) return false;
+  if (createdBefore && dump.created_at >= createdBefore) return false;
+  return true;
+};
+
+export const createLocalBackend = (
+  store: LocalStore,
+  { reportHideThreshold = 3, premoderation = false, realtime = createRealtimeHub() }: LocalBackendOptions = {}
+): DataBackend => {
+  // Object URLs are per page load, so they are created lazily and reused
+  const objectUrls = new Map<string, string>();
+  // There are no accounts locally: any sign-in is a moderator for this page load
+  let session: AuthSession | null = null;
+
+  const requireModerator = () => {
+    if (!session?.isModerator) throw new ServiceError('forbidden', 'Moderator role required');
+  };
+
+  // Same rule as the comments policies: only moderators reach the comments of
+  // a dump that isn't visible
+  const canSeeComments = async (dumpId: string) =>
+    (await store.get<Dump>('dumps', dumpId))?.status === 'visible' || Boolean(session?.isModerator);
+
+  const setStatus = async (id: string, status: DumpStatus) => {
+    const dump = await store.get<Dump>('dumps', id);
+    if (!dump) throw new ServiceError('not_found', 'Dump not found');
+    await store.put('dumps', withStatus(dump, status));
+    realtime.publish(FEED_TOPIC, { type: 'dump_status', id, status });
+  };
+
+  // Same rules as keep_comment_thread(): comments with replies become placeholders,
+  // and a placeholder goes away with its last reply
+  const removeComment = async (id: string): Promise<void> => {
+    const comments = await store.all<Comment>('comments');
+    const comment = comments.find(candidate => candidate.id === id);
+    if (!comment) return;
+
+    if (comments.some(candidate => candidate.parent_id === id)) {
+      const placeholder: Comment = { ...comment, content: '[removed]', removed_at: new Date().toISOString() };
+      await store.put<Comment>('comments', placeholder);
+      realtime.publish(comment.dump_id, { type: 'comment_updated', comment: placeholder });
+      return;
+    }
+
+    await store.delete('comments', id);
+    realtime.publish(comment.dump_id, { type: 'comment_deleted', id });
+    const parent = comments.find(candidate => candidate.id === comment.parent_id);
+    if (parent?.removed_at && !comments.some(candidate => candidate.parent_id === parent.id && candidate.id !== id)) {
+      await removeComment(parent.id);
+    }
+  };
+
+  const clearReports = async (target: ReportTarget, id: string) => {
+    const reports = await store.all<StoredReport>('reports');
+    await Promise.all(
+      reports
+        .filter(report => report.target_type === target && report.target_id === id)
+        .map(report => store.delete('reports', report.id))
+    );
+  };
+
+  const resolveFileUrl = async (url: string): Promise<string> => {
+    if (!url.startsWith(FILE_URL_PREFIX)) return url;
+
+    const fileId = url.slice(FILE_URL_PREFIX.length);
+    if (!objectUrls.has(fileId)) {
+      const file = await store.get<StoredFile>('files', fileId);
+      if (!file) return url;
+      objectUrls.set(fileId, URL.createObjectURL(file.blob));
+    }
+    return objectUrls.get(fileId)!;
+  };
+
+  // Media, thumbnails and posters are stored blobs; hand out object URLs for them
+  const resolveContent = async (dump: Dump): Promise<Dump> => ({
+    ...dump,
+    content: await resolveFileUrl(dump.content),
+    thumbnail_url: dump.thumbnail_url ? await resolveFileUrl(dump.thumbnail_url) : null,
+    poster_url: dump.poster_url ? await resolveFileUrl(dump.poster_url) : null
+  });
+
+  // Same delta arithmetic as cast_vote() in the vote ledger migration
+  const applyVote = <T extends { upvotes: number; downvotes: number }>(
+    row: T,
+    previous: VoteDirection | null,
+    vote: VoteDirection | null
+  ): T => ({
+    ...row,
+    upvotes: Math.max(0, row.upvotes + (vote === 'up' ? 1 : 0) - (previous === 'up' ? 1 : 0)),
+    downvotes: Math.max(0, row.downvotes + (vote === 'down' ? 1 : 0) - (previous === 'down' ? 1 : 0))
+  });
+
+  return {
+    name: 'local',
+
+    async listDumps(query) {
+      let dumps = (await store.all<Dump>('dumps')).filter(dump => matchesDumpQuery(dump, query));
+
+      if (query.orderBy) {
+        const direction = query.ascending ? 1 : -1;
+        // Same (column, id) order as the keyset indexes
+        const compare = (left: string | number, leftId: string, right: string | number, rightId: string) =>
+          left < right ? -direction : left > right ? direction
+            : leftId < rightId ? -direction : leftId > rightId ? direction : 0;
+
+        dumps.sort((a, b) => compare(a[query.orderBy!], a.id, b[query.orderBy!], b.id));
+        if (query.after) {
+          const { value, id } = query.after;
+          dumps = dumps.filter(dump => compare(dump[query.orderBy!], dump.id, value, id) > 0);
+        }
+      }
+      if (query.limit) dumps = dumps.slice(0, query.limit);
+
+      return Promise.all(dumps.map(resolveContent));
+    },
+
+    async countDumps(query) {
+      return (await store.all<Dump>('dumps')).filter(dump => matchesDumpQuery(dump, query)).length;
+    },
+
+    async searchDumps(query, { tag, types, createdAfter, createdBefore, limit = 20, offset = 0 }) {
+      const terms = searchTerms(query);
+      if (terms.length === 0) return [];
+
+      const dumps = (await store.all<Dump>('dumps')).filter(dump =>
+        matchesDumpQuery(dump, { tag, types, excludeType: 'voice', createdAfter, createdBefore })
+      );
+      const comments = (await store.all<Comment>('comments')).filter(comment => !comment.removed_at);
+
+      const hits: SearchHit[] = [];
+      for (const dump of dumps) {
+        const title = dump.title ?? '';
+        const dumpText = [title, dump.type === 'text' ? dump.content : ''].filter(Boolean).join(' — ');
+        // Title matches weigh more, like setweight(..., 'A') in search_dumps()
+        const dumpScore = termHits(dumpText, terms) + termHits(title, terms);
+
+        const bestComment = comments
+          .filter(comment => comment.dump_id === dump.id)
+          .map(comment => ({ comment, score: termHits(comment.content, terms) }))
+          .filter(({ score }) => score > 0)
+          .sort((a, b) => b.score - a.score)[0];
+
+        if (dumpScore === 0 && !bestComment) continue;
+        hits.push({
+          dump: await resolveContent(dump),
+          rank: dumpScore * 2 + (bestComment?.score ?? 0),
+          snippet: dumpScore > 0
+            ? highlightSnippet(dumpText, terms)
+            : highlightSnippet(bestComment!.comment.content, terms),
+          matchedIn: dumpScore > 0 ? 'dump' : 'comment'
+        });
+      }
+
+      return hits
+        .sort((a, b) => b.rank - a.rank || b.dump.created_at.localeCompare(a.dump.created_at))
+        .slice(offset, offset + limit);
+    },
+
+    async randomDump({ excludeIds, weighting = 'uniform', tags, types, minRating, createdAfter }) {
+      const excluded = new Set(excludeIds);
+      const candidates = (await store.all<Dump>('dumps')).filter(dump =>
+        matchesDumpQuery(dump, { excludeType: 'voice', types: types?.length ? types : undefined, createdAfter }) &&
+        !excluded.has(dump.id) &&
+        (!tags?.length || tags.some(tag => dump.tags.includes(tag))) &&
+        (minRating === undefined || dump.rating >= minRating)
+      );
+
+      // Same weighted draw as random_dump(): the smallest -ln(u) / weight wins
+      let picked: Dump | null = null;
+      let best = Infinity;
+      for (const dump of candidates) {
+        const key = -Math.log(1 - Math.random()) / randomWeight(dump, weighting);
+        if (key < best) {
+          best = key;
+          picked = dump;
+        }
+      }
+      return picked ? resolveContent(picked) : null;
+    },
+
+    async listCategories() {
+      const dumps = (await store.all<Dump>('dumps'))
+        .filter(dump => matchesDumpQuery(dump, { excludeType: 'voice' }));
+      return DEFAULT_CATEGORIES.map(category => ({
+        ...category,
+        dump_count: dumps.filter(dump => dump.tags.includes(category.slug)).length
+      }));
+    },
+
+    async submitDump(submission) {
+      const now = new Date().toISOString();
+      const dump: Dump = {
+        id: crypto.randomUUID(),
+        upvotes: 0,
+        downvotes: 0,
+        rating: 0,
+        share_count: 0,
+        created_at: now,
+        ...validateSubmission(submission),
+        // Like set_initial_dump_status(), the client never picks the status
+        status: premoderation ? 'pending' : 'visible',
+        status_changed_at: now,
+        removed_at: null
+      };
+      await store.put('dumps', dump);
+
+      const resolved = await resolveContent(dump);
+      if (resolved.status === 'visible') {
+        realtime.publish(FEED_TOPIC, { type: 'dump_inserted', dump: resolved });
+      }
+      return resolved;
+    },
+
+    async castVote(target, id, deviceId, vote) {
+      const table = target === 'dump' ? 'dumps' : 'comments';
+      const row = await store.get<Dump | Comment>(table, id);
+      // Like cast_vote(), only visible dumps take votes
+      if (!row || (target === 'dump' && (row as Dump).status !== 'visible')) throw new ServiceError('not_found', 'Vote target not found');
+
+      const ratingOf = (voted: Dump | Comment) => (target === 'dump' ? (voted as Dump).rating : null);
+      const key = ledgerKey(target, id, deviceId);
+      const previous = (await store.get<StoredVote>('votes', key))?.vote ?? null;
+      if (previous === vote) return { upvotes: row.upvotes, downvotes: row.downvotes, rating: ratingOf(row), vote };
+
+      if (vote) {
+        await store.put<StoredVote>('votes', { id: key, target_type: target, target_id: id, device_id: deviceId, vote });
+      } else {
+        await store.delete('votes', key);
+      }
+
+      const updated = applyVote(row, previous, vote);
+      if (target === 'dump') {
+        (updated as Dump).rating = computeRating(updated.upvotes, updated.downvotes);
+      }
+      await store.put(table, updated);
+
+      if (target === 'dump') {
+        const { upvotes, downvotes, rating } = updated as Dump;
+        realtime.publish(id, { type: 'dump_votes', id, upvotes, downvotes, rating });
+      } else {
+        realtime.publish((updated as Comment).dump_id, { type: 'comment_updated', comment: updated as Comment });
+      }
+
+      return { upvotes: updated.upvotes, downvotes: updated.downvotes, rating: ratingOf(updated), vote };
+    },
+
+    async getDeviceVotes(target, ids, deviceId) {
+      const votes = await Promise.all(ids.map(id => store.get<StoredVote>('votes', ledgerKey(target, id, deviceId))));
+      return Object.fromEntries(votes.filter(Boolean).map(vote => [vote!.target_id, vote!.vote]));
+    },
+
+    async recordShare(dumpId) {
+      const dump = await store.get<Dump>('dumps', dumpId);
+      // Like record_share(), only visible dumps are counted
+      if (!dump || dump.status !== 'visible') throw new ServiceError('not_found', 'Dump not found');
+      // Dumps stored before share counts existed have none yet
+      const shareCount = (dump.share_count ?? 0) + 1;
+      await store.put<Dump>('dumps', { ...dump, share_count: shareCount });
+      return shareCount;
+    },
+
+    async reportTarget(target, id, deviceId, reason, details) {
+      const table = target === 'dump' ? 'dumps' : 'comments';
+      if (!(await store.get(table, id))) throw new ServiceError('not_found', 'Report target not found');
+
+      const key = ledgerKey(target, id, deviceId);
+      const alreadyReported = Boolean(await store.get<StoredReport>('reports', key));
+      if (!alreadyReported) {
+        await store.put<StoredReport>('reports', {
+          id: key,
+          target_type: target,
+          target_id: id,
+          device_id: deviceId,
+          reason,
+          details: details?.trim() || null,
+          created_at: new Date().toISOString()
+        });
+      }
+
+      if (target !== 'dump') return { alreadyReported, hidden: false };
+
+      let dump = await store.get<Dump>('dumps', id);
+      const reportCount = (await store.all<StoredReport>('reports'))
+        .filter(report => report.target_type === 'dump' && report.target_id === id).length;
+      if (dump.status === 'visible' && reportCount >= reportHideThreshold) {
+        dump = withStatus(dump, 'hidden');
+        await store.put('dumps', dump);
+        realtime.publish(FEED_TOPIC, { type: 'dump_status', id, status: dump.status });
+      }
+
+      return { alreadyReported, hidden: dump.status !== 'visible' };
+    },
+
+    async getSession() {
+      return session;
+    },
+
+    async signIn(email, password) {
+      if (!email.trim() || !password) throw new ServiceError('validation', 'Email and password are required');
+      session = { userId: 'local-moderator', email: email.trim(), isModerator: true };
+      return session;
+    },
+
+    async signOut() {
+      session = null;
+    },
+
+    async getModerationQueue(view) {
+      requireModerator();
+
+      const reports = await store.all<StoredReport>('reports');
+      const groups = new Map<string, StoredReport[]>();
+      reports.forEach(report => {
+        const key = `${report.target_type}:${report.target_id}`;
+        groups.set(key, [...(groups.get(key) || []), report]);
+      });
+
+      // Same selection as moderation_queue(): live reported targets, or dumps by status
+      const targets: { target_type: ReportTarget; target_id: string }[] = view === 'reported'
+        ? Array.from(groups.values(), group => group[0])
+        : (await store.all<Dump>('dumps'))
+          .filter(dump => dump.status === view)
+          .map(dump => ({ target_type: 'dump' as const, target_id: dump.id }));
+
+      const items: ModerationItem[] = [];
+      for (const { target_type, target_id } of targets) {
+        const comment = target_type === 'comment' ? await store.get<Comment>('comments', target_id) : undefined;
+        const dump = await store.get<Dump>('dumps', comment ? comment.dump_id : target_id);
+        if (!dump || (target_type === 'comment' && !comment)) continue;
+        if (view === 'reported' && target_type === 'dump' && !['visible', 'hidden'].includes(dump.status)) continue;
+
+        const group = groups.get(`${target_type}:${target_id}`) || [];
+        const sorted = [...group].sort((a, b) => b.created_at.localeCompare(a.created_at));
+        const reasons: ModerationItem['reasons'] = {};
+        group.forEach(report => {
+          reasons[report.reason] = (reasons[report.reason] || 0) + 1;
+        });
+
+        items.push({
+          target_type,
+          target_id,
+          dump_id: dump.id,
+          dump_type: dump.type,
+          title: target_type === 'dump' ? dump.title ?? null : null,
+          content: comment ? comment.content : (await resolveContent(dump)).content,
+          status: dump.status,
+          report_count: group.length,
+          reasons,
+          details: sorted.map(report => report.details).filter(Boolean),
+          last_reported_at: sorted[0]?.created_at ?? dump.status_changed_at
+        });
+      }
+
+      return items.sort((a, b) =>
+        b.report_count - a.report_count || b.last_reported_at.localeCompare(a.last_reported_at)
+      );
+    },
+
+    async moderate(target, id, action) {
+      requireModerator();
+
+      if (['approve', 'hide', 'restore', 'remove'].includes(action) && target !== 'dump') {
+        throw new ServiceError('validation', 'Only dumps have a visibility status');
+      }
+      if (action === 'delete' && target !== 'comment') {
+        throw new ServiceError('validation', 'Dumps are removed, not deleted');
+      }
+
+      switch (action) {
+        case 'approve':
+          await setStatus(id, 'visible');
+          break;
+        case 'hide':
+          await setStatus(id, 'hidden');
+          break;
+        case 'restore':
+          await setStatus(id, 'visible');
+          await clearReports(target, id);
+          break;
+        case 'remove': {
+          const dump = await store.get<Dump>('dumps', id);
+          if (dump?.status === 'visible') await setStatus(id, 'hidden');
+          await setStatus(id, 'removed');
+          await clearReports(target, id);
+          break;
+        }
+        case 'delete':
+          await removeComment(id);
+          await clearReports(target, id);
+          break;
+        case 'dismiss':
+          await clearReports(target, id);
+          break;
+      }
+    },
+
+    async purgeDump(id) {
+      requireModerator();
+
+      const dump = await store.get<Dump>('dumps', id);
+      if (!dump) throw new ServiceError('not_found', 'Dump not found');
+      if (dump.status !== 'removed') throw new ServiceError('validation', 'Only removed dumps can be purged');
+
+      for (const url of [dump.content, dump.thumbnail_url, dump.poster_url]) {
+        if (!url?.startsWith(FILE_URL_PREFIX)) continue;
+        const fileId = url.slice(FILE_URL_PREFIX.length);
+        const objectUrl = objectUrls.get(fileId);
+        if (objectUrl) URL.revokeObjectURL(objectUrl);
+        objectUrls.delete(fileId);
+        await store.delete('files', fileId);
+      }
+      await store.delete('dumps', id);
+    },
+
+    async listComments(dumpId) {
+      if (!(await canSeeComments(dumpId))) return [];
+      return (await store.all<Comment>('comments'))
+        .filter(comment => comment.dump_id === dumpId)
+        .sort((a, b) => a.created_at.localeCompare(b.created_at));
+    },
+
+    async insertComment(insert) {
+      if (!(await canSeeComments(insert.dump_id))) {
+        throw new ServiceError('forbidden', "This dump can't be commented on");
+      }
+      // Mirrors check_comment_parent()
+      if (insert.parent_id) {
+        const parent = await store.get<Comment>('comments', insert.parent_id);
+        if (!parent || parent.dump_id !== insert.dump_id) throw new ServiceError('not_found', 'Parent comment not found on this dump');
+        if (parent.removed_at) throw new ServiceError('validation', 'Cannot reply to a removed comment');
+      }
+
+      const comment: Comment = {
+        id: crypto.randomUUID(),
+        created_at: new Date().toISOString(),
+        upvotes: 0,
+        downvotes: 0,
+        ...insert,
+        parent_id: insert.parent_id ?? null,
+        removed_at: null
+      };
+      await store.put('comments', comment);
+      realtime.publish(comment.dump_id, { type: 'comment_inserted', comment });
+      return comment;
+    },
+
+    async deleteComment(id) {
+      // Like the "Moderators can delete comments" policy
+      requireModerator();
+      await removeComment(id);
+    },
+
+    subscribeToDump(dumpId, listener) {
+      return realtime.subscribe(dumpId, listener);
+    },
+
+    subscribeToFeed(listener) {
+      return realtime.subscribe(FEED_TOPIC, listener);
+    },
+
+    async uploadFile(bucket, fileName, file) {
+      // Mirrors the storage bucket limits set in the upload_limits migration
+      const limit = Object.values(UPLOAD_LIMITS).find(candidate => candidate.bucket === bucket);
+      if (!limit) throw new ServiceError('validation', `Unknown bucket ${bucket}`);
+      if (!limit.mimeTypes.includes(file.type)) throw new ServiceError('validation', `${file.type || 'This file type'} is not allowed in ${bucket}`);
+      if (file.size > limit.maxBytes) throw new ServiceError('validation', 'The object exceeded the maximum allowed size');
+
+      const id = crypto.randomUUID();
+      await store.put<StoredFile>('files', { id, bucket, name: fileName, blob: file });
+      return `${FILE_URL_PREFIX}${id}`;
+    }
+  };
+};
@@ -0,0 +1,92 @@
+// Minimal table store used by the local backend. IndexedDB when the browser
+// has it, a plain Map otherwise (tests, SSR, private windows that block IDB).
+
+// history is the visitor's seen-dump list and is kept whichever backend is active
+export type LocalTable = 'dumps' | 'comments' | 'files' | 'votes' | 'reports' | 'history';
+
+const TABLES: LocalTable[] = ['dumps', 'comments', 'files', 'votes', 'reports', 'history'];
+const DB_NAME = 'dumpspace-local';
+// Bump whenever TABLES grows so onupgradeneeded creates the new stores
+const DB_VERSION = 4;
+
+export interface LocalStore {
+  all<T>(table: LocalTable): Promise<T[]>;
+  get<T>(table: LocalTable, id: string): Promise<T | undefined>;
+  put<T extends { id: string }>(table: LocalTable, row: T): Promise<void>;
+  delete(table: LocalTable, id: string): Promise<void>;
+  clear(table: LocalTable): Promise<void>;
+}
+
+export const createMemoryStore = (): LocalStore => {
+  const tables = new Map<LocalTable, Map<string, unknown>>(
+    TABLES.map(table => [table, new Map()])
+  );
+
+  return {
+    async all<T>(table: LocalTable) {
+      return Array.from(tables.get(table)!.values()) as T[];
+    },
+    async get<T>(table: LocalTable, id: string) {
+      return tables.get(table)!.get(id) as T | undefined;
+    },
+    async put(table, row) {
+      tables.get(table)!.set(row.id, row);
+    },
+    async delete(table, id) {
+      tables.get(table)!.delete(id);
+    },
+    async clear(table) {
+      tables.get(table)!.clear();
+    }
+  };
+};
+
+// Wrap an IDBRequest in a promise
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      TABLES.forEach(table => {
+        if (!db.objectStoreNames.contains(table)) {
+          db.createObjectStore(table, { keyPath: 'id' });
+        }
+      });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const createIndexedDbStore = (): LocalStore => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const objectStore = async (table: LocalTable, mode: IDBTransactionMode) => {
+    dbPromise ??= openDatabase();
+    const db = await dbPromise;
+    return db.transaction(table, mode).objectStore(table);
+  };
+
+  return {
+    async all<T>(table: LocalTable) {
+      return promisify((await objectStore(table, 'readonly')).getAll()) as Promise<T[]>;
+    },
+    async get<T>(table: LocalTable, id: string) {
+      return promisify((await objectStore(table, 'readonly')).get(id)) as Promise<T | undefined>;
+    },
+    async put(table, row) {
+      await promisify((await objectStore(table, 'readwrite')).put(row));
+    },
+    async delete(table, id) {
+      await promisify((await objectStore(table, 'readwrite')).delete(id));
+    },
+    async clear(table) {
+      await promisify((await objectStore(table, 'readwrite')).clear());
+    }
+  };
+};
@@ -0,0 +1,32 @@
+import type { RealtimeEvent, RealtimeListener } from './types';
+
+// In-process stand-in for Supabase Realtime. The local backends publish to it
+// after every write, and tests can share one hub between several backends.
+// Topic for site-wide dump events; per-dump events use the dump id
+export const FEED_TOPIC = 'feed';
+
+export interface RealtimeHub {
+  publish(dumpId: string, event: RealtimeEvent): void;
+  subscribe(dumpId: string, listener: RealtimeListener): () => void;
+}
+
+export const createRealtimeHub = (): RealtimeHub => {
+  const listeners = new Map<string, Set<RealtimeListener>>();
+
+  return {
+    publish(dumpId, event) {
+      listeners.get(dumpId)?.forEach(listener => listener(event));
+    },
+
+    subscribe(dumpId, listener) {
+      const forDump = listeners.get(dumpId) ?? new Set<RealtimeListener>();
+      forDump.add(listener);
+      listeners.set(dumpId, forDump);
+
+      return () => {
+        forDump.delete(listener);
+        if (forDump.size === 0) listeners.delete(dumpId);
+      };
+    }
+  };
+};
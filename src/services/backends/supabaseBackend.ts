@@ -0,0 +1,372 @@
+import { getSupabase } from '@/lib/supabase';
+import { ServiceError, fromPostgrestError, toServiceError } from '@/services/errors';
+import type { Comment, Dump } from '@/services/supabaseService';
+import type { RealtimeChannel, User } from '@supabase/supabase-js';
+import type {
+  AuthSession,
+  Category,
+  DataBackend,
+  DumpQuery,
+  ModerationItem,
+  RealtimeListener,
+  SearchHit,
+  VoteDirection,
+  VoteResult
+} from './types';
+
+type FilterBuilder = ReturnType<ReturnType<ReturnType<typeof getSupabase>['from']>['select']>;
+
+// Apply the shared DumpQuery filters to a Supabase query builder
+const applyDumpQuery = (
+  query: FilterBuilder,
+  { ids, tag, statuses, types, excludeType, createdAfter, createdBefore }: DumpQuery
+): FilterBuilder => {
+  query = query.in('status', statuses ?? ['visible']);
+  if (ids) query = query.in('id', ids);
+  if (tag) query = query.contains('tags', [tag]);
+  if (types) query = query.in('type', types);
+  if (excludeType) query = query.neq('type', excludeType);
+  if (createdAfter) query = query.gte('created_at', createdAfter);
+  if (createdBefore) query = query.lt('created_at', createdBefore);
+  return query;
+};
+
+// Public URLs look like .../storage/v1/object/public/<bucket>/<path>
+const storageObjectFromUrl = (url: string): { bucket: string; path: string } | null => {
+  const match = url.match(/\/storage\/v1\/object\/public\/([^/]+)\/(.+)$/);
+  return match ? { bucket: match[1], path: decodeURIComponent(match[2]) } : null;
+};
+
+// Moderator status lives in the database, not in the auth token
+const toSession = async (user: User): Promise<AuthSession> => {
+  const { data, error } = await getSupabase().rpc('is_moderator');
+  if (error) throw fromPostgrestError(error);
+  return { userId: user.id, email: user.email ?? null, isModerator: Boolean(data) };
+};
+
+// Comments and vote totals of one dump
+const openDumpChannel = (dumpId: string, listener: RealtimeListener): RealtimeChannel =>
+  getSupabase()
+    .channel(`dump:${dumpId}`)
+    .on(
+      'postgres_changes',
+      { event: 'INSERT', schema: 'public', table: 'comments', filter: `dump_id=eq.${dumpId}` },
+      payload => listener({ type: 'comment_inserted', comment: payload.new as Comment })
+    )
+    .on(
+      'postgres_changes',
+      { event: 'UPDATE', schema: 'public', table: 'comments', filter: `dump_id=eq.${dumpId}` },
+      payload => listener({ type: 'comment_updated', comment: payload.new as Comment })
+    )
+    // Realtime can't filter DELETE events, so this hears deletes on every dump.
+    // That's why only dumps someone has open get a channel (see DumpCard).
+    .on(
+      'postgres_changes',
+      { event: 'DELETE', schema: 'public', table: 'comments' },
+      payload => listener({ type: 'comment_deleted', id: (payload.old as { id: string }).id })
+    )
+    .on(
+      'postgres_changes',
+      { event: 'UPDATE', schema: 'public', table: 'dumps', filter: `id=eq.${dumpId}` },
+      payload => {
+        const { id, upvotes, downvotes, rating } = payload.new as Dump;
+        listener({ type: 'dump_votes', id, upvotes, downvotes, rating });
+      }
+    )
+    .subscribe();
+
+// One channel per dump, shared by everything showing it (a card and its
+// comments section) and closed when the last of them unsubscribes
+const dumpChannels = new Map<string, { channel: RealtimeChannel; listeners: Set<RealtimeListener> }>();
+
+export const createSupabaseBackend = (): DataBackend => ({
+  name: 'supabase',
+
+  async listDumps(query) {
+    let request = applyDumpQuery(getSupabase().from('dumps').select('*'), query);
+    if (query.orderBy) {
+      const ascending = query.ascending ?? false;
+      if (query.after) {
+        // (column, id) past the cursor; values are quoted for timestamps
+        const op = ascending ? 'gt' : 'lt';
+        const value = `"${query.after.value}"`;
+        request = request.or(
+          `${query.orderBy}.${op}.${value},and(${query.orderBy}.eq.${value},id.${op}.${query.after.id})`
+        );
+      }
+      request = request.order(query.orderBy, { ascending }).order('id', { ascending });
+    }
+    if (query.limit) request = request.limit(query.limit);
+
+    const { data, error } = await request;
+    if (error) throw fromPostgrestError(error);
+    return (data || []) as Dump[];
+  },
+
+  async countDumps(query) {
+    const { count, error } = await applyDumpQuery(
+      getSupabase().from('dumps').select('*', { count: 'exact', head: true }),
+      query
+    );
+    if (error) throw fromPostgrestError(error);
+    return count || 0;
+  },
+
+  async searchDumps(query, { tag, types, createdAfter, createdBefore, limit = 20, offset = 0 }) {
+    const { data, error } = await getSupabase().rpc('search_dumps', {
+      p_query: query,
+      p_tag: tag ?? null,
+      p_types: types ?? null,
+      p_created_after: createdAfter ?? null,
+      p_created_before: createdBefore ?? null,
+      p_limit: limit,
+      p_offset: offset
+    });
+
+    if (error) throw fromPostgrestError(error);
+    return ((data || []) as { dump: Dump; rank: number; snippet: string | null; matched_in: SearchHit['matchedIn'] }[])
+      .map(row => ({ dump: row.dump, rank: row.rank, snippet: row.snippet, matchedIn: row.matched_in }));
+  },
+
+  async randomDump({ excludeIds, weighting = 'uniform', tags, types, minRating, createdAfter }) {
+    const { data, error } = await getSupabase()
+      .rpc('random_dump', {
+        p_exclude: excludeIds,
+        p_weighting: weighting,
+        p_tags: tags?.length ? tags : null,
+        p_types: types?.length ? types : null,
+        p_min_rating: minRating ?? null,
+        p_created_after: createdAfter ?? null
+      })
+      .maybeSingle();
+
+    if (error) throw fromPostgrestError(error);
+    return (data as Dump | null) ?? null;
+  },
+
+  async listCategories() {
+    const { data, error } = await getSupabase().rpc('category_counts');
+    if (error) throw fromPostgrestError(error);
+    return (data || []) as Category[];
+  },
+
+  async submitDump(dump) {
+    // anon has no INSERT grant on dumps; submit_dump() validates and inserts
+    const { data, error } = await getSupabase()
+      .rpc('submit_dump', {
+        p_type: dump.type,
+        p_content: dump.content,
+        p_tags: dump.tags,
+        p_title: dump.title,
+        p_thumbnail_url: dump.thumbnail_url ?? null,
+        p_placeholder: dump.placeholder ?? null,
+        p_media_width: dump.media_width ?? null,
+        p_media_height: dump.media_height ?? null,
+        p_poster_url: dump.poster_url ?? null,
+        p_duration_ms: dump.duration_ms ?? null
+      })
+      .single();
+
+    if (error) throw fromPostgrestError(error);
+    return data as Dump;
+  },
+
+  async castVote(target, id, deviceId, vote) {
+    const { data, error } = await getSupabase()
+      .rpc('cast_vote', {
+        p_target_type: target,
+        p_target_id: id,
+        p_device_id: deviceId,
+        p_vote: vote
+      })
+      .single();
+
+    if (error) throw fromPostgrestError(error);
+    return data as VoteResult;
+  },
+
+  async getDeviceVotes(target, ids, deviceId) {
+    if (ids.length === 0) return {};
+
+    const { data, error } = await getSupabase().rpc('get_device_votes', {
+      p_target_type: target,
+      p_target_ids: ids,
+      p_device_id: deviceId
+    });
+
+    if (error) throw fromPostgrestError(error);
+    return Object.fromEntries(
+      (data as { target_id: string; vote: VoteDirection }[] || []).map(row => [row.target_id, row.vote])
+    );
+  },
+
+  async recordShare(dumpId) {
+    const { data, error } = await getSupabase().rpc('record_share', { p_dump_id: dumpId });
+    if (error) throw fromPostgrestError(error);
+    return data;
+  },
+
+  async reportTarget(target, id, deviceId, reason, details) {
+    const { data, error } = await getSupabase()
+      .rpc('report_target', {
+        p_target_type: target,
+        p_target_id: id,
+        p_device_id: deviceId,
+        p_reason: reason,
+        p_details: details ?? null
+      })
+      .single();
+
+    if (error) throw fromPostgrestError(error);
+    const row = data as { already_reported: boolean; hidden: boolean };
+    return { alreadyReported: row.already_reported, hidden: row.hidden };
+  },
+
+  async getSession() {
+    const { data: { session }, error } = await getSupabase().auth.getSession();
+    if (error) throw toServiceError(error, error.message);
+    return session ? toSession(session.user) : null;
+  },
+
+  async signIn(email, password) {
+    const { data, error } = await getSupabase().auth.signInWithPassword({ email, password });
+    if (error) throw toServiceError(error, error.message);
+    return toSession(data.user);
+  },
+
+  async signOut() {
+    const { error } = await getSupabase().auth.signOut();
+    if (error) throw toServiceError(error, error.message);
+  },
+
+  async getModerationQueue(view) {
+    const { data, error } = await getSupabase().rpc('moderation_queue', { p_view: view });
+    if (error) throw fromPostgrestError(error);
+    return (data || []) as ModerationItem[];
+  },
+
+  async moderate(target, id, action) {
+    const { error } = await getSupabase().rpc('moderate_target', {
+      p_target_type: target,
+      p_target_id: id,
+      p_action: action
+    });
+    if (error) throw fromPostgrestError(error);
+  },
+
+  async purgeDump(id) {
+    const supabase = getSupabase();
+    const { data: dump, error: fetchError } = await supabase
+      .from('dumps')
+      .select('type, content, thumbnail_url, poster_url, status')
+      .eq('id', id)
+      .single();
+
+    if (fetchError) throw fromPostgrestError(fetchError);
+    if (dump.status !== 'removed') throw new ServiceError('validation', 'Only removed dumps can be purged');
+
+    // Media goes first: a row without media is harmless, orphaned media is not.
+    // Thumbnails share the media's bucket; video posters are in the image bucket.
+    const objects = dump.type !== 'text'
+      ? [dump.content, dump.thumbnail_url, dump.poster_url].filter(Boolean).map(storageObjectFromUrl).filter(Boolean)
+      : [];
+    const pathsByBucket = new Map<string, string[]>();
+    for (const { bucket, path } of objects) {
+      pathsByBucket.set(bucket, [...(pathsByBucket.get(bucket) ?? []), path]);
+    }
+    for (const [bucket, paths] of pathsByBucket) {
+      const { error: storageError } = await supabase.storage.from(bucket).remove(paths);
+      if (storageError) throw toServiceError(storageError, storageError.message);
+    }
+
+    const { error } = await supabase.from('dumps').delete().eq('id', id);
+    if (error) throw fromPostgrestError(error);
+  },
+
+  async listComments(dumpId) {
+    const { data, error } = await getSupabase()
+      .from('comments')
+      .select('*')
+      .eq('dump_id', dumpId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw fromPostgrestError(error);
+    return data || [];
+  },
+
+  async insertComment(comment) {
+    const { data, error } = await getSupabase()
+      .from('comments')
+      .insert(comment)
+      .select()
+      .single();
+
+    if (error) throw fromPostgrestError(error);
+    return data;
+  },
+
+  async deleteComment(id) {
+    const { error } = await getSupabase().from('comments').delete().eq('id', id);
+    if (error) throw fromPostgrestError(error);
+  },
+
+  subscribeToDump(dumpId, listener) {
+    let shared = dumpChannels.get(dumpId);
+    if (!shared) {
+      const listeners = new Set<RealtimeListener>();
+      const channel = openDumpChannel(dumpId, event => listeners.forEach(subscriber => subscriber(event)));
+      shared = { channel, listeners };
+      dumpChannels.set(dumpId, shared);
+    }
+    const { channel, listeners } = shared;
+    listeners.add(listener);
+
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size > 0 || dumpChannels.get(dumpId)?.channel !== channel) return;
+      dumpChannels.delete(dumpId);
+      getSupabase().removeChannel(channel);
+    };
+  },
+
+  subscribeToFeed(listener) {
+    const supabase = getSupabase();
+    const channel = supabase
+      .channel(`feed:${crypto.randomUUID()}`)
+      // RLS keeps pending inserts out of anon feeds
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'dumps' },
+        payload => listener({ type: 'dump_inserted', dump: payload.new as Dump })
+      )
+      // Vote updates are frequent, so only listen for dumps leaving the visible state
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'dumps', filter: 'status=neq.visible' },
+        payload => {
+          const { id, status } = payload.new as Dump;
+          listener({ type: 'dump_status', id, status });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  },
+
+  async uploadFile(bucket, fileName, file) {
+    const storage = getSupabase().storage.from(bucket);
+    // The bucket checks this against its allowed types
+    const { data, error } = await storage.upload(fileName, file, {
+      cacheControl: '3600',
+      contentType: file.type,
+      upsert: false
+    });
+
+    if (error) throw toServiceError(error, error.message);
+
+    const { data: { publicUrl } } = storage.getPublicUrl(data.path);
+    return publicUrl;
+  }
+});
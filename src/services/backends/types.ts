@@ -0,0 +1,213 @@
+import type { Dump, Comment, CommentInsert } from '@/services/supabaseService';
+
+export type DumpType = Dump['type'];
+export type DumpStatus = Dump['status'];
+export type VoteDirection = 'up' | 'down';
+export type VoteTarget = 'dump' | 'comment';
+export type ReportTarget = VoteTarget;
+export type ReportReason = 'spam' | 'harassment' | 'personal_info' | 'self_harm' | 'other';
+
+// Counts after a vote was applied, plus the device's resulting vote.
+// rating is recomputed by the server for dumps and null for comments.
+export interface VoteResult {
+  upvotes: number;
+  downvotes: number;
+  rating: number | null;
+  vote: VoteDirection | null;
+}
+
+// The only dump fields a client may choose; votes and status are server-side
+export interface DumpSubmission {
+  type: DumpType;
+  content: string;
+  tags: string[];
+  title: string | null;
+  // Media previews made at upload time (see services/media/previews)
+  thumbnail_url?: string | null;
+  placeholder?: string | null;
+  media_width?: number | null;
+  media_height?: number | null;
+  // Video only: a frame shown before playback
+  poster_url?: string | null;
+  // Voice and video: the length, held to the type's limit
+  duration_ms?: number | null;
+}
+
+// Outcome of a report: duplicates from the same device are ignored
+export interface ReportResult {
+  alreadyReported: boolean;
+  hidden: boolean;
+}
+
+// Changes pushed to open cards. Deletes only carry the id, and may be for a
+// comment on another dump, so listeners ignore ids they don't know.
+export type RealtimeEvent =
+  | { type: 'comment_inserted'; comment: Comment }
+  | { type: 'comment_updated'; comment: Comment }
+  | { type: 'comment_deleted'; id: string }
+  | { type: 'dump_votes'; id: string; upvotes: number; downvotes: number; rating: number }
+  // Feed events: a new visible dump, or a dump whose status changed
+  | { type: 'dump_inserted'; dump: Dump }
+  | { type: 'dump_status'; id: string; status: DumpStatus };
+
+export type RealtimeListener = (event: RealtimeEvent) => void;
+
+// approve/hide/restore/remove move a dump through its status lifecycle,
+// delete is for comments, dismiss clears reports without other changes
+export type ModerationAction = 'approve' | 'hide' | 'restore' | 'remove' | 'delete' | 'dismiss';
+export type ModerationView = 'reported' | 'pending' | 'removed';
+
+// Signed-in user; only moderators may use the moderation methods
+export interface AuthSession {
+  userId: string;
+  email: string | null;
+  isModerator: boolean;
+}
+
+// A reported dump or comment with its aggregated reports
+export interface ModerationItem {
+  target_type: ReportTarget;
+  target_id: string;
+  dump_id: string;
+  dump_type: DumpType;
+  title: string | null;
+  content: string;
+  status: DumpStatus;
+  report_count: number;
+  reasons: Partial<Record<ReportReason, number>>;
+  details: string[];
+  last_reported_at: string;
+}
+
+// Keyset position in an ordered listing: the sort column's value and the id
+// of the last dump already shown. Ties on the column are broken by id.
+export interface DumpCursor {
+  value: string | number;
+  id: string;
+}
+
+// Filters shared by every dump listing in the service layer. Only visible
+// dumps are returned unless other statuses are asked for.
+export interface DumpQuery {
+  ids?: string[];
+  tag?: string;
+  statuses?: DumpStatus[];
+  types?: DumpType[];
+  excludeType?: DumpType;
+  createdAfter?: string;
+  createdBefore?: string;
+  orderBy?: 'created_at' | 'upvotes';
+  ascending?: boolean;
+  // Only dumps strictly after this position in the orderBy order (requires orderBy)
+  after?: DumpCursor;
+  limit?: number;
+}
+
+// How random_dump() biases its pick: evenly, toward recent dumps, or toward
+// well-rated ones
+export type RandomWeighting = 'uniform' | 'fresh' | 'top';
+
+// Narrowing for random_dump(); unset filters don't restrict the pool
+export interface RandomDumpOptions {
+  excludeIds: string[];
+  weighting?: RandomWeighting;
+  tags?: string[]; // any of these
+  types?: DumpType[];
+  minRating?: number;
+  createdAfter?: string;
+}
+
+// Color tokens allowed by categories.color; the UI maps them to classes
+export type CategoryColor = 'yellow' | 'purple' | 'green' | 'blue' | 'pink' | 'orange' | 'gray' | 'red' | 'indigo';
+
+// An active category with the number of visible, non-voice dumps tagged with it
+export interface Category {
+  slug: string;
+  name: string;
+  color: CategoryColor;
+  description: string | null;
+  sort_order: number;
+  dump_count: number;
+}
+
+// Search filters on top of the query text. Voice memos are never searched.
+export interface SearchFilters {
+  tag?: string;
+  types?: DumpType[];
+  createdAfter?: string;
+  createdBefore?: string;
+  limit?: number;
+  offset?: number;
+}
+
+// A ranked search match. The snippet comes from the dump or, when only a
+// comment matched, from that comment.
+export interface SearchHit {
+  dump: Dump;
+  rank: number;
+  snippet: string | null;
+  matchedIn: 'dump' | 'comment';
+}
+
+// Highlighted terms in snippets are wrapped in these control characters
+// rather than markup, so user text can't smuggle in HTML
+export const SNIPPET_MARK_START = '\u0002';
+export const SNIPPET_MARK_END = '\u0003';
+
+// Everything supabaseService needs from a data source. Implementations throw
+// ServiceErrors where they know the cause (see services/errors); the service
+// layer classifies anything else and decides how to surface it.
+export interface DataBackend {
+  name: 'supabase' | 'local';
+
+  // Dumps
+  listDumps(query: DumpQuery): Promise<Dump[]>;
+  countDumps(query: DumpQuery): Promise<number>;
+  searchDumps(query: string, filters: SearchFilters): Promise<SearchHit[]>;
+  // A random visible, non-voice dump matching the options and not in
+  // excludeIds; null when none is left
+  randomDump(options: RandomDumpOptions): Promise<Dump | null>;
+
+  // Categories - active ones in display order, counted in one round trip
+  listCategories(): Promise<Category[]>;
+  // Validated like submit_dump(); throws with a readable message when invalid
+  submitDump(dump: DumpSubmission): Promise<Dump>;
+
+  // Votes - one per device and target; a null vote retracts it
+  castVote(target: VoteTarget, id: string, deviceId: string, vote: VoteDirection | null): Promise<VoteResult>;
+  getDeviceVotes(target: VoteTarget, ids: string[], deviceId: string): Promise<Record<string, VoteDirection>>;
+
+  // Shares - bumps a visible dump's share count and returns the new total
+  recordShare(dumpId: string): Promise<number>;
+
+  // Reports
+  reportTarget(
+    target: ReportTarget,
+    id: string,
+    deviceId: string,
+    reason: ReportReason,
+    details?: string
+  ): Promise<ReportResult>;
+
+  // Moderation
+  getSession(): Promise<AuthSession | null>;
+  signIn(email: string, password: string): Promise<AuthSession>;
+  signOut(): Promise<void>;
+  getModerationQueue(view: ModerationView): Promise<ModerationItem[]>;
+  moderate(target: ReportTarget, id: string, action: ModerationAction): Promise<void>;
+  // Final removal: deletes a removed dump's media and row
+  purgeDump(id: string): Promise<void>;
+
+  // Comments
+  listComments(dumpId: string): Promise<Comment[]>;
+  insertComment(comment: CommentInsert): Promise<Comment>;
+  deleteComment(id: string): Promise<void>;
+
+  // Realtime - comments and vote totals for one dump; returns an unsubscribe function
+  subscribeToDump(dumpId: string, listener: RealtimeListener): () => void;
+  // New dumps and status changes across the site, for the live feed
+  subscribeToFeed(listener: RealtimeListener): () => void;
+
+  // Uploads - returns a URL the UI can render directly
+  uploadFile(bucket: string, fileName: string, file: File): Promise<string>;
+}
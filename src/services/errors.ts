@@ -0,0 +1,81 @@
+// What went wrong, in terms the UI can act on:
+//   network      - the backend couldn't be reached
+//   not_found    - the dump, comment or page asked for doesn't exist (anymore)
+//   rate_limited - too many requests; wait and try again
+//   validation   - the input was rejected
+//   forbidden    - the caller isn't allowed to do this
+//   unknown      - anything else the backend reported
+export type ServiceErrorKind = 'network' | 'not_found' | 'rate_limited' | 'validation' | 'forbidden' | 'unknown';
+
+// Backends throw these when they know the cause; anything else they throw is
+// classified by toServiceError
+export class ServiceError extends Error {
+  readonly kind: ServiceErrorKind;
+
+  constructor(kind: ServiceErrorKind, message: string) {
+    super(message);
+    this.name = 'ServiceError';
+    this.kind = kind;
+  }
+
+  // Worth repeating as is; the other kinds need something to change first
+  get retryable(): boolean {
+    return this.kind === 'network' || this.kind === 'rate_limited' || this.kind === 'unknown';
+  }
+}
+
+// What reads return instead of throwing: the data, or a classified error
+// whose message is ready to show
+export type ServiceResult<T> =
+  | { success: true; data: T }
+  | { success: false; message: string; error: ServiceError };
+
+const NETWORK_MESSAGE = "Can't reach the server. Check your connection and try again.";
+const RATE_LIMIT_MESSAGE = 'Too many requests. Wait a moment and try again.';
+
+// fetch() rejects with a TypeError whose wording differs per browser
+const NETWORK_FAILURE = /failed to fetch|networkerror|load failed|network request failed|fetch failed/i;
+const RATE_LIMIT = /rate limit|too many requests/i;
+
+export const toServiceError = (error: unknown, fallback: string): ServiceError => {
+  if (error instanceof ServiceError) return error;
+
+  const message = error instanceof Error ? error.message : '';
+  if ((typeof navigator !== 'undefined' && !navigator.onLine) || NETWORK_FAILURE.test(message)) {
+    return new ServiceError('network', NETWORK_MESSAGE);
+  }
+  if (RATE_LIMIT.test(message)) return new ServiceError('rate_limited', RATE_LIMIT_MESSAGE);
+  return new ServiceError('unknown', message || fallback);
+};
+
+// Postgres and PostgREST codes. The SQL functions raise 22023 for invalid
+// input, 42501 when not allowed and P0002 when the target is missing.
+export const fromPostgrestError = (error: { message: string; code?: string }): ServiceError => {
+  switch (error.code) {
+    case '22023':
+    case '22001':
+    case '23502':
+    case '23514':
+      return new ServiceError('validation', error.message);
+    case '42501':
+    case 'PGRST301':
+    case 'PGRST302':
+      return new ServiceError('forbidden', error.message);
+    case 'P0002':
+    case 'PGRST116':
+      return new ServiceError('not_found', error.message);
+    default:
+      return toServiceError(new Error(error.message), error.message);
+  }
+};
+
+export const ok = <T>(data: T): ServiceResult<T> => ({ success: true, data });
+
+export const fail = (error: unknown, fallback: string): { success: false; message: string; error: ServiceError } => {
+  const serviceError = toServiceError(error, fallback);
+  return { success: false, message: serviceError.message, error: serviceError };
+};
+
+// For query retries: only repeat requests that might succeed unchanged
+export const isRetryable = (error: unknown): boolean =>
+  !(error instanceof ServiceError) || error.retryable;
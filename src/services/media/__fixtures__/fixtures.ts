@@ -0,0 +1,13 @@
+import { readFileSync } from 'node:fs';
+
+// Markers generate.mjs writes into the fixtures' metadata
+export const TITLE = 'Secret title';
+export const LOCATION = '+37.7749-122.4194/';
+export const CAMERA = 'TestCam';
+export const XMP_MARKER = 'GPSLatitude';
+
+export const loadFixture = (name: string): Uint8Array =>
+  new Uint8Array(readFileSync(new URL(`./${name}`, import.meta.url)));
+
+export const containsText = (bytes: Uint8Array, text: string): boolean =>
+  Buffer.from(bytes).includes(Buffer.from(text, 'latin1'));
@@ -0,0 +1,313 @@
+// Writes the small media files the media tests strip. Every file carries the
+// kinds of metadata prepareMedia removes: EXIF GPS coordinates, XMP, titles,
+// location tags and creation times. The marker strings below are what the
+// tests look for afterwards.
+//
+//   node src/services/media/__fixtures__/generate.mjs
+
+import { writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { crc32 } from 'node:zlib';
+import jpeg from 'jpeg-js';
+import { PNG } from 'pngjs';
+import { GifWriter } from 'omggif';
+
+const OUT = dirname(fileURLToPath(import.meta.url));
+
+export const TITLE = 'Secret title';
+export const LOCATION = '+37.7749-122.4194/';
+const XMP = `<x:xmpmeta xmlns:x="adobe:ns:meta/"><rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#"><rdf:Description xmlns:exif="http://ns.adobe.com/exif/1.0/" exif:GPSLatitude="37,46.494N"/></rdf:RDF></x:xmpmeta>`;
+
+const text = (value) => Buffer.from(value, 'latin1');
+const u16be = (value) => Buffer.from([(value >> 8) & 0xff, value & 0xff]);
+const u32be = (value) => {
+  const out = Buffer.alloc(4);
+  out.writeUInt32BE(value >>> 0);
+  return out;
+};
+
+// A little-endian TIFF block with a camera make and a GPS IFD at 37°46'29.64"N
+// 122°25'9.84"W, as found in EXIF
+const exifTiff = () => {
+  const out = Buffer.alloc(148);
+  out.write('II*\0', 0, 'latin1');
+  out.writeUInt32LE(8, 4);
+  const entry = (offset, tag, type, count, value) => {
+    out.writeUInt16LE(tag, offset);
+    out.writeUInt16LE(type, offset + 2);
+    out.writeUInt32LE(count, offset + 4);
+    if (typeof value === 'string') out.write(value, offset + 8, 'latin1');
+    else out.writeUInt32LE(value, offset + 8);
+  };
+  // IFD0: Make and the GPS pointer
+  out.writeUInt16LE(2, 8);
+  entry(10, 0x010f, 2, 8, 38);
+  entry(22, 0x8825, 4, 1, 46);
+  out.writeUInt32LE(0, 34);
+  out.write('TestCam\0', 38, 'latin1');
+  // GPS IFD
+  out.writeUInt16LE(4, 46);
+  entry(48, 0x0001, 2, 2, 'N\0');
+  entry(60, 0x0002, 5, 3, 100);
+  entry(72, 0x0003, 2, 2, 'W\0');
+  entry(84, 0x0004, 5, 3, 124);
+  out.writeUInt32LE(0, 96);
+  [37, 1, 46, 1, 2964, 100, 122, 1, 25, 1, 984, 100].forEach((value, i) => out.writeUInt32LE(value, 100 + i * 4));
+  return out;
+};
+
+const pixels = (width, height) => {
+  const data = Buffer.alloc(width * height * 4);
+  for (let i = 0; i < width * height; i++) data.set([(i * 40) % 256, 128, 255 - ((i * 40) % 256), 255], i * 4);
+  return data;
+};
+
+const jpegSegment = (marker, data) => Buffer.concat([Buffer.from([0xff, marker]), u16be(data.length + 2), data]);
+
+const photoJpg = () => {
+  const encoded = jpeg.encode({ width: 8, height: 8, data: pixels(8, 8) }, 90).data;
+  return Buffer.concat([
+    encoded.subarray(0, 2),
+    jpegSegment(0xe1, Buffer.concat([text('Exif\0\0'), exifTiff()])),
+    jpegSegment(0xe1, Buffer.concat([text('http://ns.adobe.com/xap/1.0/\0'), text(XMP)])),
+    encoded.subarray(2)
+  ]);
+};
+
+const pngChunk = (type, data) => {
+  const body = Buffer.concat([text(type), data]);
+  return Buffer.concat([u32be(data.length), body, u32be(crc32(body))]);
+};
+
+const photoPng = () => {
+  const encoded = PNG.sync.write(Object.assign(new PNG({ width: 2, height: 2 }), { data: pixels(2, 2) }));
+  // Signature and IHDR, then the metadata, then the rest
+  const afterHeader = 8 + 25;
+  return Buffer.concat([
+    encoded.subarray(0, afterHeader),
+    pngChunk('eXIf', exifTiff()),
+    pngChunk('tEXt', text(`Title\0${TITLE}`)),
+    pngChunk('iTXt', Buffer.concat([text('XML:com.adobe.xmp\0\0\0\0\0'), text(XMP)])),
+    pngChunk('tIME', Buffer.from([0x07, 0xe8, 1, 2, 3, 4, 5])),
+    encoded.subarray(afterHeader)
+  ]);
+};
+
+const riffChunk = (type, data) =>
+  Buffer.concat([text(type), Buffer.from(new Uint32Array([data.length]).buffer), data, data.length % 2 ? Buffer.alloc(1) : Buffer.alloc(0)]);
+
+// A 1x1 lossless WebP (the one feature tests use), wrapped in VP8X with EXIF
+// and XMP chunks
+const photoWebp = () => {
+  const lossless = Buffer.from('UklGRhoAAABXRUJQVlA4TA0AAAAvAAAAEAcQERGIiP4HAA==', 'base64');
+  const vp8x = Buffer.alloc(10);
+  vp8x[0] = 0x08 | 0x04;
+  const chunks = Buffer.concat([
+    riffChunk('VP8X', vp8x),
+    lossless.subarray(12),
+    riffChunk('EXIF', exifTiff()),
+    riffChunk('XMP ', text(XMP))
+  ]);
+  return Buffer.concat([text('RIFF'), Buffer.from(new Uint32Array([chunks.length + 4]).buffer), text('WEBP'), chunks]);
+};
+
+const gifSubBlocks = (data) => {
+  const parts = [];
+  for (let i = 0; i < data.length; i += 255) {
+    const block = data.subarray(i, i + 255);
+    parts.push(Buffer.from([block.length]), block);
+  }
+  parts.push(Buffer.from([0]));
+  return Buffer.concat(parts);
+};
+
+// Two looping 2x2 frames, plus a comment and an XMP application extension
+const animationGif = () => {
+  const buffer = Buffer.alloc(1024);
+  const writer = new GifWriter(buffer, 2, 2, { palette: [0x000000, 0xff0000], loop: 0 });
+  writer.addFrame(0, 0, 2, 2, [0, 1, 1, 0], { delay: 10 });
+  writer.addFrame(0, 0, 2, 2, [1, 0, 0, 1], { delay: 10 });
+  const encoded = buffer.subarray(0, writer.end());
+  // Header, logical screen descriptor and the two-color global table
+  const afterHeader = 6 + 7 + 6;
+  return Buffer.concat([
+    encoded.subarray(0, afterHeader),
+    Buffer.from([0x21, 0xfe]),
+    gifSubBlocks(text(`Shot at ${LOCATION}`)),
+    Buffer.from([0x21, 0xff, 0x0b]),
+    text('XMP DataXMP'),
+    gifSubBlocks(text(XMP)),
+    encoded.subarray(afterHeader)
+  ]);
+};
+
+const box = (type, ...children) => {
+  const body = Buffer.concat(children);
+  return Buffer.concat([u32be(body.length + 8), text(type), body]);
+};
+const fullBox = (type, version, flags, ...children) => box(type, Buffer.from([version, 0, 0, flags]), ...children);
+
+// Timestamps the tests expect to find zeroed: 2024-05-01 in the 1904 epoch
+const MP4_TIME = 3797481600;
+const MATRIX = Buffer.concat([0x00010000, 0, 0, 0, 0x00010000, 0, 0, 0, 0x40000000].map(u32be));
+
+// One silent audio track's worth of boxes, with a location and an iTunes
+// title in udta
+const clipMp4 = () =>
+  Buffer.concat([
+    box('ftyp', text('isom'), u32be(0x200), text('isomiso2mp41')),
+    box(
+      'moov',
+      fullBox('mvhd', 0, 0, u32be(MP4_TIME), u32be(MP4_TIME), u32be(1000), u32be(1000), u32be(0x00010000), u16be(0x0100), Buffer.alloc(10), MATRIX, Buffer.alloc(24), u32be(2)),
+      box(
+        'trak',
+        fullBox('tkhd', 0, 3, u32be(MP4_TIME), u32be(MP4_TIME), u32be(1), u32be(0), u32be(1000), Buffer.alloc(8), u16be(0), u16be(0), u16be(0x0100), u16be(0), MATRIX, u32be(0), u32be(0)),
+        box(
+          'mdia',
+          fullBox('mdhd', 0, 0, u32be(MP4_TIME), u32be(MP4_TIME), u32be(48000), u32be(48000), u16be(0x55c4), u16be(0)),
+          fullBox('hdlr', 0, 0, u32be(0), text('soun'), Buffer.alloc(12), text('\0')),
+          box(
+            'minf',
+            fullBox('smhd', 0, 0, u32be(0)),
+            box('dinf', fullBox('dref', 0, 0, u32be(1), fullBox('url ', 0, 1))),
+            box(
+              'stbl',
+              fullBox('stsd', 0, 0, u32be(0)),
+              fullBox('stts', 0, 0, u32be(0)),
+              fullBox('stsc', 0, 0, u32be(0)),
+              fullBox('stsz', 0, 0, u32be(0), u32be(0)),
+              fullBox('stco', 0, 0, u32be(0))
+            )
+          )
+        )
+      ),
+      box(
+        'udta',
+        box('\xa9xyz', u16be(LOCATION.length), u16be(0x15c7), text(LOCATION)),
+        fullBox(
+          'meta',
+          0,
+          0,
+          fullBox('hdlr', 0, 0, u32be(0), text('mdir'), text('appl'), Buffer.alloc(8), text('\0')),
+          box('ilst', box('\xa9nam', box('data', u32be(1), u32be(0), text(TITLE))))
+        )
+      )
+    ),
+    box('mdat', Buffer.alloc(16))
+  ]);
+
+// EBML sizes, always written as 8 bytes to keep the builder simple
+const ebmlSize = (length) => {
+  const out = Buffer.alloc(8);
+  out.writeBigUInt64BE(BigInt(length));
+  out[0] = 0x01;
+  return out;
+};
+const element = (id, ...children) => {
+  const body = Buffer.concat(children);
+  return Buffer.concat([Buffer.from(id), ebmlSize(body.length), body]);
+};
+const uint = (value, length = 1) => {
+  const out = Buffer.alloc(length);
+  out.writeUIntBE(value, 0, length);
+  return out;
+};
+const int64 = (value) => {
+  const out = Buffer.alloc(8);
+  out.writeBigInt64BE(value);
+  return out;
+};
+const float = (value) => {
+  const out = Buffer.alloc(8);
+  out.writeDoubleBE(value);
+  return out;
+};
+
+// An audio-only WebM with a title and creation date in Info and a location tag
+const clipWebm = () =>
+  Buffer.concat([
+    element(
+      [0x1a, 0x45, 0xdf, 0xa3],
+      element([0x42, 0x86], uint(1)),
+      element([0x42, 0xf7], uint(1)),
+      element([0x42, 0xf2], uint(4)),
+      element([0x42, 0xf3], uint(8)),
+      element([0x42, 0x82], text('webm')),
+      element([0x42, 0x87], uint(4)),
+      element([0x42, 0x85], uint(2))
+    ),
+    element(
+      [0x18, 0x53, 0x80, 0x67],
+      element(
+        [0x15, 0x49, 0xa9, 0x66],
+        element([0x2a, 0xd7, 0xb1], uint(1000000, 3)),
+        element([0x4d, 0x80], text('fixture')),
+        element([0x57, 0x41], text('fixture')),
+        element([0x44, 0x89], float(1000)),
+        element([0x44, 0x61], int64(768000000000000000n)),
+        element([0x7b, 0xa9], text(TITLE))
+      ),
+      element(
+        [0x16, 0x54, 0xae, 0x6b],
+        element(
+          [0xae],
+          element([0xd7], uint(1)),
+          element([0x73, 0xc5], uint(1)),
+          element([0x83], uint(2)),
+          element([0x86], text('A_OPUS')),
+          element([0xe1], element([0xb5], float(48000)), element([0x9f], uint(1)))
+        )
+      ),
+      element(
+        [0x12, 0x54, 0xc3, 0x67],
+        element(
+          [0x73, 0x73],
+          element([0x63, 0xc0]),
+          element([0x67, 0xc8], element([0x45, 0xa3], text('LOCATION')), element([0x44, 0x87], text(LOCATION)))
+        )
+      ),
+      element([0x1f, 0x43, 0xb6, 0x75], element([0xe7], uint(0)))
+    )
+  ]);
+
+const id3Frame = (id, data) => Buffer.concat([text(id), u32be(data.length), Buffer.alloc(2), data]);
+const syncsafe = (value) => Buffer.from([(value >> 21) & 0x7f, (value >> 14) & 0x7f, (value >> 7) & 0x7f, value & 0x7f]);
+const padded = (value, length) => Buffer.concat([text(value), Buffer.alloc(length - value.length)]);
+
+// Ten silent 128 kbps MPEG-1 Layer III frames between an ID3v2 tag (title and
+// a GPS TXXX frame) and an ID3v1 tag
+const clipMp3 = () => {
+  const frames = Buffer.concat([
+    id3Frame('TIT2', Buffer.concat([Buffer.from([0]), text(TITLE)])),
+    id3Frame('TXXX', Buffer.concat([Buffer.from([0]), text('GPS\0'), text(LOCATION)]))
+  ]);
+  const frame = Buffer.alloc(417);
+  frame.set([0xff, 0xfb, 0x90, 0x64]);
+  return Buffer.concat([
+    text('ID3'),
+    Buffer.from([3, 0, 0]),
+    syncsafe(frames.length),
+    frames,
+    ...Array(10).fill(frame),
+    text('TAG'),
+    padded(TITLE, 30),
+    padded(LOCATION, 30),
+    Buffer.alloc(30),
+    text('2024'),
+    Buffer.alloc(30),
+    Buffer.from([255])
+  ]);
+};
+
+const fixtures = {
+  'photo.jpg': photoJpg(),
+  'photo.png': photoPng(),
+  'photo.webp': photoWebp(),
+  'animation.gif': animationGif(),
+  'clip.mp4': clipMp4(),
+  'clip.webm': clipWebm(),
+  'clip.mp3': clipMp3()
+};
+
+for (const [name, bytes] of Object.entries(fixtures)) writeFileSync(join(OUT, name), bytes);
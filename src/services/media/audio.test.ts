@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { parseBuffer } from 'music-metadata';
+import { ascii, MalformedMediaError } from './binary';
+import { isMp3, stripMp3 } from './audio';
+import { containsText, loadFixture, LOCATION, TITLE } from './__fixtures__/fixtures';
+
+describe('stripMp3', () => {
+  it('cuts off the ID3v2 and ID3v1 tags', async () => {
+    const original = loadFixture('clip.mp3');
+    expect((await parseBuffer(original, { mimeType: 'audio/mpeg' })).common.title).toBe(TITLE);
+
+    const stripped = stripMp3(original);
+
+    expect([stripped[0], stripped[1]]).toEqual([0xff, 0xfb]);
+    expect(ascii(stripped, stripped.length - 128, 3)).not.toBe('TAG');
+    expect(containsText(stripped, 'ID3')).toBe(false);
+    expect(containsText(stripped, TITLE)).toBe(false);
+    expect(containsText(stripped, LOCATION)).toBe(false);
+  });
+
+  it('still parses as the same audio', async () => {
+    const original = await parseBuffer(loadFixture('clip.mp3'), { mimeType: 'audio/mpeg' }, { duration: true });
+    const stripped = await parseBuffer(stripMp3(loadFixture('clip.mp3')), { mimeType: 'audio/mpeg' }, { duration: true });
+
+    expect(stripped.format.container).toBe('MPEG');
+    expect(stripped.common.title).toBeUndefined();
+    expect(stripped.format.duration).toBeCloseTo(original.format.duration!, 2);
+  });
+
+  it('refuses tags with no audio after them', () => {
+    const original = loadFixture('clip.mp3');
+    const tagEnd = original.indexOf(0xff);
+    expect(isMp3(original.subarray(0, tagEnd))).toBe(true);
+    expect(() => stripMp3(original.subarray(0, tagEnd))).toThrow(MalformedMediaError);
+  });
+});
@@ -0,0 +1,154 @@
+import { ascii, concat, MalformedMediaError, readUint32LE, writeUint32LE } from './binary';
+
+// MP3: ID3v2 tags at the start, ID3v1 and APEv2 tags at the end. Frames sync
+// on their own, so the tags are simply cut off.
+export const isMp3 = (bytes: Uint8Array): boolean =>
+  ascii(bytes, 0, 3) === 'ID3' || (bytes[0] === 0xff && (bytes[1] & 0xe0) === 0xe0);
+
+const APE_FOOTER_LENGTH = 32;
+
+export const stripMp3 = (bytes: Uint8Array): Uint8Array => {
+  let start = 0;
+  while (ascii(bytes, start, 3) === 'ID3') {
+    // Sync-safe size: 7 bits per byte
+    const size = (bytes[start + 6] << 21) | (bytes[start + 7] << 14) | (bytes[start + 8] << 7) | bytes[start + 9];
+    const hasFooter = (bytes[start + 5] & 0x10) !== 0;
+    start += 10 + size + (hasFooter ? 10 : 0);
+  }
+
+  let end = bytes.length;
+  if (end - 128 >= start && ascii(bytes, end - 128, 3) === 'TAG') end -= 128;
+  if (end - APE_FOOTER_LENGTH >= start && ascii(bytes, end - APE_FOOTER_LENGTH, 8) === 'APETAGEX') {
+    const tagSize = readUint32LE(bytes, end - APE_FOOTER_LENGTH + 12);
+    const hasHeader = (readUint32LE(bytes, end - APE_FOOTER_LENGTH + 20) & 0x80000000) !== 0;
+    end -= tagSize + (hasHeader ? APE_FOOTER_LENGTH : 0);
+  }
+
+  if (start >= end || bytes[start] !== 0xff || (bytes[start + 1] & 0xe0) !== 0xe0) {
+    throw new MalformedMediaError('No MP3 audio after the tags');
+  }
+  return bytes.slice(start, end);
+};
+
+// WAV: RIFF chunks nothing points into, so metadata chunks are dropped and
+// the RIFF size fixed up
+const WAV_METADATA_CHUNKS = new Set(['LIST', 'id3 ', 'ID3 ', 'bext', 'iXML', '_PMX', 'cart']);
+
+export const isWav = (bytes: Uint8Array): boolean => ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WAVE';
+
+export const stripWav = (bytes: Uint8Array): Uint8Array => {
+  if (!isWav(bytes)) throw new MalformedMediaError('Not a WAV file');
+
+  const parts = [bytes.slice(0, 12)];
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const type = ascii(bytes, offset, 4);
+    const size = readUint32LE(bytes, offset + 4);
+    const end = Math.min(offset + 8 + size + (size % 2), bytes.length);
+    if (!WAV_METADATA_CHUNKS.has(type)) parts.push(bytes.subarray(offset, end));
+    offset = end;
+  }
+
+  const out = concat(parts);
+  writeUint32LE(out, 4, out.length - 8);
+  return out;
+};
+
+// FLAC: keeps the stream info, padding, seek table and cue sheet blocks and
+// drops Vorbis comments, pictures and application data
+const FLAC_KEPT_BLOCKS = new Set([0, 1, 3, 5]);
+
+export const isFlac = (bytes: Uint8Array): boolean => ascii(bytes, 0, 4) === 'fLaC';
+
+export const stripFlac = (bytes: Uint8Array): Uint8Array => {
+  if (!isFlac(bytes)) throw new MalformedMediaError('Not a FLAC file');
+
+  const blocks: Uint8Array[] = [];
+  let offset = 4;
+  let last = false;
+  while (!last) {
+    if (offset + 4 > bytes.length) throw new MalformedMediaError('Truncated FLAC metadata');
+    last = (bytes[offset] & 0x80) !== 0;
+    const type = bytes[offset] & 0x7f;
+    const length = (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3];
+    if (FLAC_KEPT_BLOCKS.has(type)) blocks.push(bytes.slice(offset, offset + 4 + length));
+    offset += 4 + length;
+  }
+  if (!blocks.length || (blocks[0][0] & 0x7f) !== 0) throw new MalformedMediaError('FLAC stream info is missing');
+
+  blocks.forEach((block, i) => {
+    block[0] = i === blocks.length - 1 ? block[0] | 0x80 : block[0] & 0x7f;
+  });
+  return concat([bytes.subarray(0, 4), ...blocks, bytes.subarray(offset)]);
+};
+
+// Ogg Opus (what Firefox records audio in). The comment header is swapped for
+// one with the same vendor string and no comments; the page holding it is
+// rebuilt and re-checksummed. Vorbis, and comment headers spread over several
+// pages (embedded cover art), aren't handled.
+const OGG_CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let crc = i << 24;
+    for (let bit = 0; bit < 8; bit++) crc = crc & 0x80000000 ? (crc << 1) ^ 0x04c11db7 : crc << 1;
+    table[i] = crc >>> 0;
+  }
+  return table;
+})();
+
+const oggCrc = (bytes: Uint8Array): number => {
+  let crc = 0;
+  for (const byte of bytes) crc = ((crc << 8) ^ OGG_CRC_TABLE[((crc >>> 24) ^ byte) & 0xff]) >>> 0;
+  return crc;
+};
+
+interface OggPage {
+  start: number;
+  end: number;
+  lacing: Uint8Array;
+  payloadStart: number;
+}
+
+const readOggPage = (bytes: Uint8Array, start: number): OggPage => {
+  if (ascii(bytes, start, 4) !== 'OggS') throw new MalformedMediaError('Invalid Ogg page');
+  const segmentCount = bytes[start + 26];
+  const lacing = bytes.subarray(start + 27, start + 27 + segmentCount);
+  const payloadStart = start + 27 + segmentCount;
+  const end = payloadStart + lacing.reduce((total, value) => total + value, 0);
+  if (end > bytes.length) throw new MalformedMediaError('Truncated Ogg page');
+  return { start, end, lacing, payloadStart };
+};
+
+export const isOgg = (bytes: Uint8Array): boolean => ascii(bytes, 0, 4) === 'OggS';
+
+export const stripOgg = (bytes: Uint8Array): Uint8Array => {
+  const head = readOggPage(bytes, 0);
+  if (ascii(bytes, head.payloadStart, 8) !== 'OpusHead') {
+    throw new MalformedMediaError('Only Opus audio in Ogg files can be cleaned');
+  }
+
+  const tags = readOggPage(bytes, head.end);
+  if (ascii(bytes, tags.payloadStart, 8) !== 'OpusTags') throw new MalformedMediaError('Missing Opus comment header');
+  const tagsEndsHere = tags.lacing.length > 0 && tags.lacing[tags.lacing.length - 1] < 255;
+  const singlePacket = tags.lacing.subarray(0, -1).every((value) => value === 255);
+  if (!tagsEndsHere || !singlePacket) throw new MalformedMediaError('The Opus comment header spans several pages');
+
+  const vendorLength = readUint32LE(bytes, tags.payloadStart + 8);
+  if (tags.payloadStart + 12 + vendorLength > tags.end) throw new MalformedMediaError('Invalid Opus comment header');
+  const packet = new Uint8Array(8 + 4 + vendorLength + 4);
+  packet.set(bytes.subarray(tags.payloadStart, tags.payloadStart + 12 + vendorLength));
+  // Comment count stays 0
+
+  const lacing = [...Array(Math.floor(packet.length / 255)).fill(255), packet.length % 255];
+  const page = new Uint8Array(27 + lacing.length + packet.length);
+  page.set(bytes.subarray(tags.start, tags.start + 26));
+  page[26] = lacing.length;
+  page.set(lacing, 27);
+  page.set(packet, 27 + lacing.length);
+  page.fill(0, 22, 26);
+  const crc = oggCrc(page);
+  page.set([crc & 0xff, (crc >>> 8) & 0xff, (crc >>> 16) & 0xff, crc >>> 24], 22);
+
+  return concat([bytes.subarray(0, head.end), page, bytes.subarray(tags.end)]);
+};
+
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import exifr from 'exifr';
+import { GifReader } from 'omggif';
+import { PNG } from 'pngjs';
+import { ascii, MalformedMediaError, readUint32BE, readUint32LE } from './binary';
+import { isAnimatedImage, stripGif, stripPng, stripWebp } from './images';
+import { CAMERA, containsText, loadFixture, LOCATION, TITLE, XMP_MARKER } from './__fixtures__/fixtures';
+
+const pngChunkTypes = (bytes: Uint8Array): string[] => {
+  const types: string[] = [];
+  for (let offset = 8; offset < bytes.length; offset += 12 + readUint32BE(bytes, offset)) {
+    types.push(ascii(bytes, offset + 4, 4));
+  }
+  return types;
+};
+
+const webpChunks = (bytes: Uint8Array): { type: string; data: Uint8Array }[] => {
+  const chunks: { type: string; data: Uint8Array }[] = [];
+  for (let offset = 12; offset + 8 <= bytes.length; ) {
+    const size = readUint32LE(bytes, offset + 4);
+    chunks.push({ type: ascii(bytes, offset, 4), data: bytes.subarray(offset + 8, offset + 8 + size) });
+    offset += 8 + size + (size % 2);
+  }
+  return chunks;
+};
+
+const gifFrames = (bytes: Uint8Array): Uint8Array[] => {
+  const reader = new GifReader(bytes);
+  return Array.from({ length: reader.numFrames() }, (_, i) => {
+    const pixels = new Uint8Array(reader.width * reader.height * 4);
+    reader.decodeAndBlitFrameRGBA(i, pixels);
+    return pixels;
+  });
+};
+
+describe('stripPng', () => {
+  it('removes EXIF, text, XMP and timestamp chunks', async () => {
+    const original = loadFixture('photo.png');
+    expect(await exifr.gps(original)).toMatchObject({ latitude: expect.any(Number) });
+
+    const stripped = stripPng(original);
+
+    expect(pngChunkTypes(stripped)).toEqual(['IHDR', 'IDAT', 'IEND']);
+    expect(await exifr.gps(stripped)).toBeUndefined();
+    for (const marker of [CAMERA, TITLE, XMP_MARKER]) expect(containsText(stripped, marker)).toBe(false);
+  });
+
+  it('leaves the pixels as they were', () => {
+    const original = loadFixture('photo.png');
+    const decoded = PNG.sync.read(Buffer.from(stripPng(original)));
+    expect(decoded.data).toEqual(PNG.sync.read(Buffer.from(original)).data);
+  });
+
+  it('refuses truncated files', () => {
+    expect(() => stripPng(loadFixture('photo.png').subarray(0, 60))).toThrow(MalformedMediaError);
+  });
+});
+
+describe('stripWebp', () => {
+  it('removes EXIF and XMP chunks and the flags announcing them', () => {
+    const original = loadFixture('photo.webp');
+    expect(webpChunks(original).map((chunk) => chunk.type)).toEqual(['VP8X', 'VP8L', 'EXIF', 'XMP ']);
+
+    const stripped = stripWebp(original);
+    const chunks = webpChunks(stripped);
+
+    expect(chunks.map((chunk) => chunk.type)).toEqual(['VP8X', 'VP8L']);
+    expect(chunks[0].data[0] & 0x0c).toBe(0);
+    for (const marker of [CAMERA, XMP_MARKER]) expect(containsText(stripped, marker)).toBe(false);
+  });
+
+  it('keeps the image data and a valid RIFF size', () => {
+    const original = loadFixture('photo.webp');
+    const stripped = stripWebp(original);
+
+    expect(readUint32LE(stripped, 4)).toBe(stripped.length - 8);
+    expect(webpChunks(stripped)[1].data).toEqual(webpChunks(original)[1].data);
+  });
+
+  it('refuses files that are not WebP', () => {
+    expect(() => stripWebp(loadFixture('photo.png'))).toThrow(MalformedMediaError);
+  });
+});
+
+describe('stripGif', () => {
+  it('removes comments and XMP but keeps the loop extension', () => {
+    const original = loadFixture('animation.gif');
+    expect(containsText(original, LOCATION)).toBe(true);
+
+    const stripped = stripGif(original);
+
+    expect(containsText(stripped, LOCATION)).toBe(false);
+    expect(containsText(stripped, XMP_MARKER)).toBe(false);
+    expect(containsText(stripped, 'NETSCAPE2.0')).toBe(true);
+    expect(new GifReader(stripped).loopCount()).toBe(0);
+  });
+
+  it('keeps every frame', () => {
+    const original = loadFixture('animation.gif');
+    const stripped = stripGif(original);
+
+    expect(isAnimatedImage(stripped)).toBe(true);
+    expect(gifFrames(stripped)).toEqual(gifFrames(original));
+  });
+
+  it('refuses files without a trailer', () => {
+    const original = loadFixture('animation.gif');
+    expect(() => stripGif(original.subarray(0, original.length - 1))).toThrow(MalformedMediaError);
+  });
+});
@@ -0,0 +1,201 @@
+import { ascii, concat, MalformedMediaError, readUint32BE, readUint32LE, startsWith, writeUint32LE } from './binary';
+
+// Still images are redrawn on a canvas and encoded again, which keeps nothing
+// but the pixels. Browsers apply the EXIF orientation when decoding, so the
+// photo still comes out upright.
+export const loadImage = (blob: Blob): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(blob);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new MalformedMediaError('This browser could not read the image'));
+    };
+    image.src = url;
+  });
+
+// What photos are converted to: the first format the browser can encode
+export const IMAGE_FORMATS = ['image/webp', 'image/avif', 'image/jpeg'];
+
+const encodeCanvas = (canvas: HTMLCanvasElement, type: string, quality: number): Promise<Blob | null> =>
+  new Promise((resolve) => canvas.toBlob(resolve, type, quality));
+
+// Encodes to the first of the formats the browser actually produces; browsers
+// without an encoder for a format hand back a PNG instead
+export const encodeCanvasAs = async (canvas: HTMLCanvasElement, types: string[], quality: number): Promise<Blob> => {
+  const context = canvas.getContext('2d');
+  for (const type of types) {
+    if (type === 'image/jpeg' && context) {
+      // JPEG has no alpha; transparent areas would otherwise turn black
+      context.globalCompositeOperation = 'destination-over';
+      context.fillStyle = '#ffffff';
+      context.fillRect(0, 0, canvas.width, canvas.height);
+    }
+    const encoded = await encodeCanvas(canvas, type, quality);
+    if (encoded?.type === type) return encoded;
+  }
+  throw new Error('Could not encode the image');
+};
+
+// A canvas holding the source scaled down to fit maxDimension
+export const drawScaled = (
+  source: CanvasImageSource,
+  width: number,
+  height: number,
+  maxDimension: number
+): HTMLCanvasElement => {
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width * scale));
+  canvas.height = Math.max(1, Math.round(height * scale));
+
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas is not available');
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+export interface ReencodeOptions {
+  // Longest side in pixels; larger images are scaled down to fit
+  maxDimension: number;
+  // Formats to try in order (see encodeCanvasAs)
+  types: string[];
+  quality: number;
+}
+
+export const reencodeImage = async (blob: Blob, { maxDimension, types, quality }: ReencodeOptions): Promise<Blob> => {
+  const image = await loadImage(blob);
+  const canvas = drawScaled(image, image.naturalWidth, image.naturalHeight, maxDimension);
+  return encodeCanvasAs(canvas, types, quality);
+};
+
+// PNG, WebP and GIF keep metadata in chunks of their own, so those chunks are
+// dropped instead of re-encoding, which would flatten animations to one frame
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+// EXIF, text (XMP is an iTXt chunk) and the last-modified time
+const PNG_METADATA_CHUNKS = new Set(['eXIf', 'tEXt', 'zTXt', 'iTXt', 'tIME']);
+
+export const stripPng = (bytes: Uint8Array): Uint8Array => {
+  if (!startsWith(bytes, PNG_SIGNATURE)) throw new MalformedMediaError('Not a PNG file');
+
+  const parts = [bytes.subarray(0, PNG_SIGNATURE.length)];
+  let offset = PNG_SIGNATURE.length;
+  while (offset < bytes.length) {
+    if (offset + 12 > bytes.length) throw new MalformedMediaError('Truncated PNG chunk');
+    const length = readUint32BE(bytes, offset);
+    const type = ascii(bytes, offset + 4, 4);
+    const end = offset + 12 + length;
+    if (end > bytes.length) throw new MalformedMediaError('Truncated PNG chunk');
+
+    if (!PNG_METADATA_CHUNKS.has(type)) parts.push(bytes.subarray(offset, end));
+    offset = end;
+    if (type === 'IEND') break;
+  }
+  return concat(parts);
+};
+
+export const isAnimatedPng = (bytes: Uint8Array): boolean => {
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 8 <= bytes.length) {
+    const type = ascii(bytes, offset + 4, 4);
+    if (type === 'acTL') return true;
+    if (type === 'IDAT') return false;
+    offset += 12 + readUint32BE(bytes, offset);
+  }
+  return false;
+};
+
+// VP8X flags announcing the chunks removed below
+const WEBP_EXIF_FLAG = 0x08;
+const WEBP_XMP_FLAG = 0x04;
+
+export const stripWebp = (bytes: Uint8Array): Uint8Array => {
+  if (ascii(bytes, 0, 4) !== 'RIFF' || ascii(bytes, 8, 4) !== 'WEBP') throw new MalformedMediaError('Not a WebP file');
+
+  const parts = [bytes.slice(0, 12)];
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const type = ascii(bytes, offset, 4);
+    const size = readUint32LE(bytes, offset + 4);
+    // Chunks are padded to an even length
+    const end = offset + 8 + size + (size % 2);
+    if (offset + 8 + size > bytes.length) throw new MalformedMediaError('Truncated WebP chunk');
+
+    if (type === 'VP8X') {
+      const chunk = bytes.slice(offset, end);
+      chunk[8] &= ~(WEBP_EXIF_FLAG | WEBP_XMP_FLAG);
+      parts.push(chunk);
+    } else if (type !== 'EXIF' && type !== 'XMP ') {
+      parts.push(bytes.subarray(offset, Math.min(end, bytes.length)));
+    }
+    offset = end;
+  }
+
+  const out = concat(parts);
+  writeUint32LE(out, 4, out.length - 8);
+  return out;
+};
+
+export const isAnimatedWebp = (bytes: Uint8Array): boolean =>
+  ascii(bytes, 12, 4) === 'VP8X' && (bytes[20] & 0x02) !== 0;
+
+// Application extensions that drive playback; the rest (XMP, ICC profiles and
+// vendor data) and comment extensions are dropped
+const GIF_PLAYBACK_EXTENSIONS = new Set(['NETSCAPE2.0', 'ANIMEXTS1.0']);
+
+// Length of a run of data sub-blocks, including its zero terminator
+const gifSubBlocksLength = (bytes: Uint8Array, offset: number): number => {
+  let cursor = offset;
+  while (cursor < bytes.length && bytes[cursor] !== 0) cursor += bytes[cursor] + 1;
+  if (cursor >= bytes.length) throw new MalformedMediaError('Truncated GIF block');
+  return cursor + 1 - offset;
+};
+
+const gifColorTableLength = (packed: number): number => (packed & 0x80 ? 3 * 2 ** ((packed & 0x07) + 1) : 0);
+
+export const stripGif = (bytes: Uint8Array): Uint8Array => {
+  if (ascii(bytes, 0, 4) !== 'GIF8') throw new MalformedMediaError('Not a GIF file');
+
+  // Header, logical screen descriptor and global color table
+  let offset = 13 + gifColorTableLength(bytes[10]);
+  const parts = [bytes.subarray(0, offset)];
+
+  while (offset < bytes.length) {
+    const introducer = bytes[offset];
+    if (introducer === 0x3b) {
+      parts.push(bytes.subarray(offset, offset + 1));
+      return concat(parts);
+    }
+
+    let end: number;
+    let keep = true;
+    if (introducer === 0x2c) {
+      // Image descriptor, local color table, LZW code size, image data
+      const dataStart = offset + 10 + gifColorTableLength(bytes[offset + 9]) + 1;
+      end = dataStart + gifSubBlocksLength(bytes, dataStart);
+    } else if (introducer === 0x21) {
+      const label = bytes[offset + 1];
+      end = offset + 2 + gifSubBlocksLength(bytes, offset + 2);
+      if (label === 0xfe) keep = false;
+      if (label === 0xff) keep = GIF_PLAYBACK_EXTENSIONS.has(ascii(bytes, offset + 3, 11));
+    } else {
+      throw new MalformedMediaError('Unknown GIF block');
+    }
+
+    if (keep) parts.push(bytes.subarray(offset, end));
+    offset = end;
+  }
+  throw new MalformedMediaError('GIF has no trailer');
+};
+
+// Animations are never re-encoded or thumbnailed, which would freeze them
+export const isAnimatedImage = (bytes: Uint8Array): boolean =>
+  ascii(bytes, 0, 4) === 'GIF8' ||
+  (startsWith(bytes, PNG_SIGNATURE) && isAnimatedPng(bytes)) ||
+  (ascii(bytes, 8, 4) === 'WEBP' && isAnimatedWebp(bytes));
@@ -0,0 +1,103 @@
+import { describe, expect, it, vi } from 'vitest';
+import exifr from 'exifr';
+import { decode } from 'jpeg-js';
+import { ServiceError } from '@/services/errors';
+import { checkUploadLimits, prepareMedia } from './index';
+import { readAudioDuration } from './previews';
+import { CAMERA, containsText, loadFixture, LOCATION, TITLE } from './__fixtures__/fixtures';
+
+// Node has no canvas, so still images are re-encoded with jpeg-js instead:
+// like a canvas, it keeps the pixels and none of the metadata
+vi.mock('./images', async (importOriginal) => {
+  const jpeg = await import('jpeg-js');
+  return {
+    ...(await importOriginal<typeof import('./images')>()),
+    reencodeImage: async (blob: Blob) => {
+      const { width, height, data } = jpeg.decode(new Uint8Array(await blob.arrayBuffer()));
+      return new Blob([jpeg.encode({ width, height, data }, 82).data], { type: 'image/jpeg' });
+    }
+  };
+});
+
+// Node can't play media, so durations are whatever a test says they are
+vi.mock('./previews', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./previews')>()),
+  readAudioDuration: vi.fn(async () => null)
+}));
+
+const fixtureFile = (name: string, type: string, fileName = name) => new File([loadFixture(name)], fileName, { type });
+
+const bytesOf = async (file: File) => new Uint8Array(await file.arrayBuffer());
+
+describe('prepareMedia', () => {
+  it('re-encodes photos without their EXIF and GPS data', async () => {
+    const original = loadFixture('photo.jpg');
+    expect(await exifr.gps(original)).toMatchObject({ latitude: expect.any(Number) });
+
+    const prepared = await prepareMedia(fixtureFile('photo.jpg', 'image/jpeg'));
+    const bytes = await bytesOf(prepared);
+
+    expect(prepared.type).toBe('image/jpeg');
+    expect(await exifr.parse(bytes)).toBeUndefined();
+    expect(containsText(bytes, CAMERA)).toBe(false);
+    expect(decode(bytes)).toMatchObject({ width: 8, height: 8 });
+  });
+
+  it('strips animations instead of re-encoding them', async () => {
+    const prepared = await prepareMedia(fixtureFile('animation.gif', 'image/gif'));
+
+    expect(prepared.type).toBe('image/gif');
+    expect(containsText(await bytesOf(prepared), LOCATION)).toBe(false);
+  });
+
+  it('names and types files after what their bytes are', async () => {
+    const prepared = await prepareMedia(fixtureFile('clip.mp4', 'image/jpeg', 'clip.jpg'));
+
+    expect(prepared.name).toBe('clip.mp4');
+    expect(prepared.type).toBe('video/mp4');
+    expect(containsText(await bytesOf(prepared), TITLE)).toBe(false);
+  });
+
+  it('keeps the declared kind of WebM files', async () => {
+    const prepared = await prepareMedia(fixtureFile('clip.webm', 'audio/webm'));
+
+    expect(prepared.type).toBe('audio/webm');
+    expect(containsText(await bytesOf(prepared), LOCATION)).toBe(false);
+  });
+
+  it('strips MP3 tags', async () => {
+    const prepared = await prepareMedia(fixtureFile('clip.mp3', 'audio/mpeg'));
+
+    expect(prepared.type).toBe('audio/mpeg');
+    expect(containsText(await bytesOf(prepared), TITLE)).toBe(false);
+  });
+
+  it('refuses file types it cannot clean', async () => {
+    const file = new File(['just some text'], 'notes.txt', { type: 'text/plain' });
+
+    await expect(prepareMedia(file)).rejects.toThrow(ServiceError);
+    await expect(prepareMedia(file)).rejects.toThrow(/can't be checked/);
+  });
+
+  it('refuses malformed files', async () => {
+    const gif = loadFixture('animation.gif');
+    const file = new File([gif.subarray(0, gif.length - 1)], 'animation.gif', { type: 'image/gif' });
+
+    await expect(prepareMedia(file)).rejects.toThrow(/couldn't remove hidden location/);
+  });
+});
+
+describe('checkUploadLimits', () => {
+  it('refuses files posted as the wrong kind of dump', async () => {
+    const prepared = await prepareMedia(fixtureFile('clip.mp4', 'video/mp4'));
+
+    await expect(checkUploadLimits(prepared, 'image')).rejects.toThrow('This file is a video, not an image');
+  });
+
+  it('rounds lengths to whole seconds before showing minutes', async () => {
+    vi.mocked(readAudioDuration).mockResolvedValueOnce(359_600);
+    const prepared = await prepareMedia(fixtureFile('clip.mp3', 'audio/mpeg'));
+
+    await expect(checkUploadLimits(prepared, 'voice')).rejects.toThrow('This file is 6:00 long; voice notes can be up to 5:00.');
+  });
+});
@@ -0,0 +1,243 @@
+import { ServiceError } from '@/services/errors';
+import { ascii, MalformedMediaError, startsWith } from './binary';
+import { IMAGE_FORMATS, isAnimatedPng, isAnimatedWebp, reencodeImage, stripGif, stripPng, stripWebp, type ReencodeOptions } from './images';
+import { createImagePreview as readImage, createVideoPreview as readVideo, readAudioDuration } from './previews';
+import { mediaDumpTypeOf, UPLOAD_LIMITS, type MediaDumpType } from './limits';
+import { isIsoBmff, isoBmffBrand, stripIsoBmff } from './isoBmff';
+import { isMatroska, matroskaDocType, stripMatroska } from './matroska';
+import { isFlac, isMp3, isOgg, isWav, stripFlac, stripMp3, stripOgg, stripWav } from './audio';
+
+// Photos are scaled down so their longest side fits this, and converted to
+// the first format the browser can encode (WebP, AVIF, else JPEG)
+const IMAGE_ENCODING: ReencodeOptions = {
+  maxDimension: 2048,
+  types: IMAGE_FORMATS,
+  quality: 0.82
+};
+
+// Still images in an ISO base media wrapper, re-encoded through a canvas like
+// any other photo. Every browser decodes AVIF; HEIC only decodes in Safari.
+const HEIF_BRANDS = new Set(['heic', 'heix', 'heim', 'heis', 'hevc', 'hevx', 'mif1', 'msf1', 'avif', 'avis']);
+const AVIF_BRANDS = new Set(['avif', 'avis']);
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/avif': 'avif',
+  'image/gif': 'gif',
+  'audio/mp4': 'm4a',
+  'video/mp4': 'mp4',
+  'video/quicktime': 'mov',
+  'audio/webm': 'webm',
+  'video/webm': 'webm',
+  'audio/x-matroska': 'mka',
+  'video/x-matroska': 'mkv',
+  'audio/mpeg': 'mp3',
+  'audio/wav': 'wav',
+  'audio/flac': 'flac',
+  'audio/ogg': 'ogg'
+};
+
+const UNSUPPORTED_MESSAGE =
+  "This file type can't be checked for hidden location and device data, so it can't be posted. " +
+  'Use JPEG, PNG, WebP, AVIF or GIF for images, MP4, MOV or WebM for video, and MP3, M4A, WAV, FLAC, Ogg Opus or WebM for audio.';
+
+const HEIC_MESSAGE =
+  "This browser can't open HEIC photos, so it can't be cleaned and posted. " +
+  'Export the photo as JPEG (on iPhone: Settings > Camera > Formats > Most Compatible) or post it from Safari.';
+
+type Sanitized = { data: Blob | Uint8Array; type: string };
+
+// Audio and video containers keep the declared kind (a WebM can be either)
+// with the subtype the bytes actually are
+const mediaKind = (file: File, fallback: 'audio' | 'video'): 'audio' | 'video' => {
+  const declared = file.type.split('/')[0];
+  return declared === 'audio' || declared === 'video' ? declared : fallback;
+};
+
+const optimizeImage = async (file: File): Promise<Sanitized> => {
+  const data = await reencodeImage(file, IMAGE_ENCODING);
+  return { data, type: data.type };
+};
+
+const sanitizeBytes = async (file: File, bytes: Uint8Array): Promise<Sanitized> => {
+  if (startsWith(bytes, [0xff, 0xd8, 0xff]) || ascii(bytes, 0, 2) === 'BM') return optimizeImage(file);
+  // Animations are kept as they are, minus their metadata
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47])) {
+    return isAnimatedPng(bytes) ? { data: stripPng(bytes), type: 'image/png' } : optimizeImage(file);
+  }
+  if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WEBP') {
+    return isAnimatedWebp(bytes) ? { data: stripWebp(bytes), type: 'image/webp' } : optimizeImage(file);
+  }
+  if (ascii(bytes, 0, 4) === 'GIF8') return { data: stripGif(bytes), type: 'image/gif' };
+
+  if (isIsoBmff(bytes)) {
+    const brand = isoBmffBrand(bytes);
+    if (AVIF_BRANDS.has(brand)) return optimizeImage(file);
+    if (HEIF_BRANDS.has(brand)) {
+      return optimizeImage(file).catch((error) => {
+        throw error instanceof MalformedMediaError ? new ServiceError('validation', HEIC_MESSAGE) : error;
+      });
+    }
+    const kind = mediaKind(file, 'video');
+    const subtype = kind === 'video' && brand === 'qt  ' ? 'quicktime' : 'mp4';
+    return { data: stripIsoBmff(bytes), type: `${kind}/${subtype}` };
+  }
+  if (isMatroska(bytes)) {
+    const subtype = matroskaDocType(bytes) === 'webm' ? 'webm' : 'x-matroska';
+    return { data: stripMatroska(bytes), type: `${mediaKind(file, 'video')}/${subtype}` };
+  }
+
+  if (isWav(bytes)) return { data: stripWav(bytes), type: 'audio/wav' };
+  if (isFlac(bytes)) return { data: stripFlac(bytes), type: 'audio/flac' };
+  if (isOgg(bytes)) return { data: stripOgg(bytes), type: 'audio/ogg' };
+  // Last: an MP3 without tags only has a frame sync to go by
+  if (isMp3(bytes)) return { data: stripMp3(bytes), type: 'audio/mpeg' };
+
+  throw new ServiceError('validation', UNSUPPORTED_MESSAGE);
+};
+
+const formatMegabytes = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+// Files this module produced, so a file prepared for the upload preview isn't
+// processed a second time when it's uploaded
+const preparedFiles = new WeakSet<File>();
+
+// Posts are anonymous, but phone photos and recordings carry GPS coordinates,
+// device models and timestamps, and camera photos are far bigger than a card
+// shows. Returns a copy of the file without metadata (and for still images,
+// downscaled and recompressed), named and typed after what the bytes turned
+// out to be. Throws a validation ServiceError explaining why a file can't be
+// posted.
+export const prepareMedia = async (file: File): Promise<File> => {
+  if (preparedFiles.has(file)) return file;
+  const bytes = new Uint8Array(await file.arrayBuffer());
+
+  let sanitized: Sanitized;
+  try {
+    sanitized = await sanitizeBytes(file, bytes);
+  } catch (error) {
+    if (error instanceof ServiceError) throw error;
+    if (error instanceof MalformedMediaError) {
+      throw new ServiceError(
+        'validation',
+        `We couldn't remove hidden location and device data from this file (${error.message}), so it can't be posted. Try exporting it again or pick another file.`
+      );
+    }
+    throw error;
+  }
+
+  const baseName = file.name.replace(/\.[^.]*$/, '') || 'upload';
+  const prepared = new File([sanitized.data], `${baseName}.${EXTENSIONS[sanitized.type]}`, {
+    type: sanitized.type,
+    // The original modification time is metadata too
+    lastModified: Date.now()
+  });
+
+  preparedFiles.add(prepared);
+  return prepared;
+};
+
+// Previews are made once per prepared file: UploadForm shows them while the
+// post is being written, and the upload reuses them. Files they produce count
+// as prepared, so uploading them doesn't process them again.
+const previewCache = <T>(create: (file: File) => Promise<T>, producedFile: (preview: T) => File | null) => {
+  const previews = new WeakMap<File, Promise<T>>();
+  return (file: File): Promise<T> => {
+    let preview = previews.get(file);
+    if (!preview) {
+      preview = create(file).then((created) => {
+        const produced = producedFile(created);
+        if (produced) preparedFiles.add(produced);
+        return created;
+      });
+      // A failed attempt is retried next time rather than remembered
+      preview.catch(() => previews.delete(file));
+      previews.set(file, preview);
+    }
+    return preview;
+  };
+};
+
+// Thumbnail, placeholder and size of a prepared image
+export const createImagePreview = previewCache(readImage, (preview) => preview.thumbnail);
+
+// Poster frame, placeholder, size and duration of a prepared video
+export const createVideoPreview = previewCache(readVideo, (preview) => preview.poster);
+
+// Length of a prepared audio file
+const readAudioLength = previewCache(readAudioDuration, () => null);
+
+// Length of a prepared audio or video file in milliseconds, or null when the
+// browser can't work it out
+export const readMediaDuration = async (file: File): Promise<number | null> => {
+  try {
+    if (file.type.startsWith('video/')) return (await createVideoPreview(file)).durationMs;
+    if (file.type.startsWith('audio/')) return await readAudioLength(file);
+  } catch {
+    // Unreadable here doesn't mean broken; the size limit still applies
+  }
+  return null;
+};
+
+const DUMP_NOUNS: Record<MediaDumpType, [string, string]> = {
+  image: ['an image', 'images'],
+  voice: ['audio', 'voice notes'],
+  video: ['a video', 'videos']
+};
+
+// Rounded to the second before splitting, so 359.6s reads 6:00 and not 5:60
+const formatMinutes = (seconds: number) => {
+  const total = Math.round(seconds);
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+};
+
+// Checks a prepared file against the limits for the kind of dump it's posted
+// as. Throws a validation ServiceError saying what's wrong.
+export const checkUploadLimits = async (file: File, type: MediaDumpType): Promise<void> => {
+  const limit = UPLOAD_LIMITS[type];
+  const [noun, plural] = DUMP_NOUNS[type];
+
+  if (!limit.mimeTypes.includes(file.type)) {
+    const actual = mediaDumpTypeOf(file.type);
+    throw new ServiceError(
+      'validation',
+      actual
+        ? `This file is ${DUMP_NOUNS[actual][0]}, not ${noun}. Switch the dump type or pick another file.`
+        : UNSUPPORTED_MESSAGE
+    );
+  }
+  if (file.size > limit.maxBytes) {
+    throw new ServiceError(
+      'validation',
+      `This file is ${formatMegabytes(file.size)}${type === 'image' ? ' even after compression' : ''}; ${plural} can be up to ${formatMegabytes(limit.maxBytes)}.`
+    );
+  }
+  if (limit.maxSeconds !== null) {
+    const durationMs = await readMediaDuration(file);
+    if (durationMs !== null && durationMs > limit.maxSeconds * 1000) {
+      throw new ServiceError(
+        'validation',
+        `This file is ${formatMinutes(durationMs / 1000)} long; ${plural} can be up to ${formatMinutes(limit.maxSeconds)}.`
+      );
+    }
+  }
+};
+
+// prepareMedia, then checkUploadLimits: what a file goes through before it's
+// posted as a dump of this type
+export const prepareUpload = async (file: File, type: MediaDumpType): Promise<File> => {
+  const prepared = await prepareMedia(file);
+  await checkUploadLimits(prepared, type);
+  return prepared;
+};
+
+export { mediaDumpTypeOf, UPLOAD_LIMITS, type MediaDumpType, type UploadLimit } from './limits';
+export {
+  placeholderDataUrl,
+  thumbnailWidth,
+  THUMBNAIL_MAX_DIMENSION,
+  type ImagePreview,
+  type VideoPreview
+} from './previews';
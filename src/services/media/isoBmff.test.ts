@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { parseBuffer } from 'music-metadata';
+import { ascii, MalformedMediaError, readUint32BE, writeUint32BE } from './binary';
+import { stripIsoBmff } from './isoBmff';
+import { containsText, loadFixture, LOCATION, TITLE } from './__fixtures__/fixtures';
+
+const topLevelBoxes = (bytes: Uint8Array): string[] => {
+  const types: string[] = [];
+  for (let offset = 0; offset < bytes.length; offset += readUint32BE(bytes, offset)) {
+    types.push(ascii(bytes, offset + 4, 4));
+  }
+  return types;
+};
+
+const findBox = (bytes: Uint8Array, type: string): number => Buffer.from(bytes).indexOf(type, 0, 'latin1') - 4;
+
+describe('stripIsoBmff', () => {
+  it('blanks udta and meta boxes without moving anything', async () => {
+    const original = loadFixture('clip.mp4');
+    expect((await parseBuffer(original, { mimeType: 'video/mp4' })).common.title).toBe(TITLE);
+
+    const stripped = stripIsoBmff(original);
+
+    expect(stripped.length).toBe(original.length);
+    expect(topLevelBoxes(stripped)).toEqual(topLevelBoxes(original));
+    expect(findBox(stripped, 'udta')).toBeLessThan(0);
+    expect(containsText(stripped, TITLE)).toBe(false);
+    expect(containsText(stripped, LOCATION)).toBe(false);
+  });
+
+  it('zeroes the creation and modification times', () => {
+    const stripped = stripIsoBmff(loadFixture('clip.mp4'));
+    for (const type of ['mvhd', 'tkhd', 'mdhd']) {
+      const offset = findBox(stripped, type);
+      expect(offset).toBeGreaterThan(0);
+      expect(readUint32BE(stripped, offset + 12)).toBe(0);
+      expect(readUint32BE(stripped, offset + 16)).toBe(0);
+    }
+  });
+
+  it('still parses', async () => {
+    const metadata = await parseBuffer(stripIsoBmff(loadFixture('clip.mp4')), { mimeType: 'video/mp4' });
+    expect(metadata.format.container).toMatch(/isom/);
+    expect(metadata.common.title).toBeUndefined();
+  });
+
+  it('leaves the original bytes alone', () => {
+    const original = loadFixture('clip.mp4');
+    const copy = original.slice();
+    stripIsoBmff(original);
+    expect(original).toEqual(copy);
+  });
+
+  it('refuses boxes that overrun the file', () => {
+    const broken = loadFixture('clip.mp4').slice();
+    const moov = findBox(broken, 'moov');
+    writeUint32BE(broken, moov, broken.length);
+    expect(() => stripIsoBmff(broken)).toThrow(MalformedMediaError);
+  });
+});
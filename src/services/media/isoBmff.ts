@@ -0,0 +1,62 @@
+import { ascii, MalformedMediaError, readUint32BE } from './binary';
+
+// MP4, M4A and QuickTime (ISO base media) files. Phones store the recording
+// location, device model and software in `udta`/`meta` boxes (and XMP in
+// `uuid` boxes), and creation times in the movie, track and media headers.
+//
+// Removing a box would shift the media data that `stco`/`co64` point at by
+// absolute offset, so metadata boxes are overwritten in place with `free`
+// boxes of the same size and the timestamps are zeroed.
+
+// Boxes holding other boxes that may contain metadata. Fragments (`moof`) only
+// carry sample tables and are left alone.
+const CONTAINER_BOXES = new Set(['moov', 'trak', 'mdia', 'minf', 'stbl', 'edts', 'dinf', 'mvex']);
+const METADATA_BOXES = new Set(['udta', 'meta', 'uuid', 'XMP_']);
+// Full boxes starting with creation_time and modification_time
+const TIMESTAMPED_BOXES = new Set(['mvhd', 'tkhd', 'mdhd']);
+
+export const isIsoBmff = (bytes: Uint8Array): boolean => ascii(bytes, 4, 4) === 'ftyp';
+
+export const isoBmffBrand = (bytes: Uint8Array): string => ascii(bytes, 8, 4);
+
+const blankBox = (bytes: Uint8Array, offset: number, headerLength: number, size: number) => {
+  bytes.set([0x66, 0x72, 0x65, 0x65], offset + 4); // 'free'
+  bytes.fill(0, offset + headerLength, offset + size);
+};
+
+const walkBoxes = (bytes: Uint8Array, start: number, end: number) => {
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = readUint32BE(bytes, offset);
+    const type = ascii(bytes, offset + 4, 4);
+    let headerLength = 8;
+    if (size === 1) {
+      // 64-bit size follows the type
+      size = readUint32BE(bytes, offset + 8) * 2 ** 32 + readUint32BE(bytes, offset + 12);
+      headerLength = 16;
+    } else if (size === 0) {
+      // Extends to the end of the enclosing box or file
+      size = end - offset;
+    }
+    if (size < headerLength || offset + size > end) throw new MalformedMediaError(`Invalid ${type} box`);
+
+    if (METADATA_BOXES.has(type)) {
+      blankBox(bytes, offset, headerLength, size);
+    } else if (TIMESTAMPED_BOXES.has(type)) {
+      const version = bytes[offset + headerLength];
+      const fieldLength = version === 1 ? 8 : 4;
+      const timesStart = offset + headerLength + 4;
+      bytes.fill(0, timesStart, timesStart + 2 * fieldLength);
+    } else if (CONTAINER_BOXES.has(type)) {
+      walkBoxes(bytes, offset + headerLength, offset + size);
+    }
+    offset += size;
+  }
+};
+
+export const stripIsoBmff = (bytes: Uint8Array): Uint8Array => {
+  if (!isIsoBmff(bytes)) throw new MalformedMediaError('Not an MP4 or QuickTime file');
+  const out = bytes.slice();
+  walkBoxes(out, 0, out.length);
+  return out;
+};
@@ -0,0 +1,46 @@
+import type { DumpType } from '@/services/backends';
+
+export type MediaDumpType = Exclude<DumpType, 'text'>;
+
+export interface UploadLimit {
+  // Storage bucket files for these dumps are uploaded to
+  bucket: string;
+  maxBytes: number;
+  // Longest allowed length; null for media without one
+  maxSeconds: number | null;
+  // Types prepareMedia can produce for these dumps. It names files after what
+  // their bytes are, so a renamed file lands in the list of what it really is.
+  mimeTypes: string[];
+}
+
+const MB = 1024 * 1024;
+
+// What each kind of media dump may upload. The upload form, the upload
+// pipeline and the local backend check these; on Supabase the upload_limits
+// table (see the upload_limits migration) holds the same values and drives the
+// storage bucket limits and validate_dump_media(). Change both together.
+export const UPLOAD_LIMITS: Record<MediaDumpType, UploadLimit> = {
+  image: {
+    bucket: 'dump-images',
+    maxBytes: 10 * MB,
+    maxSeconds: null,
+    mimeTypes: ['image/jpeg', 'image/png', 'image/webp', 'image/avif', 'image/gif']
+  },
+  voice: {
+    bucket: 'dump-audio',
+    maxBytes: 10 * MB,
+    maxSeconds: 5 * 60,
+    mimeTypes: ['audio/mp4', 'audio/webm', 'audio/x-matroska', 'audio/mpeg', 'audio/wav', 'audio/flac', 'audio/ogg']
+  },
+  video: {
+    bucket: 'dump-videos',
+    maxBytes: 50 * MB,
+    maxSeconds: 3 * 60,
+    mimeTypes: ['video/mp4', 'video/quicktime', 'video/webm', 'video/x-matroska']
+  }
+};
+
+// The kind of dump a prepared file can be posted as, from its sniffed type
+export const mediaDumpTypeOf = (mimeType: string): MediaDumpType | null =>
+  (Object.keys(UPLOAD_LIMITS) as MediaDumpType[]).find((type) => UPLOAD_LIMITS[type].mimeTypes.includes(mimeType)) ??
+  null;
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { parseBuffer } from 'music-metadata';
+import { MalformedMediaError } from './binary';
+import { matroskaDocType, stripMatroska } from './matroska';
+import { containsText, loadFixture, LOCATION, TITLE } from './__fixtures__/fixtures';
+
+const TAGS_ID = Buffer.from([0x12, 0x54, 0xc3, 0x67]);
+const DATE_UTC_ID = Buffer.from([0x44, 0x61]);
+
+describe('stripMatroska', () => {
+  it('voids Tags, DateUTC and Title in place', async () => {
+    const original = loadFixture('clip.webm');
+    const before = await parseBuffer(original, { mimeType: 'video/webm' });
+    expect(before.common.title).toBe(TITLE);
+
+    const stripped = stripMatroska(original);
+
+    expect(stripped.length).toBe(original.length);
+    expect(Buffer.from(stripped).includes(TAGS_ID)).toBe(false);
+    expect(Buffer.from(stripped).includes(DATE_UTC_ID)).toBe(false);
+    expect(containsText(stripped, TITLE)).toBe(false);
+    expect(containsText(stripped, LOCATION)).toBe(false);
+  });
+
+  it('still parses', async () => {
+    const metadata = await parseBuffer(stripMatroska(loadFixture('clip.webm')), { mimeType: 'video/webm' });
+    expect(metadata.format.container).toBe('EBML/webm');
+    expect(metadata.format.codec).toMatch(/opus/i);
+    expect(metadata.common.title).toBeUndefined();
+    expect(Object.values(metadata.native).flat().map((tag) => tag.id)).not.toContain('track:LOCATION');
+  });
+
+  it('refuses files cut off inside the tags', () => {
+    const original = loadFixture('clip.webm');
+    const tags = Buffer.from(original).indexOf(TAGS_ID);
+    expect(() => stripMatroska(original.subarray(0, tags + 20))).toThrow(MalformedMediaError);
+  });
+});
+
+describe('matroskaDocType', () => {
+  it('reads the DocType from the EBML header', () => {
+    expect(matroskaDocType(loadFixture('clip.webm'))).toBe('webm');
+  });
+});
@@ -0,0 +1,110 @@
+import { ascii, MalformedMediaError, startsWith } from './binary';
+
+// WebM and Matroska (what Chrome and Firefox record video in). Metadata lives
+// in the Tags and Attachments elements and the segment's DateUTC and Title.
+// Like the MP4 walker, elements are overwritten in place with Void elements so
+// cue and seek positions stay valid.
+
+const EBML_HEADER = [0x1a, 0x45, 0xdf, 0xa3];
+const SEGMENT = 0x18538067;
+const INFO = 0x1549a966;
+const DOC_TYPE = 0x4282;
+const METADATA_ELEMENTS = new Set([
+  0x1254c367, // Tags
+  0x1941a469, // Attachments (cover art and other files)
+  0x4461, // DateUTC
+  0x7ba9 // Title
+]);
+// Elements walked into rather than skipped
+const MASTER_ELEMENTS = new Set([SEGMENT, INFO]);
+const VOID = 0xec;
+
+interface Vint {
+  value: number;
+  length: number;
+  // Size with every value bit set: runs until the parent ends (live recordings)
+  unknown: boolean;
+}
+
+// EBML variable-length integer. IDs keep their length marker, sizes don't.
+const readVint = (bytes: Uint8Array, offset: number, keepMarker: boolean): Vint => {
+  const first = bytes[offset];
+  if (!first) throw new MalformedMediaError('Invalid EBML element');
+
+  let length = 1;
+  let marker = 0x80;
+  while (!(first & marker)) {
+    marker >>= 1;
+    length++;
+  }
+  if (offset + length > bytes.length) throw new MalformedMediaError('Truncated EBML element');
+
+  let value = keepMarker ? first : first & (marker - 1);
+  let unknown = (first & (marker - 1)) === marker - 1;
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + bytes[offset + i];
+    unknown &&= bytes[offset + i] === 0xff;
+  }
+  return { value, length, unknown: !keepMarker && unknown };
+};
+
+// Rewrites the element at offset as a Void element spanning the same bytes
+const voidElement = (bytes: Uint8Array, offset: number, totalLength: number, headerLength: number) => {
+  const sizeLength = Math.min(Math.max(headerLength - 1, 1), 8);
+  let dataLength = totalLength - 1 - sizeLength;
+  bytes[offset] = VOID;
+  for (let i = sizeLength; i >= 1; i--) {
+    bytes[offset + i] = dataLength & 0xff;
+    dataLength = Math.floor(dataLength / 256);
+  }
+  bytes[offset + 1] |= 0x80 >> (sizeLength - 1);
+  bytes.fill(0, offset + 1 + sizeLength, offset + totalLength);
+};
+
+export const isMatroska = (bytes: Uint8Array): boolean => startsWith(bytes, EBML_HEADER);
+
+// 'webm' or 'matroska', from the EBML header's DocType
+export const matroskaDocType = (bytes: Uint8Array): string => {
+  const header = readVint(bytes, 0, true);
+  const headerSize = readVint(bytes, header.length, false);
+  let offset = header.length + headerSize.length;
+  const end = Math.min(bytes.length, offset + headerSize.value);
+  while (offset < end) {
+    const id = readVint(bytes, offset, true);
+    const size = readVint(bytes, offset + id.length, false);
+    const dataStart = offset + id.length + size.length;
+    // Strings may be padded with nulls
+    if (id.value === DOC_TYPE) return ascii(bytes, dataStart, size.value).replace(/\0+$/, '') === 'webm' ? 'webm' : 'matroska';
+    offset = dataStart + size.value;
+  }
+  return 'matroska';
+};
+
+export const stripMatroska = (bytes: Uint8Array): Uint8Array => {
+  if (!isMatroska(bytes)) throw new MalformedMediaError('Not a WebM or Matroska file');
+  const out = bytes.slice();
+
+  // Walked flat: entering a master element just moves past its header, so
+  // elements of unknown size (clusters of a live recording) need no end
+  let offset = 0;
+  while (offset < out.length) {
+    const id = readVint(out, offset, true);
+    const size = readVint(out, offset + id.length, false);
+    const headerLength = id.length + size.length;
+
+    if (MASTER_ELEMENTS.has(id.value) || size.unknown) {
+      offset += headerLength;
+      continue;
+    }
+
+    const totalLength = headerLength + size.value;
+    if (offset + totalLength > out.length) {
+      // Recordings cut short end mid-block; there's nothing after it to clean
+      if (METADATA_ELEMENTS.has(id.value)) throw new MalformedMediaError('Truncated metadata element');
+      break;
+    }
+    if (METADATA_ELEMENTS.has(id.value)) voidElement(out, offset, totalLength, headerLength);
+    offset += totalLength;
+  }
+  return out;
+};
@@ -0,0 +1,160 @@
+import { rgbaToThumbHash, thumbHashToDataURL } from 'thumbhash';
+import { MalformedMediaError } from './binary';
+import { drawScaled, encodeCanvasAs, IMAGE_FORMATS, isAnimatedImage, loadImage, reencodeImage } from './images';
+
+// Longest side of thumbnails; about a card's width on a 1x screen
+export const THUMBNAIL_MAX_DIMENSION = 640;
+// Posters cover the player at its largest, a card's width on a 2x screen
+const POSTER_MAX_DIMENSION = 1280;
+// The poster is the frame this far in, or halfway through shorter clips, as
+// the very first frame is often black
+const POSTER_FRAME_SECONDS = 1;
+// ThumbHash works from an image of at most 100x100
+const PLACEHOLDER_MAX_DIMENSION = 100;
+// Browsers that can't decode a file sometimes never say so
+const MEDIA_EVENT_TIMEOUT_MS = 10_000;
+
+export interface ImagePreview {
+  // null when the image is already thumbnail-sized, or animated
+  thumbnail: File | null;
+  // base64 ThumbHash, a ~25 byte blurred sketch of the image
+  placeholder: string;
+  width: number;
+  height: number;
+}
+
+export interface VideoPreview {
+  poster: File;
+  // base64 ThumbHash of the poster
+  placeholder: string;
+  width: number;
+  height: number;
+  // null when the browser couldn't work out the length
+  durationMs: number | null;
+}
+
+const encodePlaceholder = (source: CanvasImageSource, width: number, height: number): string => {
+  const canvas = drawScaled(source, width, height, PLACEHOLDER_MAX_DIMENSION);
+  const { data } = canvas.getContext('2d')!.getImageData(0, 0, canvas.width, canvas.height);
+  return btoa(String.fromCharCode(...rgbaToThumbHash(canvas.width, canvas.height, data)));
+};
+
+const derivedName = (file: File, suffix: string, type: string): string =>
+  `${file.name.replace(/\.[^.]*$/, '')}-${suffix}.${type.split('/')[1]}`;
+
+export const createImagePreview = async (file: File): Promise<ImagePreview> => {
+  const image = await loadImage(file);
+  const width = image.naturalWidth;
+  const height = image.naturalHeight;
+  const animated = isAnimatedImage(new Uint8Array(await file.arrayBuffer()));
+
+  let thumbnail: File | null = null;
+  if (!animated && Math.max(width, height) > THUMBNAIL_MAX_DIMENSION) {
+    const blob = await reencodeImage(file, { maxDimension: THUMBNAIL_MAX_DIMENSION, types: IMAGE_FORMATS, quality: 0.75 });
+    thumbnail = new File([blob], derivedName(file, 'thumb', blob.type), { type: blob.type });
+  }
+
+  return { thumbnail, placeholder: encodePlaceholder(image, width, height), width, height };
+};
+
+const mediaEvent = (media: HTMLMediaElement, event: 'loadedmetadata' | 'loadeddata' | 'seeked'): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const finish = (error?: Error) => {
+      clearTimeout(timer);
+      media.removeEventListener(event, onEvent);
+      media.removeEventListener('error', onError);
+      if (error) reject(error);
+      else resolve();
+    };
+    const onEvent = () => finish();
+    const onError = () => finish(new MalformedMediaError('This browser could not read the file'));
+    const timer = setTimeout(() => finish(new MalformedMediaError('This browser took too long to read the file')), MEDIA_EVENT_TIMEOUT_MS);
+    media.addEventListener(event, onEvent);
+    media.addEventListener('error', onError);
+  });
+
+const seek = async (media: HTMLMediaElement, seconds: number): Promise<void> => {
+  const seeked = mediaEvent(media, 'seeked');
+  media.currentTime = seconds;
+  await seeked;
+};
+
+// Opens a file in a detached media element, runs read on it once its metadata
+// is in, and lets go of the file again
+const withMediaElement = async <T>(
+  file: File,
+  media: HTMLMediaElement,
+  read: () => Promise<T>
+): Promise<T> => {
+  const url = URL.createObjectURL(file);
+  try {
+    const metadata = mediaEvent(media, 'loadedmetadata');
+    media.src = url;
+    await metadata;
+    return await read();
+  } finally {
+    media.removeAttribute('src');
+    media.load();
+    URL.revokeObjectURL(url);
+  }
+};
+
+// MediaRecorder writes WebM without a duration, which browsers report as
+// Infinity until playback reaches the end; seeking past it makes them find out
+const findDuration = async (media: HTMLMediaElement): Promise<number | null> => {
+  if (Number.isFinite(media.duration)) return media.duration;
+  try {
+    await seek(media, Number.MAX_SAFE_INTEGER);
+  } catch {
+    return null;
+  }
+  return Number.isFinite(media.duration) ? media.duration : null;
+};
+
+const toMilliseconds = (seconds: number | null): number | null => (seconds === null ? null : Math.round(seconds * 1000));
+
+// Poster frame, placeholder, size and length of a video, read by playing it in
+// a detached element
+export const createVideoPreview = (file: File): Promise<VideoPreview> => {
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = 'auto';
+
+  return withMediaElement(file, video, async () => {
+    const duration = await findDuration(video);
+    const frameAt = duration ? Math.min(POSTER_FRAME_SECONDS, duration / 2) : 0;
+    if (frameAt > 0 || video.currentTime > 0) {
+      await seek(video, frameAt);
+    } else if (video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA) {
+      await mediaEvent(video, 'loadeddata');
+    }
+
+    const width = video.videoWidth;
+    const height = video.videoHeight;
+    if (!width || !height) throw new MalformedMediaError('The video has no picture');
+
+    const blob = await encodeCanvasAs(drawScaled(video, width, height, POSTER_MAX_DIMENSION), IMAGE_FORMATS, 0.8);
+    return {
+      poster: new File([blob], derivedName(file, 'poster', blob.type), { type: blob.type }),
+      placeholder: encodePlaceholder(video, width, height),
+      width,
+      height,
+      durationMs: toMilliseconds(duration)
+    };
+  });
+};
+
+// Length of an audio file, or null when the browser can't tell
+export const readAudioDuration = (file: File): Promise<number | null> => {
+  const audio = document.createElement('audio');
+  audio.preload = 'metadata';
+  return withMediaElement(file, audio, async () => toMilliseconds(await findDuration(audio)));
+};
+
+// Width of the thumbnail made for an image of this size, for srcset
+export const thumbnailWidth = (width: number, height: number): number =>
+  Math.round(width * Math.min(1, THUMBNAIL_MAX_DIMENSION / Math.max(width, height)));
+
+export const placeholderDataUrl = (placeholder: string): string =>
+  thumbHashToDataURL(Uint8Array.from(atob(placeholder), (char) => char.charCodeAt(0)));
@@ -0,0 +1,40 @@
+import { createIndexedDbStore, createMemoryStore, type LocalStore } from '@/services/backends';
+
+// A dump the random picker showed this browser, keyed by dump id
+export type SeenEntry = {
+  id: string;
+  seen_at: string;
+};
+
+// Oldest entries beyond this are dropped as new ones come in
+export const SEEN_HISTORY_LIMIT = 1000;
+
+let historyStore: LocalStore | null = null;
+
+// The history lives in IndexedDB next to the local backend's tables, so it
+// survives reloads whichever backend serves the dumps
+const getHistoryStore = (): LocalStore => {
+  historyStore ??= typeof indexedDB === 'undefined' ? createMemoryStore() : createIndexedDbStore();
+  return historyStore;
+};
+
+// Most recently seen first
+export const listSeenEntries = async (limit = SEEN_HISTORY_LIMIT): Promise<SeenEntry[]> => {
+  const entries = await getHistoryStore().all<SeenEntry>('history');
+  return entries
+    .sort((a, b) => b.seen_at.localeCompare(a.seen_at))
+    .slice(0, limit);
+};
+
+// Seeing a dump again moves it back to the top
+export const recordSeenDump = async (id: string): Promise<void> => {
+  const store = getHistoryStore();
+  await store.put<SeenEntry>('history', { id, seen_at: new Date().toISOString() });
+
+  const entries = await listSeenEntries(Infinity);
+  await Promise.all(entries.slice(SEEN_HISTORY_LIMIT).map(entry => store.delete('history', entry.id)));
+};
+
+export const clearSeenHistory = async (): Promise<void> => {
+  await getHistoryStore().clear('history');
+};
@@ -1,138 +1,228 @@
-import { supabase } from '@/lib/supabase';
-import type { Database } from '@/lib/supabase';
-
-export type Dump = Database['public']['Tables']['dumps']['Row'];
-export type DumpInsert = Database['public']['Tables']['dumps']['Insert'];
-
-// Add Comment types
-export type Comment = {
-  id: string;
-  dump_id: string;
-  content: string;
-  created_at: string;
-  upvotes: number;
-  downvotes: number;
+import type { Tables, TablesInsert } from '@/lib/supabase';
+import { getDeviceId } from '@/lib/deviceId';
+import { clearSeenHistory, listSeenEntries, recordSeenDump } from '@/services/seenHistory';
+import {
+  createImagePreview,
+  createVideoPreview,
+  mediaDumpTypeOf,
+  placeholderDataUrl,
+  prepareMedia,
+  prepareUpload,
+  readMediaDuration,
+  thumbnailWidth,
+  UPLOAD_LIMITS
+} from '@/services/media';
+import { ServiceError, fail, ok, type ServiceResult } from '@/services/errors';
+import {
+  getBackend,
+  type Category,
+  type SearchFilters,
+  type SearchHit,
+  type AuthSession,
+  type ModerationAction,
+  type ModerationItem,
+  type ModerationView,
+  type RandomDumpOptions,
+  type RandomWeighting,
+  type DumpCursor,
+  type DumpQuery,
+  type DumpSubmission,
+  type DumpType,
+  type RealtimeListener,
+  type ReportReason,
+  type ReportTarget,
+  type VoteDirection,
+  type VoteResult,
+  type VoteTarget
+} from '@/services/backends';
+
+// search_vector is a generated column for full-text search; clients never read it
+export type Dump = Omit<Tables<'dumps'>, 'search_vector'>;
+export type DumpInsert = Omit<TablesInsert<'dumps'>, 'search_vector'>;
+export type {
+  AuthSession,
+  Category,
+  CategoryColor,
+  DumpStatus,
+  DumpType,
+  ModerationAction,
+  ModerationItem,
+  ModerationView,
+  RandomWeighting,
+  RealtimeEvent,
+  ReportReason,
+  ReportTarget,
+  SearchFilters,
+  VoteDirection,
+  VoteResult,
+  VoteTarget
+} from '@/services/backends';
+export { SNIPPET_MARK_START, SNIPPET_MARK_END } from '@/services/backends';
+export { ServiceError, isRetryable, type ServiceErrorKind, type ServiceResult } from '@/services/errors';
+export { createVideoPreview, prepareMedia, prepareUpload, UPLOAD_LIMITS, type MediaDumpType } from '@/services/media';
+
+// VITE_DEMO_MODE=true shows sample dumps when the backend is empty or
+// unreachable, for showing the app off. Otherwise the UI shows real empty and
+// error states.
+export const DEMO_MODE = import.meta.env.VITE_DEMO_MODE === 'true';
+
+// removed_at is set when a deleted comment is kept for its replies
+export type Comment = Omit<Tables<'comments'>, 'search_vector'>;
+
+// The only comment fields a client may choose; votes and removal are server-side
+export type CommentInsert = Pick<TablesInsert<'comments'>, 'dump_id' | 'parent_id' | 'content'>;
+
+// A comment with its replies; replyCount covers the whole subtree
+export type CommentNode = Comment & {
+  depth: number;
+  replies: CommentNode[];
+  replyCount: number;
 };
 
-export type CommentInsert = {
-  dump_id: string;
-  content: string;
-};
+// Replies nested deeper than this are behind a "continue thread" link
+export const MAX_COMMENT_DEPTH = 4;
 
-// Categories remain static for now, but can be made dynamic later
-export const categories = [
-  { name: 'Funny', count: 0, color: 'bg-yellow-100 text-yellow-800' },
-  { name: 'Deep', count: 0, color: 'bg-purple-100 text-purple-800' },
-  { name: 'Weird', count: 0, color: 'bg-green-100 text-green-800' },
-  { name: 'Sad', count: 0, color: 'bg-blue-100 text-blue-800' },
-  { name: 'Dreams', count: 0, color: 'bg-pink-100 text-pink-800' },
-  { name: 'Food', count: 0, color: 'bg-orange-100 text-orange-800' },
-  { name: 'Adult-life', count: 0, color: 'bg-gray-100 text-gray-800' },
-  { name: 'Awkward', count: 0, color: 'bg-red-100 text-red-800' },
-  { name: 'Confessions', count: 0, color: 'bg-indigo-100 text-indigo-800' }
-];
+// Dumps already shown by the random picker come from the persisted seen
+// history and are sent to random_dump() so they aren't repeated. Only the
+// most recent SEEN_DUMPS_LIMIT are sent.
+const SEEN_DUMPS_LIMIT = 500;
 
-// Simple in-memory cache for dumps
-const dumpCache = {
-  dumps: [] as DumpWithTimestamp[],
-  lastFetch: 0,
-  cacheExpiry: 5 * 60 * 1000, // 5 minutes
-  seenDumps: new Set<string>(), // Track seen dump IDs
-  isExpired(): boolean {
-    return Date.now() - this.lastFetch > this.cacheExpiry;
-  },
-  clear(): void {
-    this.dumps = [];
-    this.lastFetch = 0;
-    this.seenDumps.clear(); // Clear seen dumps when cache is cleared
-  }
-};
+// Dump ids are uuids; anything else in a /dump/:id link can't be one, and
+// Postgres would reject it as a malformed uuid rather than a missing dump
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const DUMP_NOT_FOUND = "This dump doesn't exist or was taken down";
 
-// Helper function to get storage bucket based on file type
+// Storage bucket for a prepared file. Its type was sniffed from its bytes by
+// prepareMedia, so a renamed file goes where what it really is goes.
 const getStorageBucket = (fileType: string): string => {
-  if (fileType.startsWith('image/')) return 'dump-images';
-  if (fileType.startsWith('audio/')) return 'dump-audio';
-  if (fileType.startsWith('video/')) return 'dump-videos';
-  throw new Error('Unsupported file type');
-};
-
-// Helper function to get dump type based on file type
-const getDumpType = (fileType: string): 'image' | 'voice' | 'video' => {
-  if (fileType.startsWith('image/')) return 'image';
-  if (fileType.startsWith('audio/')) return 'voice';
-  if (fileType.startsWith('video/')) return 'video';
-  throw new Error('Unsupported file type');
+  const type = mediaDumpTypeOf(fileType);
+  if (!type) throw new ServiceError('validation', 'Unsupported file type');
+  return UPLOAD_LIMITS[type].bucket;
 };
 
-// Add timestamp field to Dump type for consistency
+// A dump as the UI shows it: timestamp is the display form of created_at,
+// comments are only attached when a single dump is loaded
 export type DumpWithTimestamp = Dump & {
   timestamp: string;
-  comments?: Comment[];
+  comments?: CommentNode[];
   commentCount?: number;
-  title?: string | null; // Add title field
 };
 
-// Fetch dumps from database and update cache (excluding voice memos)
-const fetchAndCacheDumps = async (): Promise<DumpWithTimestamp[]> => {
-  try {
-    const { data, error } = await supabase
-      .from('dumps')
-      .select('*')
-      .neq('type', 'voice') // Exclude voice memos
-      .limit(500); // Increase limit for better cache
-
-    if (error) {
-      console.error('Error fetching dumps:', error);
-      throw error;
-    }
+// One page of a keyset-paginated listing. Pass nextCursor back to get the
+// following page; it is null once the listing is exhausted.
+export type DumpPage = {
+  dumps: DumpWithTimestamp[];
+  nextCursor: string | null;
+};
 
-    const dumpsWithTimestamp = (data || []).map(dump => ({
-      ...dump,
-      timestamp: dump.created_at
-    }));
+// Cursors are opaque to callers: the backend position plus whatever the
+// listing needs to resume the same way, as base64 JSON
+type PageCursor = DumpCursor & { since?: string | null };
 
-    // Update cache
-    dumpCache.dumps = dumpsWithTimestamp;
-    dumpCache.lastFetch = Date.now();
+const encodeCursor = (cursor: PageCursor): string => btoa(JSON.stringify(cursor));
 
-    return dumpsWithTimestamp;
-  } catch (error) {
-    console.error('Fetch and cache dumps failed:', error);
-    throw error;
+const decodeCursor = (cursor: string): PageCursor | undefined => {
+  try {
+    const decoded = JSON.parse(atob(cursor));
+    return typeof decoded?.id === 'string' ? decoded : undefined;
+  } catch {
+    return undefined;
   }
 };
 
-// Upload file to Supabase Storage
-export const uploadFile = async (file: File): Promise<string> => {
+// Fetches one extra row to know whether there is a next page
+const listDumpPage = async (
+  query: DumpQuery & { orderBy: NonNullable<DumpQuery['orderBy']> },
+  limit: number,
+  cursor?: string,
+  since?: string | null
+): Promise<DumpPage> => {
+  const data = await getBackend().listDumps({
+    ...query,
+    after: cursor ? decodeCursor(cursor) : undefined,
+    limit: limit + 1
+  });
+  const dumps = data.slice(0, limit);
+  const last = dumps[dumps.length - 1];
+
+  return {
+    dumps: dumps.map(dump => ({ ...dump, timestamp: dump.created_at })),
+    nextCursor: data.length > limit
+      ? encodeCursor({ value: last[query.orderBy], id: last.id, since })
+      : null
+  };
+};
+
+// Upload file to storage and return its public URL. Location, device and
+// other metadata is stripped and photos are compressed first (see
+// prepareMedia); files that can't be cleaned are refused.
+export const uploadFile = async (original: File): Promise<string> => {
   try {
+    const file = await prepareMedia(original);
     const bucket = getStorageBucket(file.type);
     const fileExt = file.name.split('.').pop();
     const fileName = `${Date.now()}-${Math.random().toString(36).substring(2)}.${fileExt}`;
-    
-    const { data, error } = await supabase.storage
-      .from(bucket)
-      .upload(fileName, file, {
-        cacheControl: '3600',
-        upsert: false
-      });
-
-    if (error) {
-      console.error('Upload error:', error);
-      throw new Error(`Failed to upload file: ${error.message}`);
-    }
-
-    // Get public URL
-    const { data: { publicUrl } } = supabase.storage
-      .from(bucket)
-      .getPublicUrl(data.path);
 
-    return publicUrl;
+    return await getBackend().uploadFile(bucket, fileName, file);
   } catch (error) {
     console.error('File upload failed:', error);
     throw error;
   }
 };
 
+// Thumbnail, placeholder and size for an image dump. They only make loading
+// nicer, so the dump is posted without them if they can't be made.
+const uploadImagePreview = async (file: File): Promise<Partial<DumpSubmission>> => {
+  try {
+    const { thumbnail, placeholder, width, height } = await createImagePreview(file);
+    return {
+      thumbnail_url: thumbnail ? await uploadFile(thumbnail) : null,
+      placeholder,
+      media_width: width,
+      media_height: height
+    };
+  } catch (error) {
+    console.warn('Image preview failed, posting without it:', error);
+    return {};
+  }
+};
+
+// Poster frame, placeholder, size and duration for a video dump. The poster is
+// an image, so it goes to the image bucket. Like image previews these are
+// optional.
+const uploadVideoPreview = async (file: File): Promise<Partial<DumpSubmission>> => {
+  try {
+    const { poster, placeholder, width, height, durationMs } = await createVideoPreview(file);
+    return {
+      poster_url: await uploadFile(poster),
+      placeholder,
+      media_width: width,
+      media_height: height,
+      duration_ms: durationMs
+    };
+  } catch (error) {
+    console.warn('Video preview failed, posting without it:', error);
+    return {};
+  }
+};
+
+// srcset for an image dump: its thumbnail and the full image, when both are
+// known. Dumps from before thumbnails only have the full image.
+export const imageSrcSet = (dump: Dump): string | undefined => {
+  if (!dump.thumbnail_url || !dump.media_width || !dump.media_height) return undefined;
+  return `${dump.thumbnail_url} ${thumbnailWidth(dump.media_width, dump.media_height)}w, ${dump.content} ${dump.media_width}w`;
+};
+
+// CSS background painting a dump's placeholder, if it has one
+export const placeholderImage = (dump: Dump): string | undefined => {
+  if (!dump.placeholder) return undefined;
+  try {
+    return `url(${placeholderDataUrl(dump.placeholder)})`;
+  } catch {
+    return undefined;
+  }
+};
+
 // Upload dump to database (still allows voice uploads for the event)
 export const uploadDump = async (dumpData: {
   type: 'text' | 'image' | 'voice' | 'video';
@@ -140,463 +230,668 @@ export const uploadDump = async (dumpData: {
   tags: string[];
   file?: File;
   title?: string; // Add title parameter
-}): Promise<{ success: boolean; message: string; dump?: Dump }> => {
+}): Promise<ServiceResult<{ message: string; dump: Dump }>> => {
   try {
     let content = dumpData.content;
-
-    // If there's a file, upload it first
-    if (dumpData.file) {
-      content = await uploadFile(dumpData.file);
+    let preview: Partial<DumpSubmission> = {};
+
+    // If there's a file, check it against the limits and upload it first
+    if (dumpData.file && dumpData.type !== 'text') {
+      const file = await prepareUpload(dumpData.file, dumpData.type);
+      content = await uploadFile(file);
+      if (dumpData.type === 'image') preview = await uploadImagePreview(file);
+      if (dumpData.type === 'video') preview = await uploadVideoPreview(file);
+      // Sent so submit_dump can hold voice notes to their length limit too
+      if (dumpData.type === 'voice') preview = { duration_ms: await readMediaDuration(file) };
     }
 
-    const insertData: DumpInsert = {
+    const submission: DumpSubmission = {
       type: dumpData.type,
       content,
       tags: dumpData.tags,
-      title: dumpData.title || null, // Add title to insert data
+      title: dumpData.title || null,
+      ...preview,
     };
 
-    const { data, error } = await supabase
-      .from('dumps')
-      .insert(insertData)
-      .select()
-      .single();
-
-    if (error) {
-      console.error('Database insert error:', error);
-      throw new Error(`Failed to save dump: ${error.message}`);
-    }
-
-    // Clear cache to ensure fresh data on next fetch
-    dumpCache.clear();
+    const data = await getBackend().submitDump(submission);
 
-    return {
-      success: true,
-      message: dumpData.type === 'voice' 
+    return ok({
+      message: data.status === 'pending'
+        ? "Dump submitted! It will appear once a moderator approves it."
+        : dumpData.type === 'voice' 
         ? "Voice memo submitted successfully! It will be revealed during our special event." 
         : "Dump submitted successfully!",
       dump: data
-    };
+    });
   } catch (error) {
     console.error('Upload dump failed:', error);
-    return {
-      success: false,
-      message: error instanceof Error ? error.message : "Failed to submit dump"
-    };
+    return fail(error, "Failed to submit dump");
   }
 };
 
-// Get random dump with caching (excluding voice memos)
-export const getRandomDump = async (): Promise<DumpWithTimestamp | null> => {
-  try {
-    let dumps: DumpWithTimestamp[] = [];
+// What the visitor wants from "Give me a dump!"; empty lists mean any
+export type RandomDumpFilters = {
+  tags: string[];
+  types: DumpType[];
+  minRating: number; // 0 for no minimum
+  last24h: boolean;
+  weighting: RandomWeighting;
+};
 
-    // Check if cache is valid and has data
-    if (dumpCache.dumps.length > 0 && !dumpCache.isExpired()) {
-      dumps = dumpCache.dumps;
-    } else {
-      // Fetch from database and update cache
-      dumps = await fetchAndCacheDumps();
-    }
+export const DEFAULT_RANDOM_FILTERS: RandomDumpFilters = {
+  tags: [],
+  types: [],
+  minRating: 0,
+  last24h: false,
+  weighting: 'uniform'
+};
 
-    if (!dumps || dumps.length === 0) {
-      // Return a sample dump if no data exists
-      return {
-        id: 'sample-1',
-        type: 'text',
-        content: 'Welcome to DumpSpace! This is a sample dump. Submit your own thoughts to see real content from the community.',
-        title: 'Welcome to DumpSpace!', // Add title to sample
-        tags: ['welcome', 'sample'],
-        upvotes: 42,
-        downvotes: 3,
-        rating: 4.2,
-        created_at: new Date().toISOString(),
-        timestamp: new Date().toISOString()
-      };
-    }
+export const hasRandomFilters = ({ tags, types, minRating, last24h }: RandomDumpFilters): boolean =>
+  tags.length > 0 || types.length > 0 || minRating > 0 || last24h;
+
+// Sample text dump for demo mode
+const demoDump = (
+  fields: Pick<DumpWithTimestamp, 'id' | 'title' | 'content' | 'tags' | 'upvotes' | 'downvotes' | 'rating'>
+): DumpWithTimestamp => {
+  const now = new Date().toISOString();
+  return {
+    ...fields,
+    type: 'text',
+    share_count: 0,
+    thumbnail_url: null,
+    placeholder: null,
+    media_width: null,
+    media_height: null,
+    poster_url: null,
+    duration_ms: null,
+    status: 'visible',
+    status_changed_at: now,
+    removed_at: null,
+    created_at: now,
+    timestamp: now
+  };
+};
 
-    // Filter out dumps that have already been seen
-    const unseenDumps = dumps.filter(dump => !dumpCache.seenDumps.has(dump.id));
+// Comments are a bonus on a single dump: if they fail to load the dump is
+// still shown, and CommentsSection reports the error when it loads them itself
+const withComments = async (dump: Dump): Promise<DumpWithTimestamp> => {
+  const comments = await getCommentsByDumpId(dump.id);
+  return comments.success
+    ? { ...dump, timestamp: dump.created_at, comments: comments.data, commentCount: countComments(comments.data) }
+    : { ...dump, timestamp: dump.created_at };
+};
 
-    let selectedDump: DumpWithTimestamp;
+// Get a random dump the visitor hasn't seen yet (excluding voice memos), picked
+// server-side by random_dump(). The data is null when no dump matches the
+// filters, or when there are no dumps at all.
+export const getRandomDump = async (
+  filters: RandomDumpFilters = DEFAULT_RANDOM_FILTERS
+): Promise<ServiceResult<DumpWithTimestamp | null>> => {
+  try {
+    const options: Omit<RandomDumpOptions, 'excludeIds'> = {
+      weighting: filters.weighting,
+      tags: filters.tags,
+      types: filters.types,
+      minRating: filters.minRating > 0 ? filters.minRating : undefined,
+      createdAfter: filters.last24h ? new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString() : undefined
+    };
+    // History is a nicety: if IndexedDB is unavailable, pick without it
+    const seen = await listSeenEntries(SEEN_DUMPS_LIMIT).catch((error) => {
+      console.error('Read seen history failed:', error);
+      return [];
+    });
+    const excludeIds = seen.map(entry => entry.id);
+    let selectedDump = await getBackend().randomDump({ ...options, excludeIds });
 
-    // If all dumps have been seen, reset and start over
-    if (unseenDumps.length === 0) {
-      dumpCache.seenDumps.clear();
-      const randomIndex = Math.floor(Math.random() * dumps.length);
-      selectedDump = dumps[randomIndex];
-      dumpCache.seenDumps.add(selectedDump.id);
-    } else {
-      // Select random dump from unseen dumps and mark as seen
-      const randomIndex = Math.floor(Math.random() * unseenDumps.length);
-      selectedDump = unseenDumps[randomIndex];
-      dumpCache.seenDumps.add(selectedDump.id);
+    // If every matching dump has been seen, allow repeats rather than wiping the history
+    if (!selectedDump && excludeIds.length > 0) {
+      selectedDump = await getBackend().randomDump({ ...options, excludeIds: [] });
     }
-    
-    // Fetch comments for this dump
-    const comments = await getCommentsByDumpId(selectedDump.id);
-    
-    return {
-      ...selectedDump,
-      comments,
-      commentCount: comments.length
-    };
 
+    if (!selectedDump) {
+      return ok(DEMO_MODE && !hasRandomFilters(filters)
+        ? demoDump({
+            id: 'sample-1',
+            title: 'Welcome to DumpSpace!',
+            content: 'Welcome to DumpSpace! This is a sample dump. Submit your own thoughts to see real content from the community.',
+            tags: ['welcome', 'sample'],
+            upvotes: 42,
+            downvotes: 3,
+            rating: 4.2
+          })
+        : null);
+    }
+
+    recordSeenDump(selectedDump.id).catch((error) => console.error('Record seen dump failed:', error));
+
+    return ok(await withComments(selectedDump));
   } catch (error) {
     console.error('Get random dump failed:', error);
-    // Return sample dump on error
-    return {
-      id: 'sample-error',
-      type: 'text',
-      content: 'Unable to fetch dumps right now. This is a sample dump to show you how DumpSpace works!',
-      title: 'Connection Error', // Add title to error sample
-      tags: ['sample'],
-      upvotes: 10,
-      downvotes: 1,
-      rating: 3.8,
-      created_at: new Date().toISOString(),
-      timestamp: new Date().toISOString()
-    };
+    if (DEMO_MODE) {
+      return ok(demoDump({
+        id: 'sample-error',
+        title: 'Connection Error',
+        content: 'Unable to fetch dumps right now. This is a sample dump to show you how DumpSpace works!',
+        tags: ['sample'],
+        upvotes: 10,
+        downvotes: 1,
+        rating: 3.8
+      }));
+    }
+    return fail(error, 'Failed to fetch a dump');
   }
 };
 
-// Get dumps by category (excluding voice memos)
-export const getDumpsByCategory = async (category: string): Promise<DumpWithTimestamp[]> => {
+// A single visible dump with its comments. Fails with not_found when it
+// doesn't exist or isn't visible.
+export const getDumpById = async (id: string): Promise<ServiceResult<DumpWithTimestamp>> => {
   try {
-    const { data, error } = await supabase
-      .from('dumps')
-      .select('*')
-      .contains('tags', [category.toLowerCase()])
-      .neq('type', 'voice') // Exclude voice memos
-      .order('created_at', { ascending: false });
+    if (!UUID.test(id)) throw new ServiceError('not_found', DUMP_NOT_FOUND);
 
-    if (error) {
-      console.error('Error fetching dumps by category:', error);
-      return [];
-    }
+    const [dump] = await getBackend().listDumps({ ids: [id] });
+    if (!dump) throw new ServiceError('not_found', DUMP_NOT_FOUND);
+
+    return ok(await withComments(dump));
+  } catch (error) {
+    console.error('Get dump by ID failed:', error);
+    return fail(error, 'Failed to load dump');
+  }
+};
+
+// A dump from the seen history. dump is null when it has since been hidden
+// or removed.
+export type HistoryItem = {
+  id: string;
+  seen_at: string;
+  dump: DumpWithTimestamp | null;
+};
+
+// Recently seen dumps, newest first, with their current data
+export const getSeenHistory = async (limit: number = 100): Promise<ServiceResult<HistoryItem[]>> => {
+  try {
+    const entries = await listSeenEntries(limit);
+    if (entries.length === 0) return ok([]);
 
-    return (data || []).map(dump => ({
-      ...dump,
-      timestamp: dump.created_at
+    const dumps = await getBackend().listDumps({ ids: entries.map(entry => entry.id) });
+    return ok(entries.map(entry => {
+      const dump = dumps.find(candidate => candidate.id === entry.id);
+      return { ...entry, dump: dump ? { ...dump, timestamp: dump.created_at } : null };
     }));
   } catch (error) {
-    console.error('Get dumps by category failed:', error);
-    return [];
+    console.error('Get seen history failed:', error);
+    return fail(error, 'Failed to load history');
   }
 };
 
-// Rate dump (upvote/downvote)
-export const rateDump = async (id: string, rating: 'up' | 'down'): Promise<{ success: boolean; message: string }> => {
+export const clearHistory = async (): Promise<ServiceResult<{ message: string }>> => {
   try {
-    // First, get current vote counts
-    const { data: currentDump, error: fetchError } = await supabase
-      .from('dumps')
-      .select('upvotes, downvotes')
-      .eq('id', id)
-      .single();
+    await clearSeenHistory();
+    return ok({ message: 'History cleared. Previously seen dumps can come up again.' });
+  } catch (error) {
+    console.error('Clear history failed:', error);
+    return fail(error, 'Failed to clear history');
+  }
+};
 
-    if (fetchError) {
-      throw new Error(`Failed to fetch dump: ${fetchError.message}`);
-    }
+// Get dumps by category (excluding voice memos), newest first, a page at a time
+export const CATEGORY_PAGE_SIZE = 20;
 
-    // Update vote counts
-    const updates = rating === 'up' 
-      ? { upvotes: currentDump.upvotes + 1 }
-      : { downvotes: currentDump.downvotes + 1 };
+export const getDumpsByCategory = async (
+  category: string,
+  { cursor, limit = CATEGORY_PAGE_SIZE }: { cursor?: string; limit?: number } = {}
+): Promise<ServiceResult<DumpPage>> => {
+  try {
+    return ok(await listDumpPage({
+      tag: category.toLowerCase(),
+      excludeType: 'voice', // Exclude voice memos
+      orderBy: 'created_at'
+    }, limit, cursor));
+  } catch (error) {
+    console.error('Get dumps by category failed:', error);
+    return fail(error, 'Failed to load dumps');
+  }
+};
 
-    const { error: updateError } = await supabase
-      .from('dumps')
-      .update(updates)
-      .eq('id', id);
+// Result of a vote change, with the authoritative counts from the backend
+export type VoteResponse = ServiceResult<{ message: string; result: VoteResult }>;
 
-    if (updateError) {
-      throw new Error(`Failed to update vote: ${updateError.message}`);
-    }
+const voteMessage = (subject: string, vote: VoteDirection | null, previous?: VoteDirection | null) => {
+  if (!vote) return `${subject} vote removed`;
+  if (previous) return `Vote changed to ${vote === 'up' ? '👍' : '👎'}`;
+  return `${vote === 'up' ? '👍 Upvoted' : '👎 Downvoted'} ${subject.toLowerCase()} successfully!`;
+};
 
-    // Update cache if the dump exists in cache
-    const cachedDumpIndex = dumpCache.dumps.findIndex(dump => dump.id === id);
-    if (cachedDumpIndex !== -1) {
-      if (rating === 'up') {
-        dumpCache.dumps[cachedDumpIndex].upvotes += 1;
-      } else {
-        dumpCache.dumps[cachedDumpIndex].downvotes += 1;
-      }
-    }
+// Get this device's votes for a set of dumps or comments
+export const getUserVotes = async (
+  target: VoteTarget,
+  ids: string[]
+): Promise<ServiceResult<Record<string, VoteDirection>>> => {
+  try {
+    return ok(await getBackend().getDeviceVotes(target, ids, getDeviceId()));
+  } catch (error) {
+    console.error('Get user votes failed:', error);
+    return fail(error, 'Failed to load your votes');
+  }
+};
 
-    return {
-      success: true,
-      message: `${rating === 'up' ? '👍 Upvoted' : '👎 Downvoted'} successfully!`
-    };
+// Rate dump (upvote/downvote). Passing null retracts this device's vote;
+// voting the other direction switches it.
+export const rateDump = async (
+  id: string,
+  rating: VoteDirection | null,
+  previous?: VoteDirection | null
+): Promise<VoteResponse> => {
+  try {
+    const result = await getBackend().castVote('dump', id, getDeviceId(), rating);
+
+    return ok({ message: voteMessage('Dump', rating, previous), result });
   } catch (error) {
     console.error('Rate dump failed:', error);
-    return {
-      success: false,
-      message: error instanceof Error ? error.message : "Failed to rate dump"
-    };
+    return fail(error, "Failed to rate dump");
   }
 };
 
-// Report dump (placeholder - you might want to add a reports table later)
-export const reportDump = async (id: string): Promise<{ success: boolean; message: string }> => {
-  // For now, just log the report
-  console.log(`Dump ${id} reported for moderation`);
-  
-  // In a real implementation, you might:
-  // 1. Add a 'reports' table
-  // 2. Insert a report record
-  // 3. Potentially flag the dump for review
-  
-  return {
-    success: true,
-    message: "🚩 Dump reported for moderation. Thank you for keeping our community safe!"
-  };
-};
+// Reasons offered in the report dialog, in display order
+export const reportReasons: { value: ReportReason; label: string; description: string }[] = [
+  { value: 'spam', label: 'Spam', description: 'Ads, scams or repeated junk' },
+  { value: 'harassment', label: 'Harassment', description: 'Targets or bullies someone' },
+  { value: 'personal_info', label: 'Personal info', description: 'Names, addresses, photos or other details about a real person' },
+  { value: 'self_harm', label: 'Self-harm', description: 'Someone may be at risk' },
+  { value: 'other', label: 'Other', description: 'Tell us what is wrong' }
+];
 
-export const getTopRatedDumps = async (): Promise<DumpWithTimestamp[]> => {
+// Report a dump or comment for moderation. Each device can report a target
+// once; after enough distinct reports a dump is hidden pending review.
+const submitReport = async (
+  target: ReportTarget,
+  id: string,
+  reason: ReportReason,
+  details?: string
+): Promise<ServiceResult<{ message: string; hidden: boolean }>> => {
   try {
-    // Calculate 24 hours ago
-    const twentyFourHoursAgo = new Date();
-    twentyFourHoursAgo.setHours(twentyFourHoursAgo.getHours() - 24);
-
-    // First check if there are at least 10 posts in last 24 hours (excluding voice)
-    const { data: recentData, error: recentError } = await supabase
-      .from('dumps')
-      .select('*')
-      .gte('created_at', twentyFourHoursAgo.toISOString())
-      .neq('type', 'voice') // Exclude voice memos
-      .order('upvotes', { ascending: false })
-      .limit(10);
-
-    if (recentError) {
-      console.error('Error fetching recent dumps:', recentError);
-      return [];
+    if (reason === 'other' && !details?.trim()) {
+      throw new ServiceError('validation', "Please describe the problem");
     }
 
-    // If we have 10 or more posts in last 24 hours, return them
-    if (recentData && recentData.length >= 10) {
-      return recentData.map(dump => ({
-        ...dump,
-        timestamp: dump.created_at
-      }));
+    if (details && details.length > 500) {
+      throw new ServiceError('validation', "Report details are too long (max 500 characters)");
     }
 
-    // Otherwise, get top 10 without time limit (excluding voice)
-    const { data, error } = await supabase
-      .from('dumps')
-      .select('*')
-      .neq('type', 'voice') // Exclude voice memos
-      .order('upvotes', { ascending: false })
-      .limit(10);
+    const result = await getBackend().reportTarget(target, id, getDeviceId(), reason, details);
 
-    if (error) {
-      console.error('Error fetching top rated dumps:', error);
-      return [];
+    return ok({
+      message: result.alreadyReported
+        ? `You already reported this ${target}. Our moderators will take a look.`
+        : `🚩 ${target === 'dump' ? 'Dump' : 'Comment'} reported for moderation. Thank you for keeping our community safe!`,
+      hidden: result.hidden
+    });
+  } catch (error) {
+    console.error(`Report ${target} failed:`, error);
+    return fail(error, `Failed to report ${target}`);
+  }
+};
+
+export const reportDump = (id: string, reason: ReportReason, details?: string) =>
+  submitReport('dump', id, reason, details);
+
+// Count a share of a dump (however it was shared) and get the new total
+export const recordShare = async (id: string): Promise<{ success: boolean; message: string; shareCount?: number }> => {
+  try {
+    const shareCount = await getBackend().recordShare(id);
+    return { success: true, message: 'Share recorded', shareCount };
+  } catch (error) {
+    console.error('Record share failed:', error);
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to record share'
+    };
+  }
+};
+
+// Absolute link to a dump's page, for sharing outside the app
+export const dumpUrl = (id: string): string => `${window.location.origin}/dump/${id}`;
+
+export const getTopRatedDumps = async (
+  { cursor, limit = 10 }: { cursor?: string; limit?: number } = {}
+): Promise<ServiceResult<DumpPage>> => {
+  try {
+    // Later pages stay in the window the first page picked
+    let since = cursor ? decodeCursor(cursor)?.since ?? null : null;
+
+    if (!cursor) {
+      // Calculate 24 hours ago
+      const twentyFourHoursAgo = new Date();
+      twentyFourHoursAgo.setHours(twentyFourHoursAgo.getHours() - 24);
+
+      // Rank the last 24 hours if there are at least 10 posts (excluding voice),
+      // otherwise rank without time limit
+      const recentCount = await getBackend().countDumps({
+        createdAfter: twentyFourHoursAgo.toISOString(),
+        excludeType: 'voice' // Exclude voice memos
+      });
+      since = recentCount >= 10 ? twentyFourHoursAgo.toISOString() : null;
     }
 
-    return (data || []).map(dump => ({
-      ...dump,
-      timestamp: dump.created_at
-    }));
+    return ok(await listDumpPage({
+      createdAfter: since ?? undefined,
+      excludeType: 'voice', // Exclude voice memos
+      orderBy: 'upvotes'
+    }, limit, cursor, since));
   } catch (error) {
     console.error('Get top rated dumps failed:', error);
-    return [];
+    return fail(error, 'Failed to load top rated dumps');
   }
 };
 
 // Get recent dumps (excluding voice memos)
-export const getRecentDumps = async (limit: number = 10): Promise<DumpWithTimestamp[]> => {
+export const getRecentDumps = async (
+  { cursor, limit = 10 }: { cursor?: string; limit?: number } = {}
+): Promise<ServiceResult<DumpPage>> => {
   try {
-    const { data, error } = await supabase
-      .from('dumps')
-      .select('*')
-      .neq('type', 'voice') // Exclude voice memos
-      .order('created_at', { ascending: false })
-      .limit(limit);
+    return ok(await listDumpPage({
+      excludeType: 'voice', // Exclude voice memos
+      orderBy: 'created_at'
+    }, limit, cursor));
+  } catch (error) {
+    console.error('Get recent dumps failed:', error);
+    return fail(error, 'Failed to load recent dumps');
+  }
+};
 
-    if (error) {
-      console.error('Error fetching recent dumps:', error);
-      return [];
+// One page of the chronological feed (excluding voice memos). Pass the
+// previous page's nextCursor to get the next one.
+const FEED_PAGE_SIZE = 10;
+
+export const getFeedDumps = async ({ types, cursor, limit = FEED_PAGE_SIZE }: {
+  types?: DumpType[];
+  cursor?: string;
+  limit?: number;
+} = {}): Promise<ServiceResult<DumpPage>> => {
+  try {
+    return ok(await listDumpPage({
+      types,
+      excludeType: 'voice', // Exclude voice memos
+      orderBy: 'created_at'
+    }, limit, cursor));
+  } catch (error) {
+    console.error('Get feed dumps failed:', error);
+    return fail(error, 'Failed to load the feed');
+  }
+};
+
+// A search hit with the dump ready for DumpCard
+export type SearchResult = Omit<SearchHit, 'dump'> & { dump: DumpWithTimestamp };
+
+// Full-text search over dump titles, text dumps and comments, best match first
+export const searchDumps = async (
+  query: string,
+  filters: SearchFilters = {}
+): Promise<ServiceResult<{ message: string; results: SearchResult[] }>> => {
+  try {
+    if (!query.trim()) {
+      return ok({ message: "Type something to search", results: [] });
+    }
+    if (query.length > 200) {
+      throw new ServiceError('validation', "Search is too long (max 200 characters)");
     }
 
-    return (data || []).map(dump => ({
-      ...dump,
-      timestamp: dump.created_at
-    }));
+    const hits = await getBackend().searchDumps(query.trim(), filters);
+
+    return ok({
+      message: `${hits.length} ${hits.length === 1 ? 'result' : 'results'}`,
+      results: hits.map(hit => ({ ...hit, dump: { ...hit.dump, timestamp: hit.dump.created_at } }))
+    });
   } catch (error) {
-    console.error('Get recent dumps failed:', error);
-    return [];
+    console.error('Search dumps failed:', error);
+    return fail(error, "Search failed");
   }
 };
 
 // Get dump statistics (excluding voice memos for public stats)
-export const getDumpStats = async () => {
+export const getDumpStats = async (): Promise<ServiceResult<{ totalDumps: number }>> => {
   try {
-    const { count, error } = await supabase
-      .from('dumps')
-      .select('*', { count: 'exact', head: true })
-      .neq('type', 'voice'); // Exclude voice memos from public count
-
-    if (error) {
-      console.error('Error fetching dump stats:', error);
-      return { totalDumps: 0 };
-    }
+    const count = await getBackend().countDumps({
+      excludeType: 'voice' // Exclude voice memos from public count
+    });
 
-    return { totalDumps: count || 0 };
+    return ok({ totalDumps: count });
   } catch (error) {
     console.error('Get dump stats failed:', error);
-    return { totalDumps: 0 };
+    return fail(error, 'Failed to load stats');
   }
 };
 
 
 
-// Update category counts (call this periodically or on demand)
-export const updateCategoryStats = async () => {
+// Active categories with their dump counts, in display order
+export const getCategories = async (): Promise<ServiceResult<Category[]>> => {
   try {
-    const updatedCategories = await Promise.all(
-      categories.map(async (category) => {
-        const dumps = await getDumpsByCategory(category.name);
-        return { ...category, count: dumps.length };
-      })
-    );
-    return updatedCategories;
+    return ok(await getBackend().listCategories());
   } catch (error) {
-    console.error('Update category stats failed:', error);
-    return categories;
+    console.error('Get categories failed:', error);
+    return fail(error, 'Failed to load categories');
   }
 };
 
 // === COMMENT FUNCTIONS ===
 
-// Get comments for a specific dump
-export const getCommentsByDumpId = async (dumpId: string): Promise<Comment[]> => {
-  try {
-    const { data, error } = await supabase
-      .from('comments')
-      .select('*')
-      .eq('dump_id', dumpId)
-      .order('created_at', { ascending: true });
-
-    if (error) {
-      console.error('Error fetching comments:', error);
-      return [];
+// Nest a flat, oldest-first comment list under its parents. Replies whose
+// parent is missing are shown at the top level rather than dropped.
+export const buildCommentTree = (comments: Comment[]): CommentNode[] => {
+  const nodes = new Map<string, CommentNode>();
+  comments.forEach(comment => nodes.set(comment.id, { ...comment, depth: 0, replies: [], replyCount: 0 }));
+
+  const roots: CommentNode[] = [];
+  nodes.forEach(node => {
+    const parent = node.parent_id ? nodes.get(node.parent_id) : undefined;
+    if (parent) {
+      parent.replies.push(node);
+    } else {
+      roots.push(node);
     }
+  });
 
-    return data || [];
+  const annotate = (node: CommentNode, depth: number): number => {
+    node.depth = depth;
+    node.replyCount = node.replies.reduce((total, reply) => total + 1 + annotate(reply, depth + 1), 0);
+    return node.replyCount;
+  };
+  roots.forEach(root => annotate(root, 0));
+
+  return roots;
+};
+
+// Back to a flat list, parents before their replies
+export const flattenCommentTree = (nodes: CommentNode[]): Comment[] =>
+  nodes.flatMap(({ depth: _depth, replies, replyCount: _replyCount, ...comment }) => [comment, ...flattenCommentTree(replies)]);
+
+// Live comments in a tree, leaving out "[removed]" placeholders
+export const countComments = (nodes: CommentNode[]): number =>
+  nodes.reduce((total, node) => total + (node.removed_at ? 0 : 1) + countComments(node.replies), 0);
+
+// Get comments for a specific dump as a reply tree
+export const getCommentsByDumpId = async (dumpId: string): Promise<ServiceResult<CommentNode[]>> => {
+  try {
+    return ok(buildCommentTree(await getBackend().listComments(dumpId)));
   } catch (error) {
     console.error('Get comments by dump ID failed:', error);
-    return [];
+    return fail(error, 'Failed to load comments');
   }
 };
 
 // Add a new comment
-export const addComment = async (commentData: CommentInsert): Promise<{ success: boolean; message: string; comment?: Comment }> => {
+export const addComment = async (commentData: CommentInsert): Promise<ServiceResult<{ message: string; comment: Comment }>> => {
   try {
     // Validate comment content
     if (!commentData.content.trim()) {
-      return {
-        success: false,
-        message: "Comment cannot be empty"
-      };
+      throw new ServiceError('validation', "Comment cannot be empty");
     }
 
     if (commentData.content.length > 500) {
-      return {
-        success: false,
-        message: "Comment is too long (max 500 characters)"
-      };
+      throw new ServiceError('validation', "Comment is too long (max 500 characters)");
     }
 
-    const { data, error } = await supabase
-      .from('comments')
-      .insert({
-        dump_id: commentData.dump_id,
-        content: commentData.content.trim()
-      })
-      .select()
-      .single();
-
-    if (error) {
-      console.error('Database insert error for comment:', error);
-      throw new Error(`Failed to save comment: ${error.message}`);
-    }
+    const data = await getBackend().insertComment({
+      dump_id: commentData.dump_id,
+      parent_id: commentData.parent_id ?? null,
+      content: commentData.content.trim()
+    });
 
-    return {
-      success: true,
-      message: "Comment added successfully!",
+    return ok({
+      message: commentData.parent_id ? "Reply added successfully!" : "Comment added successfully!",
       comment: data
-    };
+    });
   } catch (error) {
     console.error('Add comment failed:', error);
-    return {
-      success: false,
-      message: error instanceof Error ? error.message : "Failed to add comment"
-    };
+    return fail(error, commentData.parent_id ? "Failed to add reply" : "Failed to add comment");
   }
 };
 
-// Rate a comment (upvote/downvote)
-export const rateComment = async (commentId: string, rating: 'up' | 'down'): Promise<{ success: boolean; message: string }> => {
+// Rate a comment (upvote/downvote), same semantics as rateDump
+export const rateComment = async (
+  commentId: string,
+  rating: VoteDirection | null,
+  previous?: VoteDirection | null
+): Promise<VoteResponse> => {
   try {
-    // First, get current vote counts
-    const { data: currentComment, error: fetchError } = await supabase
-      .from('comments')
-      .select('upvotes, downvotes')
-      .eq('id', commentId)
-      .single();
+    const result = await getBackend().castVote('comment', commentId, getDeviceId(), rating);
 
-    if (fetchError) {
-      throw new Error(`Failed to fetch comment: ${fetchError.message}`);
-    }
+    return ok({ message: voteMessage('Comment', rating, previous), result });
+  } catch (error) {
+    console.error('Rate comment failed:', error);
+    return fail(error, "Failed to rate comment");
+  }
+};
 
-    // Update vote counts
-    const updates = rating === 'up' 
-      ? { upvotes: currentComment.upvotes + 1 }
-      : { downvotes: currentComment.downvotes + 1 };
+export const reportComment = (commentId: string, reason: ReportReason, details?: string) =>
+  submitReport('comment', commentId, reason, details);
 
-    const { error: updateError } = await supabase
-      .from('comments')
-      .update(updates)
-      .eq('id', commentId);
+// Delete comment. Requires a signed-in moderator; RLS rejects everyone else.
+// Comments that still have replies are kept as a "[removed]" placeholder.
+export const deleteComment = async (commentId: string): Promise<ServiceResult<{ message: string }>> => {
+  try {
+    await getBackend().deleteComment(commentId);
+    return ok({ message: "Comment deleted successfully" });
+  } catch (error) {
+    console.error('Delete comment failed:', error);
+    return fail(error, "Failed to delete comment");
+  }
+};
 
-    if (updateError) {
-      throw new Error(`Failed to update comment vote: ${updateError.message}`);
-    }
+// === REALTIME ===
 
-    return {
-      success: true,
-      message: `Comment ${rating === 'up' ? 'upvoted' : 'downvoted'} successfully!`
-    };
+// Stream new comments, comment changes and vote totals for one dump.
+// Returns the unsubscribe function; call it when the card unmounts.
+export const subscribeToDump = (dumpId: string, listener: RealtimeListener): (() => void) => {
+  try {
+    return getBackend().subscribeToDump(dumpId, listener);
   } catch (error) {
-    console.error('Rate comment failed:', error);
-    return {
-      success: false,
-      message: error instanceof Error ? error.message : "Failed to rate comment"
-    };
+    console.error('Subscribe to dump failed:', error);
+    return () => {};
   }
 };
 
-// Delete comment (for moderation purposes - you might want to add admin auth later)
-export const deleteComment = async (commentId: string): Promise<{ success: boolean; message: string }> => {
+// Stream newly published dumps and status changes for the live feed
+export const subscribeToFeed = (listener: RealtimeListener): (() => void) => {
   try {
-    const { error } = await supabase
-      .from('comments')
-      .delete()
-      .eq('id', commentId);
+    return getBackend().subscribeToFeed(listener);
+  } catch (error) {
+    console.error('Subscribe to feed failed:', error);
+    return () => {};
+  }
+};
 
-    if (error) {
-      throw new Error(`Failed to delete comment: ${error.message}`);
+// === MODERATION FUNCTIONS ===
+
+// Current auth session; the data is null when nobody is signed in
+export const getModeratorSession = async (): Promise<ServiceResult<AuthSession | null>> => {
+  try {
+    return ok(await getBackend().getSession());
+  } catch (error) {
+    console.error('Get moderator session failed:', error);
+    return fail(error, 'Failed to check your session');
+  }
+};
+
+export const signInModerator = async (
+  email: string,
+  password: string
+): Promise<{ success: boolean; message: string; session?: AuthSession }> => {
+  try {
+    const session = await getBackend().signIn(email, password);
+
+    if (!session.isModerator) {
+      return {
+        success: false,
+        message: "This account is not a moderator",
+        session
+      };
     }
 
     return {
       success: true,
-      message: "Comment deleted successfully"
+      message: "Signed in",
+      session
     };
   } catch (error) {
-    console.error('Delete comment failed:', error);
+    console.error('Moderator sign in failed:', error);
     return {
       success: false,
-      message: error instanceof Error ? error.message : "Failed to delete comment"
+      message: error instanceof Error ? error.message : "Failed to sign in"
     };
   }
-};
\ No newline at end of file
+};
+
+export const signOutModerator = async (): Promise<void> => {
+  try {
+    await getBackend().signOut();
+  } catch (error) {
+    console.error('Moderator sign out failed:', error);
+  }
+};
+
+// Reported dumps and comments (most reported first), or dumps pending approval or removed
+export const getModerationQueue = async (
+  view: ModerationView = 'reported'
+): Promise<ServiceResult<ModerationItem[]>> => {
+  try {
+    return ok(await getBackend().getModerationQueue(view));
+  } catch (error) {
+    console.error('Get moderation queue failed:', error);
+    return fail(error, "Failed to load moderation queue");
+  }
+};
+
+const moderationMessages: Record<ModerationAction, string> = {
+  approve: 'Approved and now visible',
+  hide: 'Hidden from the site',
+  restore: 'Restored and reports cleared',
+  remove: 'Removed. It can still be restored until purged',
+  delete: 'Deleted',
+  dismiss: 'Reports dismissed'
+};
+
+export const moderateTarget = async (
+  target: ReportTarget,
+  id: string,
+  action: ModerationAction
+): Promise<ServiceResult<{ message: string }>> => {
+  try {
+    await getBackend().moderate(target, id, action);
+    return ok({ message: moderationMessages[action] });
+  } catch (error) {
+    console.error('Moderate target failed:', error);
+    return fail(error, `Failed to ${action} ${target}`);
+  }
+};
+
+// Permanently deletes a removed dump and its media
+export const purgeDump = async (id: string): Promise<ServiceResult<{ message: string }>> => {
+  try {
+    await getBackend().purgeDump(id);
+    return ok({ message: 'Permanently deleted' });
+  } catch (error) {
+    console.error('Purge dump failed:', error);
+    return fail(error, "Failed to purge dump");
+  }
+};
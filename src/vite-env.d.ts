@@ -0,0 +1,16 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_SUPABASE_URL?: string;
+  readonly VITE_SUPABASE_ANON_KEY?: string;
+  // 'supabase' | 'local' | 'memory' - defaults to supabase when configured, local otherwise
+  readonly VITE_DATA_BACKEND?: string;
+  // 'true' holds new dumps for approval on the local backends
+  readonly VITE_PREMODERATION?: string;
+  // 'true' shows sample dumps when the backend is empty or unreachable
+  readonly VITE_DEMO_MODE?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
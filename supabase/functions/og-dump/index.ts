@@ -0,0 +1,132 @@
+// Link previews for /dump/:id. Crawlers (Slack, Discord, X, iMessage, ...)
+// don't run the SPA, so the host rewrites their requests for /dump/:id here and
+// they get the dump's title and an excerpt or thumbnail as Open Graph and
+// Twitter tags. Anyone else who lands here is sent on to the app.
+//
+// Deploy: npx supabase functions deploy og-dump --no-verify-jwt
+// Env:    SITE_URL (the app's public origin), plus the SUPABASE_URL and
+//         SUPABASE_ANON_KEY every function gets
+
+const SITE_NAME = 'DumpSpace';
+const EXCERPT_LENGTH = 200;
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+interface PreviewDump {
+  id: string;
+  type: 'text' | 'image' | 'voice' | 'video';
+  title: string | null;
+  content: string;
+  tags: string[];
+  poster_url: string | null;
+}
+
+const TYPE_LABELS: Record<PreviewDump['type'], string> = {
+  text: 'A text dump',
+  image: 'An image dump',
+  voice: 'A voice note',
+  video: 'A video dump',
+};
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const excerpt = (text: string): string => {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length > EXCERPT_LENGTH ? `${flat.slice(0, EXCERPT_LENGTH - 1).trimEnd()}…` : flat;
+};
+
+// The id comes from /og-dump/<id>, /dump/<id> (when rewritten as is) or ?id=
+const dumpIdFrom = (url: URL): string | null => {
+  const id = url.searchParams.get('id') ?? url.pathname.split('/').filter(Boolean).pop() ?? '';
+  return UUID.test(id) ? id : null;
+};
+
+// Only visible dumps; the anon key sees what the app sees
+const fetchDump = async (id: string): Promise<PreviewDump | null> => {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const anonKey = Deno.env.get('SUPABASE_ANON_KEY');
+  if (!supabaseUrl || !anonKey) return null;
+
+  const response = await fetch(
+    `${supabaseUrl}/rest/v1/dumps?id=eq.${id}&status=eq.visible&select=id,type,title,content,tags,poster_url`,
+    { headers: { apikey: anonKey, Authorization: `Bearer ${anonKey}` } }
+  );
+  if (!response.ok) return null;
+
+  const rows: PreviewDump[] = await response.json();
+  return rows[0] ?? null;
+};
+
+const renderPage = (siteUrl: string, pageUrl: string, dump: PreviewDump | null): string => {
+  const fallbackImage = `${siteUrl}/logo.png`;
+
+  let title = `${SITE_NAME} - Anonymous Thoughts & Feelings`;
+  let description = 'Share your anonymous thoughts, feelings, and random dumps.';
+  let image = fallbackImage;
+
+  if (dump) {
+    title = dump.title || (dump.type === 'text' ? excerpt(dump.content).slice(0, 70) : TYPE_LABELS[dump.type]);
+    description =
+      dump.type === 'text'
+        ? excerpt(dump.content)
+        : `${TYPE_LABELS[dump.type]} on ${SITE_NAME}${dump.tags.length ? ` · #${dump.tags.join(' #')}` : ''}`;
+    if (dump.type === 'image' && dump.content.startsWith('http')) image = dump.content;
+    if (dump.type === 'video' && dump.poster_url?.startsWith('http')) image = dump.poster_url;
+  }
+
+  const card = image === fallbackImage ? 'summary' : 'summary_large_image';
+  const [t, d, i, u] = [title, description, image, pageUrl].map(escapeHtml);
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<title>${t}</title>
+<meta name="description" content="${d}" />
+<meta property="og:site_name" content="${SITE_NAME}" />
+<meta property="og:type" content="article" />
+<meta property="og:title" content="${t}" />
+<meta property="og:description" content="${d}" />
+<meta property="og:image" content="${i}" />
+<meta property="og:url" content="${u}" />
+<meta name="twitter:card" content="${card}" />
+<meta name="twitter:title" content="${t}" />
+<meta name="twitter:description" content="${d}" />
+<meta name="twitter:image" content="${i}" />
+<link rel="canonical" href="${u}" />
+<meta http-equiv="refresh" content="0; url=${u}" />
+</head>
+<body>
+<p><a href="${u}">${t}</a></p>
+</body>
+</html>`;
+};
+
+Deno.serve(async (request) => {
+  const siteUrl = (Deno.env.get('SITE_URL') ?? '').replace(/\/$/, '');
+  const id = dumpIdFrom(new URL(request.url));
+  const pageUrl = id ? `${siteUrl}/dump/${id}` : `${siteUrl}/`;
+
+  let dump: PreviewDump | null = null;
+  if (id) {
+    try {
+      dump = await fetchDump(id);
+    } catch (error) {
+      console.error('og-dump: failed to load dump', id, error);
+    }
+  }
+
+  return new Response(renderPage(siteUrl, pageUrl, dump), {
+    status: id && !dump ? 404 : 200,
+    headers: {
+      'Content-Type': 'text/html; charset=utf-8',
+      // Crawlers refetch rarely; a short cache keeps removed dumps from lingering
+      'Cache-Control': 'public, max-age=300',
+    },
+  });
+});
@@ -0,0 +1,69 @@
+/*
+  # Comments table and dump titles
+
+  Both were created by hand on the original project and never made it into a
+  migration, although later migrations (vote ledger, moderation, threads,
+  search) depend on them. This file runs right after the initial schema so a
+  fresh database gets them in the right order; on existing projects every
+  statement is a no-op.
+
+  1. Changed Tables
+    - `dumps.title` (text, nullable) - optional title, up to 100 characters
+
+  2. New Tables
+    - `comments`
+      - `id` (uuid, primary key)
+      - `dump_id` (uuid, references dumps, cascades on delete)
+      - `content` (text) - 1 to 500 characters
+      - `upvotes` (integer, default 0)
+      - `downvotes` (integer, default 0)
+      - `created_at` (timestamptz, default now())
+
+  3. Indexes
+    - `comments (dump_id, created_at)` - a dump's comments in posting order
+
+  4. Security
+    - Enable RLS on comments
+    - Anyone can read comments
+    - Anonymous users can insert comments with zeroed vote counts; vote
+      counts only change through the vote ledger afterwards
+*/
+
+ALTER TABLE dumps ADD COLUMN IF NOT EXISTS title text;
+
+DO $$
+BEGIN
+  ALTER TABLE dumps ADD CONSTRAINT dumps_title_length CHECK (char_length(title) <= 100);
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END;
+$$;
+
+CREATE TABLE IF NOT EXISTS comments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  dump_id uuid NOT NULL REFERENCES dumps (id) ON DELETE CASCADE,
+  content text NOT NULL CHECK (char_length(content) BETWEEN 1 AND 500),
+  upvotes integer NOT NULL DEFAULT 0,
+  downvotes integer NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS comments_dump_id_created_at_idx ON comments (dump_id, created_at);
+
+ALTER TABLE comments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow public read access to comments" ON comments;
+
+CREATE POLICY "Allow public read access to comments"
+  ON comments
+  FOR SELECT
+  TO public
+  USING (true);
+
+DROP POLICY IF EXISTS "Allow anonymous insert comments" ON comments;
+
+CREATE POLICY "Allow anonymous insert comments"
+  ON comments
+  FOR INSERT
+  TO anon, authenticated
+  WITH CHECK (upvotes = 0 AND downvotes = 0);
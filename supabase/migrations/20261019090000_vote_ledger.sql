@@ -0,0 +1,137 @@
+/*
+  # Per-device vote ledger
+
+  1. New Tables
+    - `votes`
+      - `target_type` (text) - 'dump' or 'comment'
+      - `target_id` (uuid) - id of the voted dump or comment
+      - `device_id` (text) - anonymous id generated and kept by the browser
+      - `vote` (text) - 'up' or 'down'
+      - `created_at` / `updated_at` (timestamptz)
+      - primary key (target_type, target_id, device_id), so one vote per device
+
+  2. Functions
+    - `cast_vote(target_type, target_id, device_id, vote)` inserts, switches or
+      retracts (vote = null) the device's vote and adjusts the target's counts in
+      the same transaction while holding the target row lock. Counts are moved by
+      deltas so votes cast before the ledger existed are kept.
+    - `get_device_votes(target_type, target_ids, device_id)` returns the device's
+      current votes so the UI can restore them after a refresh.
+
+  3. Security
+    - Enable RLS on votes with no policies: anon only reaches it through the
+      SECURITY DEFINER functions above
+*/
+
+CREATE TABLE IF NOT EXISTS votes (
+  target_type text NOT NULL CHECK (target_type IN ('dump', 'comment')),
+  target_id uuid NOT NULL,
+  device_id text NOT NULL CHECK (char_length(device_id) BETWEEN 8 AND 64),
+  vote text NOT NULL CHECK (vote IN ('up', 'down')),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  PRIMARY KEY (target_type, target_id, device_id)
+);
+
+CREATE INDEX IF NOT EXISTS votes_device_idx ON votes (device_id, target_type);
+
+ALTER TABLE votes ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION cast_vote(
+  p_target_type text,
+  p_target_id uuid,
+  p_device_id text,
+  p_vote text
+)
+RETURNS TABLE (upvotes integer, downvotes integer, vote text)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  previous text;
+  up_delta integer := 0;
+  down_delta integer := 0;
+BEGIN
+  IF p_target_type NOT IN ('dump', 'comment') THEN
+    RAISE EXCEPTION 'Unknown vote target %', p_target_type USING ERRCODE = '22023';
+  END IF;
+  IF p_vote IS NOT NULL AND p_vote NOT IN ('up', 'down') THEN
+    RAISE EXCEPTION 'Unknown vote %', p_vote USING ERRCODE = '22023';
+  END IF;
+
+  -- Lock the target first so concurrent votes on it are serialized
+  IF p_target_type = 'dump' THEN
+    PERFORM 1 FROM dumps WHERE id = p_target_id FOR UPDATE;
+  ELSE
+    PERFORM 1 FROM comments WHERE id = p_target_id FOR UPDATE;
+  END IF;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Vote target not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT v.vote INTO previous
+  FROM votes v
+  WHERE v.target_type = p_target_type
+    AND v.target_id = p_target_id
+    AND v.device_id = p_device_id
+  FOR UPDATE;
+
+  IF previous IS NOT DISTINCT FROM p_vote THEN
+    -- Nothing changes, just report the current state
+    NULL;
+  ELSIF p_vote IS NULL THEN
+    DELETE FROM votes v
+    WHERE v.target_type = p_target_type
+      AND v.target_id = p_target_id
+      AND v.device_id = p_device_id;
+  ELSE
+    INSERT INTO votes (target_type, target_id, device_id, vote)
+    VALUES (p_target_type, p_target_id, p_device_id, p_vote)
+    ON CONFLICT ON CONSTRAINT votes_pkey
+    DO UPDATE SET vote = EXCLUDED.vote, updated_at = now();
+  END IF;
+
+  IF previous IS DISTINCT FROM p_vote THEN
+    up_delta := (CASE WHEN p_vote = 'up' THEN 1 ELSE 0 END) - (CASE WHEN previous = 'up' THEN 1 ELSE 0 END);
+    down_delta := (CASE WHEN p_vote = 'down' THEN 1 ELSE 0 END) - (CASE WHEN previous = 'down' THEN 1 ELSE 0 END);
+  END IF;
+
+  IF p_target_type = 'dump' THEN
+    RETURN QUERY
+    UPDATE dumps d
+    SET upvotes = GREATEST(0, d.upvotes + up_delta),
+        downvotes = GREATEST(0, d.downvotes + down_delta)
+    WHERE d.id = p_target_id
+    RETURNING d.upvotes, d.downvotes, p_vote;
+  ELSE
+    RETURN QUERY
+    UPDATE comments c
+    SET upvotes = GREATEST(0, c.upvotes + up_delta),
+        downvotes = GREATEST(0, c.downvotes + down_delta)
+    WHERE c.id = p_target_id
+    RETURNING c.upvotes, c.downvotes, p_vote;
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_device_votes(
+  p_target_type text,
+  p_target_ids uuid[],
+  p_device_id text
+)
+RETURNS TABLE (target_id uuid, vote text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT v.target_id, v.vote
+  FROM votes v
+  WHERE v.target_type = p_target_type
+    AND v.device_id = p_device_id
+    AND v.target_id = ANY (p_target_ids);
+$$;
+
+GRANT EXECUTE ON FUNCTION cast_vote(text, uuid, text, text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_device_votes(text, uuid[], text) TO anon, authenticated;
@@ -0,0 +1,109 @@
+/*
+  # Reports and auto-hide
+
+  1. New Tables
+    - `reports`
+      - `id` (uuid, primary key)
+      - `target_type` (text) - 'dump' or 'comment'
+      - `target_id` (uuid)
+      - `device_id` (text) - anonymous reporter, one report per device and target
+      - `reason` (text) - 'spam', 'harassment', 'personal_info', 'self_harm', 'other'
+      - `details` (text) - optional free text, required for 'other'
+      - `created_at` (timestamptz)
+    - `moderation_settings` - single row of tunables
+      - `report_hide_threshold` (integer, default 3) - distinct reports before a dump is hidden
+
+  2. Changes
+    - `dumps.is_hidden` (boolean, default false) - hidden pending review
+
+  3. Functions
+    - `report_target(...)` records a report and hides the dump once the threshold
+      of distinct reporting devices is reached
+
+  4. Security
+    - Enable RLS on reports and moderation_settings with no anon policies; reports
+      are only written through report_target()
+*/
+
+CREATE TABLE IF NOT EXISTS moderation_settings (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  report_hide_threshold integer NOT NULL DEFAULT 3 CHECK (report_hide_threshold > 0)
+);
+
+INSERT INTO moderation_settings (id) VALUES (true) ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE moderation_settings ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE dumps ADD COLUMN IF NOT EXISTS is_hidden boolean NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS dumps_visible_created_at_idx ON dumps (created_at DESC) WHERE NOT is_hidden;
+
+CREATE TABLE IF NOT EXISTS reports (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  target_type text NOT NULL CHECK (target_type IN ('dump', 'comment')),
+  target_id uuid NOT NULL,
+  device_id text NOT NULL CHECK (char_length(device_id) BETWEEN 8 AND 64),
+  reason text NOT NULL CHECK (reason IN ('spam', 'harassment', 'personal_info', 'self_harm', 'other')),
+  details text CHECK (char_length(details) <= 500),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (target_type, target_id, device_id),
+  CHECK (reason <> 'other' OR coalesce(btrim(details), '') <> '')
+);
+
+CREATE INDEX IF NOT EXISTS reports_target_idx ON reports (target_type, target_id);
+
+ALTER TABLE reports ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION report_target(
+  p_target_type text,
+  p_target_id uuid,
+  p_device_id text,
+  p_reason text,
+  p_details text DEFAULT NULL
+)
+RETURNS TABLE (already_reported boolean, hidden boolean)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  inserted_id uuid;
+  report_count integer;
+  threshold integer;
+  now_hidden boolean := false;
+BEGIN
+  IF p_target_type = 'dump' THEN
+    PERFORM 1 FROM dumps WHERE id = p_target_id FOR UPDATE;
+  ELSE
+    PERFORM 1 FROM comments WHERE id = p_target_id;
+  END IF;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Report target not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO reports (target_type, target_id, device_id, reason, details)
+  VALUES (p_target_type, p_target_id, p_device_id, p_reason, nullif(btrim(p_details), ''))
+  ON CONFLICT (target_type, target_id, device_id) DO NOTHING
+  RETURNING id INTO inserted_id;
+
+  IF p_target_type = 'dump' THEN
+    SELECT count(*) INTO report_count
+    FROM reports r
+    WHERE r.target_type = 'dump' AND r.target_id = p_target_id;
+
+    SELECT report_hide_threshold INTO threshold FROM moderation_settings;
+
+    UPDATE dumps d
+    SET is_hidden = true
+    WHERE d.id = p_target_id
+      AND NOT d.is_hidden
+      AND report_count >= coalesce(threshold, 3);
+
+    SELECT d.is_hidden INTO now_hidden FROM dumps d WHERE d.id = p_target_id;
+  END IF;
+
+  RETURN QUERY SELECT inserted_id IS NULL, now_hidden;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION report_target(text, uuid, text, text, text) TO anon, authenticated;
@@ -0,0 +1,202 @@
+/*
+  # Moderator role and moderation queue
+
+  1. New Tables
+    - `moderators`
+      - `user_id` (uuid, primary key, references auth.users) - Supabase auth users allowed to moderate
+      - `created_at` (timestamptz)
+      Moderators are added by hand from the dashboard or SQL editor:
+        INSERT INTO moderators (user_id) SELECT id FROM auth.users WHERE email = '...';
+
+  2. Functions
+    - `is_moderator()` - true when the current auth user is in `moderators`
+    - `moderation_queue()` - reported dumps and comments with content, report
+      counts per reason and free-text details
+    - `moderate_target(target_type, target_id, action)` - 'hide', 'restore',
+      'delete' or 'dismiss'. Restore and dismiss clear the target's reports so
+      old reports don't immediately re-hide it.
+
+  3. Security
+    - Only moderators can delete comments, delete dumps, change `dumps.is_hidden`
+      and read or delete reports
+    - anon keeps UPDATE on the vote columns only
+*/
+
+CREATE TABLE IF NOT EXISTS moderators (
+  user_id uuid PRIMARY KEY REFERENCES auth.users (id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE moderators ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION is_moderator()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM moderators WHERE user_id = auth.uid());
+$$;
+
+GRANT EXECUTE ON FUNCTION is_moderator() TO anon, authenticated;
+
+-- Moderators can see whether they are one
+CREATE POLICY "Moderators can read own row"
+  ON moderators
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+-- Visibility is a moderator decision: anon may only touch vote columns
+REVOKE UPDATE ON dumps FROM anon;
+GRANT UPDATE (upvotes, downvotes, rating) ON dumps TO anon;
+
+CREATE POLICY "Moderators can update dumps"
+  ON dumps
+  FOR UPDATE
+  TO authenticated
+  USING (is_moderator())
+  WITH CHECK (is_moderator());
+
+CREATE POLICY "Moderators can delete dumps"
+  ON dumps
+  FOR DELETE
+  TO authenticated
+  USING (is_moderator());
+
+-- Comment deletes were open to any client; restrict them to moderators
+ALTER TABLE comments ENABLE ROW LEVEL SECURITY;
+REVOKE DELETE ON comments FROM anon;
+
+CREATE POLICY "Moderators can delete comments"
+  ON comments
+  FOR DELETE
+  TO authenticated
+  USING (is_moderator());
+
+CREATE POLICY "Moderators can read reports"
+  ON reports
+  FOR SELECT
+  TO authenticated
+  USING (is_moderator());
+
+CREATE POLICY "Moderators can delete reports"
+  ON reports
+  FOR DELETE
+  TO authenticated
+  USING (is_moderator());
+
+CREATE OR REPLACE FUNCTION moderation_queue()
+RETURNS TABLE (
+  target_type text,
+  target_id uuid,
+  dump_id uuid,
+  dump_type text,
+  title text,
+  content text,
+  is_hidden boolean,
+  report_count integer,
+  reasons jsonb,
+  details text[],
+  last_reported_at timestamptz
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_moderator() THEN
+    RAISE EXCEPTION 'Moderator role required' USING ERRCODE = '42501';
+  END IF;
+
+  -- Output column names shadow table columns in plpgsql, so everything is qualified
+  RETURN QUERY
+  WITH reason_counts AS (
+    SELECT rr.target_type, rr.target_id, rr.reason, count(*)::integer AS n, max(rr.created_at) AS last_at
+    FROM reports rr
+    GROUP BY rr.target_type, rr.target_id, rr.reason
+  ),
+  grouped AS (
+    SELECT
+      rc.target_type,
+      rc.target_id,
+      sum(rc.n)::integer AS total,
+      jsonb_object_agg(rc.reason, rc.n) AS reason_map,
+      max(rc.last_at) AS last_at
+    FROM reason_counts rc
+    GROUP BY rc.target_type, rc.target_id
+  )
+  SELECT
+    g.target_type,
+    g.target_id,
+    coalesce(d.id, c.dump_id),
+    coalesce(d.type, cd.type),
+    d.title,
+    coalesce(d.content, c.content),
+    coalesce(d.is_hidden, false),
+    g.total,
+    g.reason_map,
+    ARRAY(
+      SELECT rd.details
+      FROM reports rd
+      WHERE rd.target_type = g.target_type
+        AND rd.target_id = g.target_id
+        AND rd.details IS NOT NULL
+      ORDER BY rd.created_at DESC
+    ),
+    g.last_at
+  FROM grouped g
+  LEFT JOIN dumps d ON g.target_type = 'dump' AND d.id = g.target_id
+  LEFT JOIN comments c ON g.target_type = 'comment' AND c.id = g.target_id
+  LEFT JOIN dumps cd ON cd.id = c.dump_id
+  WHERE d.id IS NOT NULL OR c.id IS NOT NULL
+  ORDER BY g.total DESC, g.last_at DESC;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION moderate_target(
+  p_target_type text,
+  p_target_id uuid,
+  p_action text
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_moderator() THEN
+    RAISE EXCEPTION 'Moderator role required' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_action IN ('hide', 'restore') AND p_target_type <> 'dump' THEN
+    RAISE EXCEPTION 'Only dumps can be hidden or restored' USING ERRCODE = '22023';
+  END IF;
+
+  CASE p_action
+    WHEN 'hide' THEN
+      UPDATE dumps SET is_hidden = true WHERE id = p_target_id;
+    WHEN 'restore' THEN
+      UPDATE dumps SET is_hidden = false WHERE id = p_target_id;
+      DELETE FROM reports WHERE target_type = 'dump' AND target_id = p_target_id;
+    WHEN 'delete' THEN
+      IF p_target_type = 'dump' THEN
+        DELETE FROM dumps WHERE id = p_target_id;
+      ELSE
+        DELETE FROM comments WHERE id = p_target_id;
+      END IF;
+      DELETE FROM reports WHERE target_type = p_target_type AND target_id = p_target_id;
+    WHEN 'dismiss' THEN
+      DELETE FROM reports WHERE target_type = p_target_type AND target_id = p_target_id;
+    ELSE
+      RAISE EXCEPTION 'Unknown moderation action %', p_action USING ERRCODE = '22023';
+  END CASE;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION moderation_queue() FROM public;
+REVOKE EXECUTE ON FUNCTION moderate_target(text, uuid, text) FROM public;
+GRANT EXECUTE ON FUNCTION moderation_queue() TO authenticated;
+GRANT EXECUTE ON FUNCTION moderate_target(text, uuid, text) TO authenticated;
@@ -0,0 +1,326 @@
+/*
+  # Dump visibility lifecycle
+
+  1. Changes
+    - `dumps.status` (text, default 'visible') - 'pending', 'visible', 'hidden' or 'removed'
+    - `dumps.status_changed_at` (timestamptz)
+    - `dumps.removed_at` (timestamptz) - set while a dump is soft-deleted
+    - `dumps.is_hidden` is replaced by status = 'hidden'
+    - `moderation_settings.premoderation` (boolean, default false) - new dumps
+      start as 'pending' until a moderator approves them
+
+  2. Transitions (enforced by trigger)
+    - pending -> visible (approve) or removed (reject)
+    - visible -> hidden
+    - hidden  -> visible (restore) or removed
+    - removed -> visible (restore a soft delete)
+    Removed dumps keep their media. A removal only becomes final when a
+    moderator purges the dump, which deletes the storage object and the row.
+
+  3. Functions
+    - `report_target` hides visible dumps instead of setting is_hidden
+    - `moderation_queue(view)` - 'reported', 'pending' or 'removed'
+    - `moderate_target` gains 'approve' and 'remove'; 'delete' is for comments only
+
+  4. Security
+    - Status is chosen by the server on insert, never by the client
+    - Moderators may only hard-delete dumps that are already removed
+    - Moderators may delete media objects from the dump buckets
+    - Comments of a dump that isn't visible can only be read or added by
+      moderators
+*/
+
+ALTER TABLE dumps ADD COLUMN IF NOT EXISTS status text NOT NULL DEFAULT 'visible'
+  CHECK (status IN ('pending', 'visible', 'hidden', 'removed'));
+ALTER TABLE dumps ADD COLUMN IF NOT EXISTS status_changed_at timestamptz DEFAULT now();
+ALTER TABLE dumps ADD COLUMN IF NOT EXISTS removed_at timestamptz;
+
+UPDATE dumps SET status = 'hidden' WHERE is_hidden;
+
+DROP INDEX IF EXISTS dumps_visible_created_at_idx;
+ALTER TABLE dumps DROP COLUMN IF EXISTS is_hidden;
+
+CREATE INDEX IF NOT EXISTS dumps_status_created_at_idx ON dumps (status, created_at DESC);
+
+ALTER TABLE moderation_settings ADD COLUMN IF NOT EXISTS premoderation boolean NOT NULL DEFAULT false;
+
+-- New dumps get their status from the moderation settings
+CREATE OR REPLACE FUNCTION set_initial_dump_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.status := CASE
+    WHEN coalesce((SELECT premoderation FROM moderation_settings), false) THEN 'pending'
+    ELSE 'visible'
+  END;
+  NEW.status_changed_at := now();
+  NEW.removed_at := NULL;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_initial_dump_status_trigger
+  BEFORE INSERT ON dumps
+  FOR EACH ROW
+  EXECUTE FUNCTION set_initial_dump_status();
+
+CREATE OR REPLACE FUNCTION enforce_dump_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT (
+    (OLD.status = 'pending' AND NEW.status IN ('visible', 'removed')) OR
+    (OLD.status = 'visible' AND NEW.status = 'hidden') OR
+    (OLD.status = 'hidden' AND NEW.status IN ('visible', 'removed')) OR
+    (OLD.status = 'removed' AND NEW.status = 'visible')
+  ) THEN
+    RAISE EXCEPTION 'Invalid dump status transition % -> %', OLD.status, NEW.status USING ERRCODE = '22023';
+  END IF;
+
+  NEW.status_changed_at := now();
+  NEW.removed_at := CASE WHEN NEW.status = 'removed' THEN now() ELSE NULL END;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_dump_status_transition_trigger
+  BEFORE UPDATE OF status ON dumps
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_dump_status_transition();
+
+-- Final removal only: soft-delete first, purge later
+DROP POLICY IF EXISTS "Moderators can delete dumps" ON dumps;
+
+CREATE POLICY "Moderators can purge removed dumps"
+  ON dumps
+  FOR DELETE
+  TO authenticated
+  USING (is_moderator() AND status = 'removed');
+
+CREATE POLICY "Moderators can delete dump media"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (bucket_id IN ('dump-images', 'dump-audio', 'dump-videos') AND is_moderator());
+
+-- A hidden or removed dump takes its comments with it; pending dumps can't
+-- be commented on before they are approved
+DROP POLICY IF EXISTS "Allow public read access to comments" ON comments;
+
+CREATE POLICY "Allow public read access to comments of visible dumps"
+  ON comments
+  FOR SELECT
+  TO public
+  USING (
+    EXISTS (SELECT 1 FROM dumps d WHERE d.id = comments.dump_id AND d.status = 'visible')
+    OR is_moderator()
+  );
+
+DROP POLICY IF EXISTS "Allow anonymous insert comments" ON comments;
+
+CREATE POLICY "Allow anonymous insert comments on visible dumps"
+  ON comments
+  FOR INSERT
+  TO anon, authenticated
+  WITH CHECK (
+    upvotes = 0 AND downvotes = 0
+    AND (
+      EXISTS (SELECT 1 FROM dumps d WHERE d.id = comments.dump_id AND d.status = 'visible')
+      OR is_moderator()
+    )
+  );
+
+CREATE OR REPLACE FUNCTION report_target(
+  p_target_type text,
+  p_target_id uuid,
+  p_device_id text,
+  p_reason text,
+  p_details text DEFAULT NULL
+)
+RETURNS TABLE (already_reported boolean, hidden boolean)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  inserted_id uuid;
+  report_count integer;
+  threshold integer;
+  current_status text;
+BEGIN
+  IF p_target_type = 'dump' THEN
+    SELECT d.status INTO current_status FROM dumps d WHERE d.id = p_target_id FOR UPDATE;
+  ELSE
+    PERFORM 1 FROM comments WHERE id = p_target_id;
+  END IF;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Report target not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO reports (target_type, target_id, device_id, reason, details)
+  VALUES (p_target_type, p_target_id, p_device_id, p_reason, nullif(btrim(p_details), ''))
+  ON CONFLICT (target_type, target_id, device_id) DO NOTHING
+  RETURNING id INTO inserted_id;
+
+  IF p_target_type = 'dump' AND current_status = 'visible' THEN
+    SELECT count(*) INTO report_count
+    FROM reports r
+    WHERE r.target_type = 'dump' AND r.target_id = p_target_id;
+
+    SELECT report_hide_threshold INTO threshold FROM moderation_settings;
+
+    IF report_count >= coalesce(threshold, 3) THEN
+      UPDATE dumps d SET status = 'hidden' WHERE d.id = p_target_id;
+      current_status := 'hidden';
+    END IF;
+  END IF;
+
+  RETURN QUERY SELECT inserted_id IS NULL, coalesce(current_status, 'visible') <> 'visible';
+END;
+$$;
+
+DROP FUNCTION IF EXISTS moderation_queue();
+
+CREATE OR REPLACE FUNCTION moderation_queue(p_view text DEFAULT 'reported')
+RETURNS TABLE (
+  target_type text,
+  target_id uuid,
+  dump_id uuid,
+  dump_type text,
+  title text,
+  content text,
+  status text,
+  report_count integer,
+  reasons jsonb,
+  details text[],
+  last_reported_at timestamptz
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_moderator() THEN
+    RAISE EXCEPTION 'Moderator role required' USING ERRCODE = '42501';
+  END IF;
+  IF p_view NOT IN ('reported', 'pending', 'removed') THEN
+    RAISE EXCEPTION 'Unknown moderation view %', p_view USING ERRCODE = '22023';
+  END IF;
+
+  -- Output column names shadow table columns in plpgsql, so everything is qualified
+  RETURN QUERY
+  WITH reason_counts AS (
+    SELECT rr.target_type, rr.target_id, rr.reason, count(*)::integer AS n, max(rr.created_at) AS last_at
+    FROM reports rr
+    GROUP BY rr.target_type, rr.target_id, rr.reason
+  ),
+  grouped AS (
+    SELECT
+      rc.target_type,
+      rc.target_id,
+      sum(rc.n)::integer AS total,
+      jsonb_object_agg(rc.reason, rc.n) AS reason_map,
+      max(rc.last_at) AS last_at
+    FROM reason_counts rc
+    GROUP BY rc.target_type, rc.target_id
+  ),
+  targets AS (
+    -- Reported dumps and comments that are still live
+    SELECT g.target_type, g.target_id
+    FROM grouped g
+    LEFT JOIN dumps gd ON g.target_type = 'dump' AND gd.id = g.target_id
+    WHERE p_view = 'reported'
+      AND (g.target_type = 'comment' OR gd.status IN ('visible', 'hidden'))
+    UNION
+    -- Dumps waiting for approval or for a final removal
+    SELECT 'dump', sd.id
+    FROM dumps sd
+    WHERE (p_view = 'pending' AND sd.status = 'pending')
+       OR (p_view = 'removed' AND sd.status = 'removed')
+  )
+  SELECT
+    t.target_type,
+    t.target_id,
+    coalesce(d.id, c.dump_id),
+    coalesce(d.type, cd.type),
+    d.title,
+    coalesce(d.content, c.content),
+    coalesce(d.status, cd.status),
+    coalesce(g.total, 0),
+    coalesce(g.reason_map, '{}'::jsonb),
+    ARRAY(
+      SELECT rd.details
+      FROM reports rd
+      WHERE rd.target_type = t.target_type
+        AND rd.target_id = t.target_id
+        AND rd.details IS NOT NULL
+      ORDER BY rd.created_at DESC
+    ),
+    coalesce(g.last_at, d.status_changed_at)
+  FROM targets t
+  LEFT JOIN grouped g ON g.target_type = t.target_type AND g.target_id = t.target_id
+  LEFT JOIN dumps d ON t.target_type = 'dump' AND d.id = t.target_id
+  LEFT JOIN comments c ON t.target_type = 'comment' AND c.id = t.target_id
+  LEFT JOIN dumps cd ON cd.id = c.dump_id
+  WHERE d.id IS NOT NULL OR c.id IS NOT NULL
+  ORDER BY coalesce(g.total, 0) DESC, coalesce(g.last_at, d.status_changed_at) DESC;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION moderate_target(
+  p_target_type text,
+  p_target_id uuid,
+  p_action text
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_moderator() THEN
+    RAISE EXCEPTION 'Moderator role required' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_action IN ('approve', 'hide', 'restore', 'remove') AND p_target_type <> 'dump' THEN
+    RAISE EXCEPTION 'Only dumps have a visibility status' USING ERRCODE = '22023';
+  END IF;
+  IF p_action = 'delete' AND p_target_type <> 'comment' THEN
+    RAISE EXCEPTION 'Dumps are removed, not deleted' USING ERRCODE = '22023';
+  END IF;
+
+  CASE p_action
+    WHEN 'approve' THEN
+      UPDATE dumps SET status = 'visible' WHERE id = p_target_id;
+    WHEN 'hide' THEN
+      UPDATE dumps SET status = 'hidden' WHERE id = p_target_id;
+    WHEN 'restore' THEN
+      UPDATE dumps SET status = 'visible' WHERE id = p_target_id;
+      DELETE FROM reports WHERE target_type = 'dump' AND target_id = p_target_id;
+    WHEN 'remove' THEN
+      -- Visible dumps go through hidden so the transition rules stay simple
+      UPDATE dumps SET status = 'hidden' WHERE id = p_target_id AND status = 'visible';
+      UPDATE dumps SET status = 'removed' WHERE id = p_target_id;
+      DELETE FROM reports WHERE target_type = 'dump' AND target_id = p_target_id;
+    WHEN 'delete' THEN
+      DELETE FROM comments WHERE id = p_target_id;
+      DELETE FROM reports WHERE target_type = 'comment' AND target_id = p_target_id;
+    WHEN 'dismiss' THEN
+      DELETE FROM reports WHERE target_type = p_target_type AND target_id = p_target_id;
+    ELSE
+      RAISE EXCEPTION 'Unknown moderation action %', p_action USING ERRCODE = '22023';
+  END CASE;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION moderation_queue(text) FROM public;
+GRANT EXECUTE ON FUNCTION moderation_queue(text) TO authenticated;
@@ -0,0 +1,181 @@
+/*
+  # Lock down anonymous writes to dumps
+
+  The original "Allow anonymous update votes" policy let anon rewrite any
+  column of any dump (content, tags, type). Anon now only reaches `dumps`
+  through two SECURITY DEFINER functions.
+
+  1. Functions
+    - `submit_dump(type, content, tags, title)` - validates and inserts a dump,
+      returning the new row (including pending ones anon can no longer select)
+      - text: 1-500 characters
+      - image/voice/video: a public URL in the matching dump bucket
+      - tags: 1-3 lowercase tags of up to 30 characters
+      - title: up to 100 characters
+    - `cast_vote` also returns the recomputed `rating` for dumps
+
+  2. Security
+    - Drop "Allow anonymous insert dumps" and "Allow anonymous update votes"
+    - Revoke INSERT and UPDATE on dumps from anon; votes only change through
+      cast_vote(), moderators keep their own UPDATE policy
+    - Anon reads only visible dumps; moderators read everything
+*/
+
+DROP POLICY IF EXISTS "Allow anonymous insert dumps" ON dumps;
+DROP POLICY IF EXISTS "Allow anonymous update votes" ON dumps;
+
+REVOKE INSERT, UPDATE ON dumps FROM anon;
+
+-- Pending, hidden and removed dumps no longer leak through direct selects
+DROP POLICY IF EXISTS "Allow public read access to dumps" ON dumps;
+
+CREATE POLICY "Allow public read access to visible dumps"
+  ON dumps
+  FOR SELECT
+  TO public
+  USING (status = 'visible' OR is_moderator());
+
+CREATE OR REPLACE FUNCTION submit_dump(
+  p_type text,
+  p_content text,
+  p_tags text[],
+  p_title text DEFAULT NULL
+)
+RETURNS SETOF dumps
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  clean_content text := btrim(coalesce(p_content, ''));
+  clean_title text := nullif(btrim(coalesce(p_title, '')), '');
+  clean_tags text[];
+  bucket text;
+BEGIN
+  IF p_type NOT IN ('text', 'image', 'voice', 'video') THEN
+    RAISE EXCEPTION 'Unknown dump type %', p_type USING ERRCODE = '22023';
+  END IF;
+
+  IF p_type = 'text' THEN
+    IF char_length(clean_content) NOT BETWEEN 1 AND 500 THEN
+      RAISE EXCEPTION 'Text dumps must be 1-500 characters' USING ERRCODE = '22023';
+    END IF;
+  ELSE
+    bucket := CASE p_type
+      WHEN 'image' THEN 'dump-images'
+      WHEN 'voice' THEN 'dump-audio'
+      ELSE 'dump-videos'
+    END;
+    -- Media must be something this project's storage handed out
+    IF position('/storage/v1/object/public/' || bucket || '/' IN clean_content) = 0 THEN
+      RAISE EXCEPTION 'Media dumps must point to the % bucket', bucket USING ERRCODE = '22023';
+    END IF;
+  END IF;
+
+  SELECT coalesce(array_agg(DISTINCT lower(btrim(t))), '{}')
+  INTO clean_tags
+  FROM unnest(coalesce(p_tags, '{}')) AS t
+  WHERE btrim(t) <> '';
+
+  IF cardinality(clean_tags) NOT BETWEEN 1 AND 3 THEN
+    RAISE EXCEPTION 'Pick between 1 and 3 tags' USING ERRCODE = '22023';
+  END IF;
+  IF EXISTS (SELECT 1 FROM unnest(clean_tags) AS t WHERE char_length(t) > 30) THEN
+    RAISE EXCEPTION 'Tags are limited to 30 characters' USING ERRCODE = '22023';
+  END IF;
+  IF char_length(clean_title) > 100 THEN
+    RAISE EXCEPTION 'Titles are limited to 100 characters' USING ERRCODE = '22023';
+  END IF;
+
+  -- Votes, rating and status come from column defaults and triggers, never the client
+  RETURN QUERY
+  INSERT INTO dumps (type, content, tags, title)
+  VALUES (p_type, clean_content, clean_tags, clean_title)
+  RETURNING *;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION submit_dump(text, text, text[], text) TO anon, authenticated;
+
+-- Same ledger logic as before, plus the rating the trigger recomputed
+DROP FUNCTION IF EXISTS cast_vote(text, uuid, text, text);
+
+CREATE OR REPLACE FUNCTION cast_vote(
+  p_target_type text,
+  p_target_id uuid,
+  p_device_id text,
+  p_vote text
+)
+RETURNS TABLE (upvotes integer, downvotes integer, rating real, vote text)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  previous text;
+  up_delta integer := 0;
+  down_delta integer := 0;
+BEGIN
+  IF p_target_type NOT IN ('dump', 'comment') THEN
+    RAISE EXCEPTION 'Unknown vote target %', p_target_type USING ERRCODE = '22023';
+  END IF;
+  IF p_vote IS NOT NULL AND p_vote NOT IN ('up', 'down') THEN
+    RAISE EXCEPTION 'Unknown vote %', p_vote USING ERRCODE = '22023';
+  END IF;
+
+  -- Only visible dumps can be voted on now that anon cannot see the others
+  IF p_target_type = 'dump' THEN
+    PERFORM 1 FROM dumps WHERE id = p_target_id AND status = 'visible' FOR UPDATE;
+  ELSE
+    PERFORM 1 FROM comments WHERE id = p_target_id FOR UPDATE;
+  END IF;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Vote target not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT v.vote INTO previous
+  FROM votes v
+  WHERE v.target_type = p_target_type
+    AND v.target_id = p_target_id
+    AND v.device_id = p_device_id
+  FOR UPDATE;
+
+  IF previous IS NOT DISTINCT FROM p_vote THEN
+    -- Nothing changes, just report the current state
+    NULL;
+  ELSIF p_vote IS NULL THEN
+    DELETE FROM votes v
+    WHERE v.target_type = p_target_type
+      AND v.target_id = p_target_id
+      AND v.device_id = p_device_id;
+  ELSE
+    INSERT INTO votes (target_type, target_id, device_id, vote)
+    VALUES (p_target_type, p_target_id, p_device_id, p_vote)
+    ON CONFLICT ON CONSTRAINT votes_pkey
+    DO UPDATE SET vote = EXCLUDED.vote, updated_at = now();
+  END IF;
+
+  IF previous IS DISTINCT FROM p_vote THEN
+    up_delta := (CASE WHEN p_vote = 'up' THEN 1 ELSE 0 END) - (CASE WHEN previous = 'up' THEN 1 ELSE 0 END);
+    down_delta := (CASE WHEN p_vote = 'down' THEN 1 ELSE 0 END) - (CASE WHEN previous = 'down' THEN 1 ELSE 0 END);
+  END IF;
+
+  IF p_target_type = 'dump' THEN
+    RETURN QUERY
+    UPDATE dumps d
+    SET upvotes = GREATEST(0, d.upvotes + up_delta),
+        downvotes = GREATEST(0, d.downvotes + down_delta)
+    WHERE d.id = p_target_id
+    RETURNING d.upvotes, d.downvotes, d.rating, p_vote;
+  ELSE
+    RETURN QUERY
+    UPDATE comments c
+    SET upvotes = GREATEST(0, c.upvotes + up_delta),
+        downvotes = GREATEST(0, c.downvotes + down_delta)
+    WHERE c.id = p_target_id
+    RETURNING c.upvotes, c.downvotes, NULL::real, p_vote;
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION cast_vote(text, uuid, text, text) TO anon, authenticated;
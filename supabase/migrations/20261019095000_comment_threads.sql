@@ -0,0 +1,96 @@
+/*
+  # Threaded comment replies
+
+  1. Changes
+    - `comments.parent_id` (uuid, nullable, references comments) - the comment
+      this one replies to; null for top-level comments
+    - `comments.removed_at` (timestamptz) - set when a comment with replies is
+      deleted and kept as a "[removed]" placeholder
+
+  2. Triggers
+    - Replies must belong to the same dump as their parent and cannot answer a
+      removed comment
+    - Deleting a comment that still has replies blanks it instead, so the
+      subtree stays attached. Once a placeholder loses its last reply it is
+      deleted as well.
+    - Purging a dump still deletes its whole comment tree
+*/
+
+ALTER TABLE comments ADD COLUMN IF NOT EXISTS parent_id uuid REFERENCES comments (id) ON DELETE CASCADE;
+ALTER TABLE comments ADD COLUMN IF NOT EXISTS removed_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS comments_parent_id_idx ON comments (parent_id);
+
+CREATE OR REPLACE FUNCTION check_comment_parent()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  parent comments%ROWTYPE;
+BEGIN
+  NEW.removed_at := NULL;
+  IF NEW.parent_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO parent FROM comments WHERE id = NEW.parent_id;
+  IF NOT FOUND OR parent.dump_id <> NEW.dump_id THEN
+    RAISE EXCEPTION 'Parent comment not found on this dump' USING ERRCODE = '22023';
+  END IF;
+  IF parent.removed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Cannot reply to a removed comment' USING ERRCODE = '22023';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_comment_parent_trigger
+  BEFORE INSERT ON comments
+  FOR EACH ROW
+  EXECUTE FUNCTION check_comment_parent();
+
+-- SECURITY DEFINER: comments have no UPDATE policy, so with the deleting
+-- moderator's rights the blanking UPDATE would match no rows and the delete
+-- would be silently skipped
+CREATE OR REPLACE FUNCTION keep_comment_thread()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- When the dump itself is gone (purge cascade) the whole tree goes with it
+  IF EXISTS (SELECT 1 FROM comments c WHERE c.parent_id = OLD.id)
+     AND EXISTS (SELECT 1 FROM dumps d WHERE d.id = OLD.dump_id) THEN
+    UPDATE comments SET content = '[removed]', removed_at = now() WHERE id = OLD.id;
+    RETURN NULL;
+  END IF;
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER keep_comment_thread_trigger
+  BEFORE DELETE ON comments
+  FOR EACH ROW
+  EXECUTE FUNCTION keep_comment_thread();
+
+CREATE OR REPLACE FUNCTION prune_removed_comment_parent()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF OLD.parent_id IS NOT NULL THEN
+    DELETE FROM comments p
+    WHERE p.id = OLD.parent_id
+      AND p.removed_at IS NOT NULL
+      AND NOT EXISTS (SELECT 1 FROM comments c WHERE c.parent_id = p.id);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER prune_removed_comment_parent_trigger
+  AFTER DELETE ON comments
+  FOR EACH ROW
+  EXECUTE FUNCTION prune_removed_comment_parent();
@@ -0,0 +1,17 @@
+/*
+  # Realtime comments and vote counts
+
+  1. Changes
+    - Add `comments` and `dumps` to the `supabase_realtime` publication so open
+      cards receive new comments, comment edits and vote totals
+    - `comments` uses REPLICA IDENTITY FULL so DELETE events carry the row
+
+  2. Security
+    - Realtime applies the tables' SELECT policies, so clients only receive
+      changes to dumps they could read (visible ones, or all for moderators)
+*/
+
+ALTER TABLE comments REPLICA IDENTITY FULL;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE comments;
+ALTER PUBLICATION supabase_realtime ADD TABLE dumps;
@@ -0,0 +1,108 @@
+/*
+  # Full-text search across dumps and comments
+
+  1. Changes
+    - `dumps.search_vector` (tsvector, generated) - title (weight A) and, for
+      text dumps, content (weight B). Media URLs are not indexed.
+    - `comments.search_vector` (tsvector, generated) - comment content, empty
+      for "[removed]" placeholders
+    - GIN indexes on both
+
+  2. Functions
+    - `search_dumps(query, tag, types, created_after, created_before, limit, offset)`
+      matches the query (websearch syntax: "quoted phrases", -exclusions, OR)
+      against dumps and their comments. Returns each visible dump once with a
+      rank and a highlighted snippet. Highlights are wrapped in the control
+      characters U+0002 and U+0003 so user text can never inject markup.
+
+  3. Security
+    - SECURITY INVOKER, so the dumps and comments SELECT policies still apply
+*/
+
+ALTER TABLE dumps ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('english', CASE WHEN type = 'text' THEN content ELSE '' END), 'B')
+  ) STORED;
+
+ALTER TABLE comments ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (
+    to_tsvector('english', CASE WHEN removed_at IS NULL THEN content ELSE '' END)
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS dumps_search_vector_idx ON dumps USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS comments_search_vector_idx ON comments USING GIN (search_vector);
+
+CREATE OR REPLACE FUNCTION search_dumps(
+  p_query text,
+  p_tag text DEFAULT NULL,
+  p_types text[] DEFAULT NULL,
+  p_created_after timestamptz DEFAULT NULL,
+  p_created_before timestamptz DEFAULT NULL,
+  p_limit integer DEFAULT 20,
+  p_offset integer DEFAULT 0
+)
+RETURNS TABLE (dump dumps, rank real, snippet text, matched_in text)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH q AS (
+    SELECT websearch_to_tsquery('english', p_query) AS tsq
+  ),
+  candidates AS (
+    -- Whole rows, so they can be returned as the dumps composite type
+    SELECT d AS dump
+    FROM dumps d
+    WHERE d.status = 'visible'
+      AND d.type <> 'voice'
+      AND (p_tag IS NULL OR d.tags @> ARRAY[p_tag])
+      AND (p_types IS NULL OR d.type = ANY (p_types))
+      AND (p_created_after IS NULL OR d.created_at >= p_created_after)
+      AND (p_created_before IS NULL OR d.created_at < p_created_before)
+  ),
+  comment_hits AS (
+    -- Best matching comment per dump
+    SELECT DISTINCT ON (c.dump_id)
+      c.dump_id,
+      c.content,
+      ts_rank(c.search_vector, q.tsq) AS comment_rank
+    FROM comments c, q
+    WHERE c.search_vector @@ q.tsq
+      AND c.dump_id IN (SELECT (cd.dump).id FROM candidates cd)
+    ORDER BY c.dump_id, ts_rank(c.search_vector, q.tsq) DESC
+  ),
+  hits AS (
+    SELECT
+      cd.dump,
+      (cd.dump).search_vector @@ q.tsq AS dump_matched,
+      ts_rank((cd.dump).search_vector, q.tsq) AS dump_rank,
+      ch.content AS comment_content,
+      ch.comment_rank
+    FROM candidates cd
+    CROSS JOIN q
+    LEFT JOIN comment_hits ch ON ch.dump_id = (cd.dump).id
+    WHERE (cd.dump).search_vector @@ q.tsq OR ch.dump_id IS NOT NULL
+  )
+  SELECT
+    h.dump,
+    -- Matches in the dump itself count double compared to its comments
+    (CASE WHEN h.dump_matched THEN h.dump_rank * 2 ELSE 0 END + coalesce(h.comment_rank, 0))::real,
+    ts_headline(
+      'english',
+      CASE
+        WHEN h.dump_matched THEN concat_ws(' — ', (h.dump).title, CASE WHEN (h.dump).type = 'text' THEN (h.dump).content END)
+        ELSE h.comment_content
+      END,
+      q.tsq,
+      'StartSel=' || chr(2) || ', StopSel=' || chr(3) || ', MaxWords=30, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "'
+    ),
+    CASE WHEN h.dump_matched THEN 'dump' ELSE 'comment' END
+  FROM hits h
+  CROSS JOIN q
+  ORDER BY 2 DESC, (h.dump).created_at DESC
+  LIMIT least(greatest(p_limit, 1), 50)
+  OFFSET greatest(p_offset, 0);
+$$;
+
+GRANT EXECUTE ON FUNCTION search_dumps(text, text, text[], timestamptz, timestamptz, integer, integer) TO anon, authenticated;
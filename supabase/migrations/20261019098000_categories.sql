@@ -0,0 +1,91 @@
+/*
+  # Database-driven categories
+
+  1. New Tables
+    - `categories`
+      - `slug` (text, primary key) - the tag stored in `dumps.tags`
+      - `name` (text) - display name
+      - `color` (text) - color token the client maps to its own classes:
+        'yellow', 'purple', 'green', 'blue', 'pink', 'orange', 'gray', 'red', 'indigo'
+      - `description` (text)
+      - `sort_order` (integer)
+      - `is_active` (boolean, default true) - inactive categories are hidden
+        from pickers and listings but existing tags are kept
+    Seeded with the categories the client used to hardcode.
+
+  2. Functions
+    - `category_counts()` - active categories in display order with the number
+      of visible, non-voice dumps tagged with each, in one round trip
+
+  3. Indexes
+    - GIN index on `dumps.tags` for the containment checks
+
+  4. Security
+    - Anyone can read active categories; moderators can read and manage all
+*/
+
+CREATE TABLE IF NOT EXISTS categories (
+  slug text PRIMARY KEY CHECK (slug ~ '^[a-z0-9]+(-[a-z0-9]+)*$'),
+  name text NOT NULL CHECK (char_length(name) BETWEEN 1 AND 40),
+  color text NOT NULL DEFAULT 'gray'
+    CHECK (color IN ('yellow', 'purple', 'green', 'blue', 'pink', 'orange', 'gray', 'red', 'indigo')),
+  description text CHECK (char_length(description) <= 200),
+  sort_order integer NOT NULL DEFAULT 0,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now()
+);
+
+INSERT INTO categories (slug, name, color, description, sort_order) VALUES
+  ('funny', 'Funny', 'yellow', 'Things that made you laugh', 10),
+  ('deep', 'Deep', 'purple', 'Late-night thoughts and big questions', 20),
+  ('weird', 'Weird', 'green', 'Strange, unexplained and unusual', 30),
+  ('sad', 'Sad', 'blue', 'Heavy days and things that hurt', 40),
+  ('dreams', 'Dreams', 'pink', 'What you saw with your eyes closed', 50),
+  ('food', 'Food', 'orange', 'Meals, cravings and kitchen disasters', 60),
+  ('adult-life', 'Adult-life', 'gray', 'Bills, jobs and pretending to have it together', 70),
+  ('awkward', 'Awkward', 'red', 'Moments you replay at 3am', 80),
+  ('confessions', 'Confessions', 'indigo', 'Things you have never told anyone', 90)
+ON CONFLICT (slug) DO NOTHING;
+
+ALTER TABLE categories ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read active categories"
+  ON categories
+  FOR SELECT
+  TO public
+  USING (is_active OR is_moderator());
+
+CREATE POLICY "Moderators can manage categories"
+  ON categories
+  FOR ALL
+  TO authenticated
+  USING (is_moderator())
+  WITH CHECK (is_moderator());
+
+CREATE INDEX IF NOT EXISTS dumps_tags_idx ON dumps USING GIN (tags);
+
+CREATE OR REPLACE FUNCTION category_counts()
+RETURNS TABLE (
+  slug text,
+  name text,
+  color text,
+  description text,
+  sort_order integer,
+  dump_count integer
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT c.slug, c.name, c.color, c.description, c.sort_order, count(d.id)::integer
+  FROM categories c
+  LEFT JOIN dumps d
+    ON d.tags @> ARRAY[c.slug]
+   AND d.status = 'visible'
+   AND d.type <> 'voice'
+  WHERE c.is_active
+  GROUP BY c.slug
+  ORDER BY c.sort_order, c.name;
+$$;
+
+GRANT EXECUTE ON FUNCTION category_counts() TO anon, authenticated;
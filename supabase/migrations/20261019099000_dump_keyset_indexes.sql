@@ -0,0 +1,18 @@
+/*
+  # Indexes for keyset pagination
+
+  1. Indexes
+    - `dumps (created_at, id)` - newest-first listings (category, recent)
+    - `dumps (upvotes, id)` - top rated
+    Both are partial on visible dumps, which is all the public listings read.
+    Pages continue from the last (value, id) shown instead of an OFFSET, so
+    deep pages cost the same as the first and rows don't shift between pages.
+*/
+
+CREATE INDEX IF NOT EXISTS dumps_visible_created_at_id_idx
+  ON dumps (created_at DESC, id DESC)
+  WHERE status = 'visible';
+
+CREATE INDEX IF NOT EXISTS dumps_visible_upvotes_id_idx
+  ON dumps (upvotes DESC, id DESC)
+  WHERE status = 'visible';
@@ -0,0 +1,75 @@
+/*
+  # Server-side random dump selection
+
+  1. Functions
+    - `random_dump(exclude, weighting)` returns one random visible, non-voice
+      dump whose id is not in `exclude`, or no row when every dump is excluded.
+      `weighting` biases the draw:
+        - 'uniform' (default) - every dump equally likely
+        - 'fresh' - weight decays by e every week, floored so old dumps still
+          come up
+        - 'top' - weight grows with the rating (1 to 6)
+      Unknown weightings fall back to uniform.
+    Only the picked row is sent back, so clients no longer download a pool of
+    dumps to choose from and every dump in the table can come up.
+    The draw only reads a batch of candidates: the next 200 dumps in id order
+    after a random uuid, wrapping around to the lowest ids. Ids are random, so
+    the batch is a uniform sample, and the weighting picks within it. With
+    200 dumps or fewer the batch is all of them.
+
+  2. Indexes
+    - `dumps (id)` partial on visible, non-voice dumps, which the batch is
+      read from in order
+
+  3. Security
+    - SECURITY INVOKER, so the dumps SELECT policy still applies
+*/
+
+CREATE INDEX IF NOT EXISTS dumps_random_pool_id_idx
+  ON dumps (id)
+  WHERE status = 'visible' AND type <> 'voice';
+
+CREATE OR REPLACE FUNCTION random_dump(
+  p_exclude uuid[] DEFAULT '{}',
+  p_weighting text DEFAULT 'uniform'
+)
+RETURNS SETOF dumps
+LANGUAGE sql
+VOLATILE
+SET search_path = public
+AS $$
+  WITH pivot AS (
+    SELECT gen_random_uuid() AS id
+  ),
+  pool AS NOT MATERIALIZED (
+    SELECT d.*
+    FROM dumps d
+    WHERE d.status = 'visible'
+      AND d.type <> 'voice'
+      AND NOT (d.id = ANY (coalesce(p_exclude, '{}')))
+  ),
+  -- Both halves stop after 200 rows of the id index; the lowest ids only
+  -- count when fewer than 200 dumps follow the pivot
+  candidates AS (
+    SELECT c.*
+    FROM (
+      (SELECT p.* FROM pool p WHERE p.id >= (SELECT id FROM pivot) ORDER BY p.id LIMIT 200)
+      UNION ALL
+      (SELECT p.* FROM pool p WHERE p.id < (SELECT id FROM pivot) ORDER BY p.id LIMIT 200)
+    ) c
+    ORDER BY c.id < (SELECT id FROM pivot), c.id
+    LIMIT 200
+  )
+  SELECT c.*
+  FROM candidates c
+  -- Weighted sampling (Efraimidis-Spirakis): the smallest -ln(u) / weight wins,
+  -- which picks each candidate with probability proportional to its weight
+  ORDER BY -ln(1 - random()) / CASE p_weighting
+    WHEN 'fresh' THEN greatest(exp(-extract(epoch FROM now() - c.created_at) / 604800.0), 0.05)
+    WHEN 'top' THEN 1 + greatest(c.rating, 0)
+    ELSE 1
+  END
+  LIMIT 1;
+$$;
+
+GRANT EXECUTE ON FUNCTION random_dump(uuid[], text) TO anon, authenticated;
@@ -0,0 +1,69 @@
+/*
+  # Filters for random dump selection
+
+  1. Functions
+    - `random_dump` gains optional filters, each ignored when null:
+      - `tags` - dump has at least one of these tags
+      - `types` - dump type is one of these
+      - `min_rating` - rating at least this
+      - `created_after` - posted after this time
+    The old two-argument version is dropped so calls with named arguments stay
+    unambiguous. Exclusion, weighting and the candidate batch work as before;
+    the filters apply while the batch is read, so it holds 200 matching dumps
+    when there are that many.
+*/
+
+DROP FUNCTION IF EXISTS random_dump(uuid[], text);
+
+CREATE OR REPLACE FUNCTION random_dump(
+  p_exclude uuid[] DEFAULT '{}',
+  p_weighting text DEFAULT 'uniform',
+  p_tags text[] DEFAULT NULL,
+  p_types text[] DEFAULT NULL,
+  p_min_rating real DEFAULT NULL,
+  p_created_after timestamptz DEFAULT NULL
+)
+RETURNS SETOF dumps
+LANGUAGE sql
+VOLATILE
+SET search_path = public
+AS $$
+  WITH pivot AS (
+    SELECT gen_random_uuid() AS id
+  ),
+  pool AS NOT MATERIALIZED (
+    SELECT d.*
+    FROM dumps d
+    WHERE d.status = 'visible'
+      AND d.type <> 'voice'
+      AND NOT (d.id = ANY (coalesce(p_exclude, '{}')))
+      AND (p_tags IS NULL OR d.tags && p_tags)
+      AND (p_types IS NULL OR d.type = ANY (p_types))
+      AND (p_min_rating IS NULL OR d.rating >= p_min_rating)
+      AND (p_created_after IS NULL OR d.created_at >= p_created_after)
+  ),
+  -- The next 200 matching dumps after a random uuid, wrapping around to the
+  -- lowest ids (see the random_dump migration)
+  candidates AS (
+    SELECT c.*
+    FROM (
+      (SELECT p.* FROM pool p WHERE p.id >= (SELECT id FROM pivot) ORDER BY p.id LIMIT 200)
+      UNION ALL
+      (SELECT p.* FROM pool p WHERE p.id < (SELECT id FROM pivot) ORDER BY p.id LIMIT 200)
+    ) c
+    ORDER BY c.id < (SELECT id FROM pivot), c.id
+    LIMIT 200
+  )
+  SELECT c.*
+  FROM candidates c
+  -- Weighted sampling (Efraimidis-Spirakis): the smallest -ln(u) / weight wins,
+  -- which picks each candidate with probability proportional to its weight
+  ORDER BY -ln(1 - random()) / CASE p_weighting
+    WHEN 'fresh' THEN greatest(exp(-extract(epoch FROM now() - c.created_at) / 604800.0), 0.05)
+    WHEN 'top' THEN 1 + greatest(c.rating, 0)
+    ELSE 1
+  END
+  LIMIT 1;
+$$;
+
+GRANT EXECUTE ON FUNCTION random_dump(uuid[], text, text[], text[], real, timestamptz) TO anon, authenticated;
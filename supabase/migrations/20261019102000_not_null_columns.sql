@@ -0,0 +1,56 @@
+/*
+  # NOT NULL on columns that always have a value
+
+  1. Changed Tables
+    - `dumps.tags`, `upvotes`, `downvotes`, `rating`, `created_at`,
+      `status_changed_at`
+    - `comments.upvotes`, `downvotes`, `created_at` - already NOT NULL on
+      fresh databases, but the table was first created by hand
+    - `votes.created_at`, `updated_at`
+    - `reports.created_at`
+    - `moderators.created_at`
+    - `categories.created_at`
+    Every one of these has a default and no code path writes null, but the
+    columns were nullable, so generated types had to mark them `| null`.
+    Existing nulls are backfilled with the column default first.
+*/
+
+UPDATE dumps SET tags = '{}' WHERE tags IS NULL;
+UPDATE dumps SET upvotes = 0 WHERE upvotes IS NULL;
+UPDATE dumps SET downvotes = 0 WHERE downvotes IS NULL;
+UPDATE dumps SET rating = 0.0 WHERE rating IS NULL;
+UPDATE dumps SET created_at = now() WHERE created_at IS NULL;
+UPDATE dumps SET status_changed_at = created_at WHERE status_changed_at IS NULL;
+
+ALTER TABLE dumps
+  ALTER COLUMN tags SET NOT NULL,
+  ALTER COLUMN upvotes SET NOT NULL,
+  ALTER COLUMN downvotes SET NOT NULL,
+  ALTER COLUMN rating SET NOT NULL,
+  ALTER COLUMN created_at SET NOT NULL,
+  ALTER COLUMN status_changed_at SET NOT NULL;
+
+UPDATE comments SET upvotes = 0 WHERE upvotes IS NULL;
+UPDATE comments SET downvotes = 0 WHERE downvotes IS NULL;
+UPDATE comments SET created_at = now() WHERE created_at IS NULL;
+
+ALTER TABLE comments
+  ALTER COLUMN upvotes SET NOT NULL,
+  ALTER COLUMN downvotes SET NOT NULL,
+  ALTER COLUMN created_at SET NOT NULL;
+
+UPDATE votes SET created_at = now() WHERE created_at IS NULL;
+UPDATE votes SET updated_at = created_at WHERE updated_at IS NULL;
+
+ALTER TABLE votes
+  ALTER COLUMN created_at SET NOT NULL,
+  ALTER COLUMN updated_at SET NOT NULL;
+
+UPDATE reports SET created_at = now() WHERE created_at IS NULL;
+ALTER TABLE reports ALTER COLUMN created_at SET NOT NULL;
+
+UPDATE moderators SET created_at = now() WHERE created_at IS NULL;
+ALTER TABLE moderators ALTER COLUMN created_at SET NOT NULL;
+
+UPDATE categories SET created_at = now() WHERE created_at IS NULL;
+ALTER TABLE categories ALTER COLUMN created_at SET NOT NULL;
@@ -0,0 +1,50 @@
+/*
+  # Share counts
+
+  1. Changes
+    - `dumps.share_count` (integer, default 0) - times the dump was shared
+      from its card (native share sheet, copied link or text, QR code)
+
+  2. Functions
+    - `record_share(dump_id)` bumps the count of a visible dump and returns
+      the new total
+
+  3. Security
+    - anon can't update dumps directly, so the count only moves through
+      record_share()
+*/
+
+ALTER TABLE dumps ADD COLUMN IF NOT EXISTS share_count integer NOT NULL DEFAULT 0;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'dumps_share_count_non_negative'
+  ) THEN
+    ALTER TABLE dumps ADD CONSTRAINT dumps_share_count_non_negative CHECK (share_count >= 0);
+  END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION record_share(p_dump_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_count integer;
+BEGIN
+  UPDATE dumps
+  SET share_count = share_count + 1
+  WHERE id = p_dump_id AND status = 'visible'
+  RETURNING share_count INTO new_count;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Dump not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN new_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION record_share(uuid) TO anon, authenticated;
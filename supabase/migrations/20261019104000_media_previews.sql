@@ -0,0 +1,120 @@
+/*
+  # Media previews
+
+  1. Changes
+    - `dumps.thumbnail_url` (text) - small copy of an image dump, in the same
+      bucket as the media, for lists and srcset
+    - `dumps.placeholder` (text) - base64 ThumbHash painted while the media loads
+    - `dumps.media_width` / `dumps.media_height` (integer) - pixel size of the
+      uploaded media, so cards can reserve its space before it loads
+
+  2. Functions
+    - `submit_dump` takes the four preview fields. The thumbnail must sit in
+      the media's bucket; the others are range checked.
+
+  3. Notes
+    - The old four-argument submit_dump is dropped so calls aren't ambiguous
+      between the two signatures
+*/
+
+ALTER TABLE dumps ADD COLUMN IF NOT EXISTS thumbnail_url text;
+ALTER TABLE dumps ADD COLUMN IF NOT EXISTS placeholder text;
+ALTER TABLE dumps ADD COLUMN IF NOT EXISTS media_width integer;
+ALTER TABLE dumps ADD COLUMN IF NOT EXISTS media_height integer;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'dumps_placeholder_length') THEN
+    ALTER TABLE dumps ADD CONSTRAINT dumps_placeholder_length CHECK (char_length(placeholder) <= 64);
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'dumps_media_size') THEN
+    ALTER TABLE dumps ADD CONSTRAINT dumps_media_size CHECK (
+      (media_width IS NULL) = (media_height IS NULL)
+      AND (media_width IS NULL OR (media_width BETWEEN 1 AND 16384 AND media_height BETWEEN 1 AND 16384))
+    );
+  END IF;
+END $$;
+
+DROP FUNCTION IF EXISTS submit_dump(text, text, text[], text);
+
+CREATE OR REPLACE FUNCTION submit_dump(
+  p_type text,
+  p_content text,
+  p_tags text[],
+  p_title text DEFAULT NULL,
+  p_thumbnail_url text DEFAULT NULL,
+  p_placeholder text DEFAULT NULL,
+  p_media_width integer DEFAULT NULL,
+  p_media_height integer DEFAULT NULL
+)
+RETURNS SETOF dumps
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  clean_content text := btrim(coalesce(p_content, ''));
+  clean_title text := nullif(btrim(coalesce(p_title, '')), '');
+  clean_thumbnail text := nullif(btrim(coalesce(p_thumbnail_url, '')), '');
+  clean_tags text[];
+  bucket text;
+BEGIN
+  IF p_type NOT IN ('text', 'image', 'voice', 'video') THEN
+    RAISE EXCEPTION 'Unknown dump type %', p_type USING ERRCODE = '22023';
+  END IF;
+
+  IF p_type = 'text' THEN
+    IF char_length(clean_content) NOT BETWEEN 1 AND 500 THEN
+      RAISE EXCEPTION 'Text dumps must be 1-500 characters' USING ERRCODE = '22023';
+    END IF;
+    IF clean_thumbnail IS NOT NULL OR p_placeholder IS NOT NULL OR p_media_width IS NOT NULL THEN
+      RAISE EXCEPTION 'Text dumps have no media preview' USING ERRCODE = '22023';
+    END IF;
+  ELSE
+    bucket := CASE p_type
+      WHEN 'image' THEN 'dump-images'
+      WHEN 'voice' THEN 'dump-audio'
+      ELSE 'dump-videos'
+    END;
+    -- Media must be something this project's storage handed out
+    IF position('/storage/v1/object/public/' || bucket || '/' IN clean_content) = 0 THEN
+      RAISE EXCEPTION 'Media dumps must point to the % bucket', bucket USING ERRCODE = '22023';
+    END IF;
+    IF clean_thumbnail IS NOT NULL AND position('/storage/v1/object/public/' || bucket || '/' IN clean_thumbnail) = 0 THEN
+      RAISE EXCEPTION 'Thumbnails must point to the % bucket', bucket USING ERRCODE = '22023';
+    END IF;
+  END IF;
+
+  IF char_length(p_placeholder) > 64 THEN
+    RAISE EXCEPTION 'Placeholders are limited to 64 characters' USING ERRCODE = '22023';
+  END IF;
+  IF (p_media_width IS NULL) <> (p_media_height IS NULL)
+    OR p_media_width NOT BETWEEN 1 AND 16384
+    OR p_media_height NOT BETWEEN 1 AND 16384 THEN
+    RAISE EXCEPTION 'Invalid media size' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT coalesce(array_agg(DISTINCT lower(btrim(t))), '{}')
+  INTO clean_tags
+  FROM unnest(coalesce(p_tags, '{}')) AS t
+  WHERE btrim(t) <> '';
+
+  IF cardinality(clean_tags) NOT BETWEEN 1 AND 3 THEN
+    RAISE EXCEPTION 'Pick between 1 and 3 tags' USING ERRCODE = '22023';
+  END IF;
+  IF EXISTS (SELECT 1 FROM unnest(clean_tags) AS t WHERE char_length(t) > 30) THEN
+    RAISE EXCEPTION 'Tags are limited to 30 characters' USING ERRCODE = '22023';
+  END IF;
+  IF char_length(clean_title) > 100 THEN
+    RAISE EXCEPTION 'Titles are limited to 100 characters' USING ERRCODE = '22023';
+  END IF;
+
+  -- Votes, rating and status come from column defaults and triggers, never the client
+  RETURN QUERY
+  INSERT INTO dumps (type, content, tags, title, thumbnail_url, placeholder, media_width, media_height)
+  VALUES (p_type, clean_content, clean_tags, clean_title, clean_thumbnail, p_placeholder, p_media_width, p_media_height)
+  RETURNING *;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION submit_dump(text, text, text[], text, text, text, integer, integer) TO anon, authenticated;
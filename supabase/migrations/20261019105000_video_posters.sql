@@ -0,0 +1,129 @@
+/*
+  # Video posters and durations
+
+  1. Changes
+    - `dumps.poster_url` (text) - a frame of a video dump shown before it plays,
+      taken in the browser at upload time
+    - `dumps.duration_ms` (integer) - length of a video dump, for the badge on
+      its card
+
+  2. Functions
+    - `submit_dump` takes the poster and duration. Both are for video dumps
+      only, and the poster must sit in the dump-images bucket.
+
+  3. Notes
+    - Video dumps also fill in `placeholder`, `media_width` and `media_height`
+      from the poster frame
+    - The eight-argument submit_dump is dropped so calls aren't ambiguous
+*/
+
+ALTER TABLE dumps ADD COLUMN IF NOT EXISTS poster_url text;
+ALTER TABLE dumps ADD COLUMN IF NOT EXISTS duration_ms integer;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'dumps_duration_ms_non_negative') THEN
+    ALTER TABLE dumps ADD CONSTRAINT dumps_duration_ms_non_negative CHECK (duration_ms >= 0);
+  END IF;
+END $$;
+
+DROP FUNCTION IF EXISTS submit_dump(text, text, text[], text, text, text, integer, integer);
+
+CREATE OR REPLACE FUNCTION submit_dump(
+  p_type text,
+  p_content text,
+  p_tags text[],
+  p_title text DEFAULT NULL,
+  p_thumbnail_url text DEFAULT NULL,
+  p_placeholder text DEFAULT NULL,
+  p_media_width integer DEFAULT NULL,
+  p_media_height integer DEFAULT NULL,
+  p_poster_url text DEFAULT NULL,
+  p_duration_ms integer DEFAULT NULL
+)
+RETURNS SETOF dumps
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  clean_content text := btrim(coalesce(p_content, ''));
+  clean_title text := nullif(btrim(coalesce(p_title, '')), '');
+  clean_thumbnail text := nullif(btrim(coalesce(p_thumbnail_url, '')), '');
+  clean_poster text := nullif(btrim(coalesce(p_poster_url, '')), '');
+  clean_tags text[];
+  bucket text;
+BEGIN
+  IF p_type NOT IN ('text', 'image', 'voice', 'video') THEN
+    RAISE EXCEPTION 'Unknown dump type %', p_type USING ERRCODE = '22023';
+  END IF;
+
+  IF p_type = 'text' THEN
+    IF char_length(clean_content) NOT BETWEEN 1 AND 500 THEN
+      RAISE EXCEPTION 'Text dumps must be 1-500 characters' USING ERRCODE = '22023';
+    END IF;
+    IF clean_thumbnail IS NOT NULL OR p_placeholder IS NOT NULL OR p_media_width IS NOT NULL THEN
+      RAISE EXCEPTION 'Text dumps have no media preview' USING ERRCODE = '22023';
+    END IF;
+  ELSE
+    bucket := CASE p_type
+      WHEN 'image' THEN 'dump-images'
+      WHEN 'voice' THEN 'dump-audio'
+      ELSE 'dump-videos'
+    END;
+    -- Media must be something this project's storage handed out
+    IF position('/storage/v1/object/public/' || bucket || '/' IN clean_content) = 0 THEN
+      RAISE EXCEPTION 'Media dumps must point to the % bucket', bucket USING ERRCODE = '22023';
+    END IF;
+    IF clean_thumbnail IS NOT NULL AND position('/storage/v1/object/public/' || bucket || '/' IN clean_thumbnail) = 0 THEN
+      RAISE EXCEPTION 'Thumbnails must point to the % bucket', bucket USING ERRCODE = '22023';
+    END IF;
+  END IF;
+
+  IF p_type <> 'video' AND (clean_poster IS NOT NULL OR p_duration_ms IS NOT NULL) THEN
+    RAISE EXCEPTION 'Only video dumps have a poster and duration' USING ERRCODE = '22023';
+  END IF;
+  -- Posters are images, so they are uploaded to the image bucket
+  IF clean_poster IS NOT NULL AND position('/storage/v1/object/public/dump-images/' IN clean_poster) = 0 THEN
+    RAISE EXCEPTION 'Posters must point to the dump-images bucket' USING ERRCODE = '22023';
+  END IF;
+  IF p_duration_ms < 0 THEN
+    RAISE EXCEPTION 'Invalid duration' USING ERRCODE = '22023';
+  END IF;
+
+  IF char_length(p_placeholder) > 64 THEN
+    RAISE EXCEPTION 'Placeholders are limited to 64 characters' USING ERRCODE = '22023';
+  END IF;
+  IF (p_media_width IS NULL) <> (p_media_height IS NULL)
+    OR p_media_width NOT BETWEEN 1 AND 16384
+    OR p_media_height NOT BETWEEN 1 AND 16384 THEN
+    RAISE EXCEPTION 'Invalid media size' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT coalesce(array_agg(DISTINCT lower(btrim(t))), '{}')
+  INTO clean_tags
+  FROM unnest(coalesce(p_tags, '{}')) AS t
+  WHERE btrim(t) <> '';
+
+  IF cardinality(clean_tags) NOT BETWEEN 1 AND 3 THEN
+    RAISE EXCEPTION 'Pick between 1 and 3 tags' USING ERRCODE = '22023';
+  END IF;
+  IF EXISTS (SELECT 1 FROM unnest(clean_tags) AS t WHERE char_length(t) > 30) THEN
+    RAISE EXCEPTION 'Tags are limited to 30 characters' USING ERRCODE = '22023';
+  END IF;
+  IF char_length(clean_title) > 100 THEN
+    RAISE EXCEPTION 'Titles are limited to 100 characters' USING ERRCODE = '22023';
+  END IF;
+
+  -- Votes, rating and status come from column defaults and triggers, never the client
+  RETURN QUERY
+  INSERT INTO dumps (type, content, tags, title, thumbnail_url, placeholder, media_width, media_height, poster_url, duration_ms)
+  VALUES (
+    p_type, clean_content, clean_tags, clean_title, clean_thumbnail, p_placeholder, p_media_width, p_media_height,
+    clean_poster, p_duration_ms
+  )
+  RETURNING *;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION submit_dump(text, text, text[], text, text, text, integer, integer, text, integer) TO anon, authenticated;
@@ -0,0 +1,246 @@
+/*
+  # Upload limits
+
+  1. New Tables
+    - `upload_limits`
+      - `dump_type` (text, primary key) - 'image', 'voice' or 'video'
+      - `bucket` (text) - storage bucket the files are uploaded to
+      - `max_bytes` (bigint) - largest file allowed
+      - `max_seconds` (integer) - longest voice note or video; null for images
+      - `mime_types` (text[]) - types the client's upload pipeline produces
+    Seeded with the values in src/services/media/limits.ts; change both
+    together.
+    - `storage_settings` - single row
+      - `public_origin` (text) - origin of this project's storage, e.g.
+        `https://<project>.supabase.co`. Unset until configured, and media
+        dumps are refused until it is.
+
+  2. Storage
+    - Each bucket's `file_size_limit` and `allowed_mime_types` follow its row
+      in `upload_limits`, now and whenever a row changes
+
+  3. Functions
+    - `validate_dump_media(type, url, duration_ms)` - raises unless the URL is
+      the public URL of an upload in the type's bucket on this project's
+      storage origin, whose stored size and content type are within the
+      limits, and the duration is within the type's maximum
+    - `submit_dump` runs it for media, thumbnails and posters, and now takes a
+      duration for voice dumps as well as videos
+
+  4. Security
+    - Anyone can read the limits; only SECURITY DEFINER functions read
+      `storage_settings`
+
+  5. Notes
+    - Storage only knows an upload's declared content type. The client sniffs
+      each file's real type from its bytes and declares that; the bucket and
+      this check make sure nothing else is declared.
+    - Durations are measured by the client. The byte limits are the hard cap.
+*/
+
+CREATE TABLE IF NOT EXISTS upload_limits (
+  dump_type text PRIMARY KEY CHECK (dump_type IN ('image', 'voice', 'video')),
+  bucket text NOT NULL UNIQUE,
+  max_bytes bigint NOT NULL CHECK (max_bytes > 0),
+  max_seconds integer CHECK (max_seconds > 0),
+  mime_types text[] NOT NULL CHECK (cardinality(mime_types) > 0)
+);
+
+INSERT INTO upload_limits (dump_type, bucket, max_bytes, max_seconds, mime_types) VALUES
+  ('image', 'dump-images', 10485760, NULL, ARRAY['image/jpeg', 'image/png', 'image/webp', 'image/avif', 'image/gif']),
+  ('voice', 'dump-audio', 10485760, 300,
+    ARRAY['audio/mp4', 'audio/webm', 'audio/x-matroska', 'audio/mpeg', 'audio/wav', 'audio/flac', 'audio/ogg']),
+  ('video', 'dump-videos', 52428800, 180, ARRAY['video/mp4', 'video/quicktime', 'video/webm', 'video/x-matroska'])
+ON CONFLICT (dump_type) DO NOTHING;
+
+ALTER TABLE upload_limits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read upload limits"
+  ON upload_limits
+  FOR SELECT
+  TO public
+  USING (true);
+
+CREATE TABLE IF NOT EXISTS storage_settings (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  public_origin text CHECK (public_origin ~ '^https?://[^/?#]+$')
+);
+
+INSERT INTO storage_settings (id) VALUES (true) ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE storage_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION apply_upload_limits()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE storage.buckets b
+  SET file_size_limit = l.max_bytes, allowed_mime_types = l.mime_types
+  FROM upload_limits l
+  WHERE b.id = l.bucket;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS upload_limits_apply ON upload_limits;
+CREATE TRIGGER upload_limits_apply
+  AFTER INSERT OR UPDATE ON upload_limits
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION apply_upload_limits();
+
+-- The seed rows went in before the trigger existed
+UPDATE storage.buckets b
+SET file_size_limit = l.max_bytes, allowed_mime_types = l.mime_types
+FROM upload_limits l
+WHERE b.id = l.bucket;
+
+CREATE OR REPLACE FUNCTION validate_dump_media(p_type text, p_url text, p_duration_ms integer DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  limits upload_limits%ROWTYPE;
+  origin text;
+  prefix text;
+  object_size bigint;
+  object_type text;
+BEGIN
+  SELECT * INTO limits FROM upload_limits WHERE dump_type = p_type;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown media type %', p_type USING ERRCODE = '22023';
+  END IF;
+
+  SELECT public_origin INTO origin FROM storage_settings;
+  IF origin IS NULL THEN
+    RAISE EXCEPTION 'Media uploads are not configured yet (storage_settings.public_origin)' USING ERRCODE = '55000';
+  END IF;
+
+  -- Media must be something this project's storage handed out: the URL starts
+  -- with its origin and the bucket's public path, and the rest is the object
+  prefix := origin || '/storage/v1/object/public/' || limits.bucket || '/';
+  IF left(coalesce(p_url, ''), char_length(prefix)) <> prefix THEN
+    RAISE EXCEPTION 'Media must point to the % bucket', limits.bucket USING ERRCODE = '22023';
+  END IF;
+
+  SELECT (o.metadata->>'size')::bigint, split_part(o.metadata->>'mimetype', ';', 1)
+  INTO object_size, object_type
+  FROM storage.objects o
+  WHERE o.bucket_id = limits.bucket
+    AND o.name = substring(p_url FROM char_length(prefix) + 1);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'The uploaded file was not found' USING ERRCODE = '22023';
+  END IF;
+  IF object_size > limits.max_bytes THEN
+    RAISE EXCEPTION '% files are limited to % bytes', p_type, limits.max_bytes USING ERRCODE = '22023';
+  END IF;
+  IF NOT (object_type = ANY (limits.mime_types)) THEN
+    RAISE EXCEPTION '% files can''t be posted as % dumps', coalesce(object_type, 'Untyped'), p_type USING ERRCODE = '22023';
+  END IF;
+  IF p_duration_ms < 0 THEN
+    RAISE EXCEPTION 'Invalid duration' USING ERRCODE = '22023';
+  END IF;
+  IF p_duration_ms > limits.max_seconds * 1000 THEN
+    RAISE EXCEPTION '% dumps are limited to % seconds', p_type, limits.max_seconds USING ERRCODE = '22023';
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION validate_dump_media(text, text, integer) TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION submit_dump(
+  p_type text,
+  p_content text,
+  p_tags text[],
+  p_title text DEFAULT NULL,
+  p_thumbnail_url text DEFAULT NULL,
+  p_placeholder text DEFAULT NULL,
+  p_media_width integer DEFAULT NULL,
+  p_media_height integer DEFAULT NULL,
+  p_poster_url text DEFAULT NULL,
+  p_duration_ms integer DEFAULT NULL
+)
+RETURNS SETOF dumps
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  clean_content text := btrim(coalesce(p_content, ''));
+  clean_title text := nullif(btrim(coalesce(p_title, '')), '');
+  clean_thumbnail text := nullif(btrim(coalesce(p_thumbnail_url, '')), '');
+  clean_poster text := nullif(btrim(coalesce(p_poster_url, '')), '');
+  clean_tags text[];
+BEGIN
+  IF p_type NOT IN ('text', 'image', 'voice', 'video') THEN
+    RAISE EXCEPTION 'Unknown dump type %', p_type USING ERRCODE = '22023';
+  END IF;
+
+  IF p_type = 'text' THEN
+    IF char_length(clean_content) NOT BETWEEN 1 AND 500 THEN
+      RAISE EXCEPTION 'Text dumps must be 1-500 characters' USING ERRCODE = '22023';
+    END IF;
+    IF clean_thumbnail IS NOT NULL OR p_placeholder IS NOT NULL OR p_media_width IS NOT NULL THEN
+      RAISE EXCEPTION 'Text dumps have no media preview' USING ERRCODE = '22023';
+    END IF;
+  ELSE
+    -- Media, thumbnails and posters must be uploads within the limits
+    PERFORM validate_dump_media(p_type, clean_content, p_duration_ms);
+    IF clean_thumbnail IS NOT NULL THEN
+      PERFORM validate_dump_media(p_type, clean_thumbnail);
+    END IF;
+  END IF;
+
+  IF p_type <> 'video' AND clean_poster IS NOT NULL THEN
+    RAISE EXCEPTION 'Only video dumps have a poster' USING ERRCODE = '22023';
+  END IF;
+  IF p_type NOT IN ('voice', 'video') AND p_duration_ms IS NOT NULL THEN
+    RAISE EXCEPTION 'Only voice and video dumps have a duration' USING ERRCODE = '22023';
+  END IF;
+  -- Posters are images, so they are uploaded to the image bucket
+  IF clean_poster IS NOT NULL THEN
+    PERFORM validate_dump_media('image', clean_poster);
+  END IF;
+
+  IF char_length(p_placeholder) > 64 THEN
+    RAISE EXCEPTION 'Placeholders are limited to 64 characters' USING ERRCODE = '22023';
+  END IF;
+  IF (p_media_width IS NULL) <> (p_media_height IS NULL)
+    OR p_media_width NOT BETWEEN 1 AND 16384
+    OR p_media_height NOT BETWEEN 1 AND 16384 THEN
+    RAISE EXCEPTION 'Invalid media size' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT coalesce(array_agg(DISTINCT lower(btrim(t))), '{}')
+  INTO clean_tags
+  FROM unnest(coalesce(p_tags, '{}')) AS t
+  WHERE btrim(t) <> '';
+
+  IF cardinality(clean_tags) NOT BETWEEN 1 AND 3 THEN
+    RAISE EXCEPTION 'Pick between 1 and 3 tags' USING ERRCODE = '22023';
+  END IF;
+  IF EXISTS (SELECT 1 FROM unnest(clean_tags) AS t WHERE char_length(t) > 30) THEN
+    RAISE EXCEPTION 'Tags are limited to 30 characters' USING ERRCODE = '22023';
+  END IF;
+  IF char_length(clean_title) > 100 THEN
+    RAISE EXCEPTION 'Titles are limited to 100 characters' USING ERRCODE = '22023';
+  END IF;
+
+  -- Votes, rating and status come from column defaults and triggers, never the client
+  RETURN QUERY
+  INSERT INTO dumps (type, content, tags, title, thumbnail_url, placeholder, media_width, media_height, poster_url, duration_ms)
+  VALUES (
+    p_type, clean_content, clean_tags, clean_title, clean_thumbnail, p_placeholder, p_media_width, p_media_height,
+    clean_poster, p_duration_ms
+  )
+  RETURNING *;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION submit_dump(text, text, text[], text, text, text, integer, integer, text, integer) TO anon, authenticated;